@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { closedBarIndex, resampleCandles } from '@/data/resample';
+import type { Candle } from '@/types/results';
+
+/** Build consecutive daily candles starting at the given date. */
+function makeDaily(count: number, startDate: string): Candle[] {
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(startDate + 'T00:00:00Z');
+    d.setUTCDate(d.getUTCDate() + i);
+    return { t: d.toISOString().slice(0, 10), o: 100 + i, h: 110 + i, l: 90 - i, c: 101 + i, v: 10 };
+  });
+}
+
+describe('resampleCandles', () => {
+  it('returns daily candles unchanged', () => {
+    const daily = makeDaily(5, '2024-01-01');
+    expect(resampleCandles(daily, '1D')).toBe(daily);
+  });
+
+  it('aggregates OHLCV into Monday-dated weekly bars', () => {
+    // 2024-01-01 is a Monday; 10 days = one full week + 3 days
+    const bars = resampleCandles(makeDaily(10, '2024-01-01'), '1W');
+    expect(bars).toEqual([
+      { t: '2024-01-01', o: 100, h: 116, l: 84, c: 107, v: 70 },
+      { t: '2024-01-08', o: 107, h: 119, l: 81, c: 110, v: 30 },
+    ]);
+  });
+
+  it('dates a partial first week by its Monday', () => {
+    // 2024-01-03 is a Wednesday
+    const bars = resampleCandles(makeDaily(3, '2024-01-03'), '1W');
+    expect(bars).toHaveLength(1);
+    expect(bars[0].t).toBe('2024-01-01');
+  });
+
+  it('aggregates into monthly bars dated the 1st', () => {
+    const bars = resampleCandles(makeDaily(45, '2024-01-20'), '1M');
+    expect(bars.map((b) => b.t)).toEqual(['2024-01-01', '2024-02-01', '2024-03-01']);
+    expect(bars[0]).toMatchObject({ o: 100, c: 112, v: 120 });
+    expect(bars[1]).toMatchObject({ o: 112, c: 141, v: 290 });
+  });
+});
+
+describe('closedBarIndex', () => {
+  it('maps daily candles to the latest closed week', () => {
+    // Wednesday 2024-01-03 .. Wednesday 2024-01-17
+    const daily = makeDaily(15, '2024-01-03');
+    const index = closedBarIndex(daily, '1W', '1D');
+    // Sunday 01-07 (i=4) closes week 0; Sunday 01-14 (i=11) closes week 1
+    expect(index.slice(0, 5)).toEqual([null, null, null, null, 0]);
+    expect(index.slice(5, 12)).toEqual([0, 0, 0, 0, 0, 0, 1]);
+    expect(index.slice(12)).toEqual([1, 1, 1]);
+  });
+
+  it('closes a month on its last weekly bar', () => {
+    // Weekly bars dated Mondays: Jan 22, Jan 29, Feb 5
+    const weekly = [
+      { t: '2024-01-22', o: 1, h: 1, l: 1, c: 1, v: 1 },
+      { t: '2024-01-29', o: 1, h: 1, l: 1, c: 1, v: 1 },
+      { t: '2024-02-05', o: 1, h: 1, l: 1, c: 1, v: 1 },
+    ];
+    expect(closedBarIndex(weekly, '1M', '1W')).toEqual([null, 0, 0]);
+  });
+});
+
+describe('resampling intraday bars', () => {
+  // Six 4-hour bars per day from 2024-01-01 00:00 UTC, closes 1..12
+  const bars: Candle[] = Array.from({ length: 12 }, (_, i) => ({
+    t: new Date(Date.UTC(2024, 0, 1, i * 4)).toISOString().slice(0, 19) + 'Z',
+    o: i + 1,
+    h: i + 2,
+    l: i,
+    c: i + 1,
+    v: 1,
+  }));
+
+  it('aggregates 4-hour bars into daily bars dated by the UTC day', () => {
+    expect(resampleCandles(bars, '1D', '4H')).toEqual([
+      { t: '2024-01-01', o: 1, h: 7, l: 0, c: 6, v: 6 },
+      { t: '2024-01-02', o: 7, h: 13, l: 6, c: 12, v: 6 },
+    ]);
+  });
+
+  it('closes the day on its 20:00 bar', () => {
+    expect(closedBarIndex(bars, '1D', '4H')).toEqual([
+      null, null, null, null, null, 0,
+      0, 0, 0, 0, 0, 1,
+    ]);
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { runBacktest } from '@/engine/backtest';
+import { runBacktest, runPortfolioBacktest } from '@/engine/backtest';
 import type { BacktestConfig, Candle } from '@/types/results';
-import type { StrategyRuleSet } from '@/types/strategy';
+import type { IndicatorSpec, StrategyRuleSet } from '@/types/strategy';
+import { computeATR } from '@/indicators/atr';
 
 // ---------------------------------------------------------------------------
 // Helper: build candle data
@@ -443,3 +444,1308 @@ describe('runBacktest – standard mode', () => {
     expect(result.trades[0].pnlPct).toBeGreaterThan(0);
   });
 });
+
+describe('runBacktest – short side', () => {
+  /** Enter short when close > entryAbove, cover when close < exitBelow */
+  function makeShortStrategy(entryAbove: number, exitBelow: number): StrategyRuleSet {
+    return {
+      ...makePriceStrategy(0, 0),
+      id: 'test-short',
+      name: 'Short Strategy',
+      side: 'short',
+      entry: {
+        op: 'AND',
+        conditions: [
+          {
+            id: 'entry-short',
+            label: `close > ${entryAbove}`,
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'price_close' } },
+            op: 'gt',
+            right: { kind: 'number', value: entryAbove },
+          },
+        ],
+      },
+      exit: {
+        op: 'AND',
+        conditions: [
+          {
+            id: 'exit-short',
+            label: `close < ${exitBelow}`,
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'price_close' } },
+            op: 'lt',
+            right: { kind: 'number', value: exitBelow },
+          },
+        ],
+      },
+    };
+  }
+
+  it('profits when price falls and records the side', () => {
+    const closePrices = [100, 104, 108, 112, 106, 100, 94, 90, 88, 86];
+    const candles = makeCandles('2024-01-01', closePrices);
+    const rules = makeShortStrategy(110, 92);
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // close > 110 fires at index 3, entry at open[4]; close < 92 fires at index 7, cover at open[8]
+    expect(result.trades).toHaveLength(1);
+    const trade = result.trades[0];
+    expect(trade.side).toBe('short');
+    expect(trade.entryPrice).toBe(candles[4].o);
+    expect(trade.exitPrice).toBe(candles[8].o);
+
+    const units = trade.positionSize / trade.entryPrice;
+    expect(trade.pnlAbs).toBeCloseTo(units * (trade.entryPrice - trade.exitPrice), 6);
+    expect(trade.pnlPct).toBeGreaterThan(0);
+    expect(result.audit.positionModel).toMatch(/^Short-only/);
+  });
+
+  it('applies adverse slippage and fees in the short direction', () => {
+    const closePrices = [100, 104, 108, 112, 106, 100, 94, 90, 88, 86];
+    const candles = makeCandles('2024-01-01', closePrices);
+    const rules = makeShortStrategy(110, 92);
+    const feeBps = 10;
+    const slippageBps = 5;
+    const config = makeConfig(rules, candles, { feeBps, slippageBps });
+
+    const result = runBacktest(config, candles);
+    const trade = result.trades[0];
+
+    // Short sale fills lower, buy-to-cover fills higher
+    expect(trade.entryPrice).toBeCloseTo(candles[4].o * (1 - slippageBps / 10000), 6);
+    expect(trade.exitPrice).toBeCloseTo(candles[8].o * (1 + slippageBps / 10000), 6);
+
+    const feeFrac = feeBps / 10000;
+    const units = (trade.positionSize * (1 - feeFrac)) / trade.entryPrice;
+    const netProceeds =
+      units * (2 * trade.entryPrice - trade.exitPrice) - units * trade.exitPrice * feeFrac;
+    expect(trade.pnlAbs).toBeCloseTo(netProceeds - trade.positionSize, 6);
+  });
+
+  it('marks equity down while price rises against the short', () => {
+    const closePrices = [100, 112, 115, 120, 125, 130];
+    const candles = makeCandles('2024-01-01', closePrices);
+    const rules = makeShortStrategy(110, 50);
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // Entered at open[2]; equity should fall as closes rise
+    const equities = result.equityCurve.slice(2, -1).map((pt) => pt.equity);
+    for (let k = 1; k < equities.length; k++) {
+      expect(equities[k]).toBeLessThan(equities[k - 1]);
+    }
+    expect(result.trades[0].exitReason).toBe('Force-close at end of data');
+    expect(result.trades[0].pnlPct).toBeLessThan(0);
+  });
+});
+
+describe('runBacktest – intrabar stop-loss / take-profit', () => {
+  function makeExplicit(
+    bars: [number, number, number, number][],
+  ): Candle[] {
+    return bars.map(([o, h, l, c], i) => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      date.setUTCDate(date.getUTCDate() + i);
+      return { t: date.toISOString().slice(0, 10), o, h, l, c, v: 1000 };
+    });
+  }
+
+  function withStops(stopLossPct?: number, takeProfitPct?: number): StrategyRuleSet {
+    const base = makePriceStrategy(95, 1000);
+    return { ...base, exit: { ...base.exit, stopLossPct, takeProfitPct } };
+  }
+
+  it('fills a stop at the stop price when a wick trades through it', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],   // 0: close < 95 → entry signal
+      [100, 102, 99, 101],  // 1: entry at open 100
+      [101, 103, 90, 100],  // 2: wick to 90 pierces the 95 stop, recovers
+      [100, 104, 99, 103],
+    ]);
+    const config = makeConfig(withStops(5), candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('Stop loss');
+    expect(result.trades[0].exitDate).toBe(candles[2].t);
+    expect(result.trades[0].exitPrice).toBeCloseTo(95, 6);
+    expect(result.trades[0].pnlPct).toBeCloseTo(-5, 6);
+  });
+
+  it('fills at the open when the bar gaps through the stop', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],
+      [100, 102, 99, 101],
+      [88, 92, 85, 90],     // gaps below 95 at the open
+      [90, 91, 89, 90],
+    ]);
+    const config = makeConfig(withStops(5), candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades[0].exitReason).toBe('Stop loss');
+    expect(result.trades[0].exitPrice).toBe(88);
+  });
+
+  it('fills a take-profit at the limit price without slippage', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],
+      [100, 102, 99, 101],
+      [101, 112, 100, 104], // high reaches the 110 target
+      [104, 105, 103, 104],
+    ]);
+    const config = makeConfig(withStops(5, 10), candles, { feeBps: 0, slippageBps: 5 });
+
+    const result = runBacktest(config, candles);
+    const trade = result.trades[0];
+
+    expect(trade.exitReason).toBe('Take profit');
+    expect(trade.exitDate).toBe(candles[2].t);
+    expect(trade.exitPrice).toBeCloseTo(trade.entryPrice * 1.1, 6);
+  });
+
+  it('assumes the stop fills first when both levels are inside one bar', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],
+      [100, 102, 99, 101],
+      [100, 115, 90, 100],
+      [100, 101, 99, 100],
+    ]);
+    const config = makeConfig(withStops(5, 10), candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades[0].exitReason).toBe('Stop loss');
+  });
+
+  it('mirrors stop and target levels for a short', () => {
+    const candles = makeExplicit([
+      [100, 106, 99, 105],  // close > 104 → short signal
+      [100, 101, 98, 99],   // short at open 100
+      [99, 107, 97, 98],    // high pierces the 105 stop
+      [98, 99, 97, 98],
+    ]);
+    const base = withStops(5, 10);
+    const rules: StrategyRuleSet = {
+      ...base,
+      side: 'short',
+      entry: {
+        op: 'AND',
+        conditions: [
+          {
+            id: 'entry-short',
+            label: 'close > 104',
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'price_close' } },
+            op: 'gt',
+            right: { kind: 'number', value: 104 },
+          },
+        ],
+      },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades[0].exitReason).toBe('Stop loss');
+    expect(result.trades[0].exitPrice).toBeCloseTo(105, 6);
+    expect(result.trades[0].pnlPct).toBeCloseTo(-5, 6);
+  });
+
+  it('holds a stops-only position instead of exiting on its empty AND group', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],   // 0: close < 95 → entry signal
+      [100, 102, 99, 101],  // 1: entry at open 100
+      [101, 103, 98, 102],
+      [102, 104, 100, 103],
+      [103, 104, 90, 92],   // 4: low 90 hits the 95 stop
+    ]);
+    const base = makePriceStrategy(95, 1000);
+    const rules: StrategyRuleSet = { ...base, exit: { op: 'AND', conditions: [], stopLossPct: 5 } };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('Stop loss');
+    expect(result.trades[0].exitDate).toBe(candles[4].t);
+  });
+});
+
+describe('runBacktest – trailing stop', () => {
+  function makeExplicit(
+    bars: [number, number, number, number][],
+  ): Candle[] {
+    return bars.map(([o, h, l, c], i) => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      date.setUTCDate(date.getUTCDate() + i);
+      return { t: date.toISOString().slice(0, 10), o, h, l, c, v: 1000 };
+    });
+  }
+
+  function withTrailing(trailingStop: NonNullable<StrategyRuleSet['exit']['trailingStop']>): StrategyRuleSet {
+    const base = makePriceStrategy(95, 1000);
+    return { ...base, exit: { ...base.exit, trailingStop } };
+  }
+
+  it('trails the highest high since entry and exits when price falls back', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],    // 0: entry signal
+      [100, 105, 99, 104],   // 1: entry at 100; initial stop 90
+      [104, 120, 103, 118],  // 2: high 120 → stop ratchets to 108
+      [118, 119, 109, 110],  // 3: low 109 stays above 108
+      [110, 111, 105, 106],  // 4: low 105 hits 108
+      [106, 107, 105, 106],
+    ]);
+    const rules = withTrailing({ type: 'percent', valuePct: 10 });
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('Trailing stop');
+    expect(result.trades[0].exitDate).toBe(candles[4].t);
+    expect(result.trades[0].exitPrice).toBeCloseTo(108, 6);
+  });
+
+  it('never loosens the stop when price pulls back', () => {
+    const candles = makeExplicit([
+      [100, 101, 93, 94],
+      [100, 110, 99, 108],   // high 110 → stop 99
+      [108, 109, 100, 101],  // lower high must not lower the stop
+      [101, 102, 98, 99],    // low 98 hits 99
+      [99, 100, 98, 99],
+    ]);
+    const rules = withTrailing({ type: 'percent', valuePct: 10 });
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades[0].exitReason).toBe('Trailing stop');
+    expect(result.trades[0].exitDate).toBe(candles[3].t);
+    expect(result.trades[0].exitPrice).toBeCloseTo(99, 6);
+  });
+
+  it('uses an ATR multiple as the trailing distance', () => {
+    // ATR(2): 10 at index 2, 10.5 at index 3, 20.25 at index 4
+    const bars: [number, number, number, number][] = [
+      [100, 105, 95, 100],
+      [100, 105, 95, 100],
+      [100, 105, 95, 94],    // 2: entry signal (close < 95), stop 100 - 2*10 = 80
+      [100, 105, 95, 100],   // 3: entry at 100; after bar: 105 - 2*10.5 = 84
+      [100, 130, 120, 125],  // 4: after bar: 130 - 2*20.25 = 89.5
+      [125, 126, 80, 90],    // 5: low 80 hits 89.5
+      [90, 91, 89, 90],
+    ];
+    const candles = makeExplicit(bars);
+    const rules = withTrailing({ type: 'atr', multiple: 2, period: 2 });
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.audit.warmupCandles).toBe(2);
+    expect(result.trades[0].exitReason).toBe('Trailing stop');
+    expect(result.trades[0].exitDate).toBe(candles[5].t);
+    expect(result.trades[0].exitPrice).toBeCloseTo(89.5, 6);
+  });
+});
+
+describe('runBacktest – scale-in / scale-out', () => {
+  function closeBelow(id: string, value: number): StrategyRuleSet['entry'] {
+    return {
+      op: 'AND',
+      conditions: [
+        {
+          id,
+          label: `close < ${value}`,
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'lt',
+          right: { kind: 'number', value },
+        },
+      ],
+    };
+  }
+
+  it('adds lots up to maxLots with a weighted average entry', () => {
+    const closePrices = [100, 94, 90, 85, 89, 80, 78, 90, 100, 112, 115];
+    const candles = makeCandles('2024-01-01', closePrices);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      sizing: { type: 'percent_equity', valuePct: 25 },
+      scaleIn: { trigger: closeBelow('add', 88), sizePct: 25, maxLots: 3 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // Entry signal at 1 → open[2] = 88; the trigger turns true at closes 85 and 80 → open[4] = 87,
+    // open[6] = 76; close 78 at index 6 keeps it true, and maxLots is reached anyway
+    expect(result.trades).toHaveLength(1);
+    const trade = result.trades[0];
+    const u1 = 2500 / 88;
+    const size2 = (7500 + u1 * 85) * 0.25;
+    const u2 = size2 / 87;
+    const size3 = (7500 - size2 + (u1 + u2) * 80) * 0.25;
+    const u3 = size3 / 76;
+    const avg = (88 * u1 + 87 * u2 + 76 * u3) / (u1 + u2 + u3);
+    expect(trade.entryPrice).toBeCloseTo(avg, 6);
+    expect(trade.positionSize).toBeCloseTo(2500 + size2 + size3, 6);
+    expect(result.audit.positionModel).toContain('up to 3 lots');
+  });
+
+  it('adds a single lot while the trigger stays true', () => {
+    const closePrices = [100, 94, 90, 85, 84, 83, 82, 100, 112, 115];
+    const candles = makeCandles('2024-01-01', closePrices);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      sizing: { type: 'percent_equity', valuePct: 10 },
+      scaleIn: { trigger: closeBelow('add', 88), sizePct: 10, maxLots: 5 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // Closes 85-82 hold the trigger for four candles; only the first adds (open[4] = 82)
+    const trade = result.trades[0];
+    const u1 = 1000 / 88;
+    const size2 = (9000 + u1 * 85) * 0.1;
+    expect(trade.positionSize).toBeCloseTo(1000 + size2, 6);
+    expect(trade.entryPrice).toBeCloseTo((1000 + size2) / (u1 + size2 / 82), 6);
+  });
+
+  it('sells part of the position and closes the rest on the exit signal', () => {
+    const closePrices = [100, 94, 92, 100, 104, 108, 112, 115];
+    const candles = makeCandles('2024-01-01', closePrices);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      scaleOut: [
+        {
+          id: 'half',
+          trigger: {
+            op: 'AND',
+            conditions: [
+              {
+                id: 'pnl-5',
+                label: 'pnl_pct >= 5',
+                scope: 'position',
+                left: { kind: 'indicator', indicator: { type: 'pnl_pct' } },
+                op: 'gte',
+                right: { kind: 'number', value: 5 },
+              },
+            ],
+          },
+          fractionPct: 50,
+        },
+      ],
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // Entry at open[2] = 90; pnl >= 5% first at close 100 (index 3) → sell half at open[4]
+    expect(result.trades).toHaveLength(2);
+    const [partial, rest] = result.trades;
+    expect(partial.exitReason).toBe('Scale-out (half)');
+    expect(partial.exitPrice).toBe(candles[4].o);
+    expect(partial.positionSize).toBeCloseTo(5000, 6);
+    expect(rest.exitReason).toBe('Exit signal');
+    expect(rest.positionSize).toBeCloseTo(5000, 6);
+    expect(partial.positionId).toBe(rest.positionId);
+
+    // Metrics count the position once
+    expect(result.metrics.totalTrades).toBe(1);
+    expect(result.audit.positionModel).toContain('partial exits');
+  });
+});
+
+describe('runPortfolioBacktest', () => {
+  function makePortfolioStrategy(
+    maxOpenPositions: number,
+    overrides?: Partial<NonNullable<StrategyRuleSet['portfolio']>>,
+  ): StrategyRuleSet {
+    return {
+      ...makePriceStrategy(95, 110),
+      portfolio: {
+        assets: ['BTC', 'ETH'],
+        maxOpenPositions,
+        allocation: 'equal_split',
+        ...overrides,
+      },
+    };
+  }
+
+  it('throws when the rule set has no portfolio', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 100]);
+    const config = makeConfig(makePriceStrategy(95, 110), candles);
+    expect(() => runPortfolioBacktest(config, { BTC: candles })).toThrow();
+  });
+
+  it('fills competing signals in asset order up to maxOpenPositions', () => {
+    const btc = makeCandles('2024-01-01', [100, 94, 92, 100, 112, 115, 116]);
+    const eth = makeCandles('2024-01-01', [100, 94, 90, 90, 90, 90, 90]);
+    const rules = makePortfolioStrategy(1);
+    const config = makeConfig(rules, btc, { feeBps: 0, slippageBps: 0 });
+
+    const result = runPortfolioBacktest(config, { BTC: btc, ETH: eth });
+
+    // Both signal at index 1 but only BTC gets the slot; ETH takes it once BTC exits
+    expect(result.trades).toHaveLength(2);
+    const [btcTrade, ethTrade] = result.trades;
+    expect(btcTrade.asset).toBe('BTC');
+    expect(btcTrade.entryDate).toBe(btc[2].t);
+    expect(btcTrade.exitDate).toBe(btc[5].t);
+    expect(ethTrade.asset).toBe('ETH');
+    expect(ethTrade.entryDate).toBe(eth[5].t);
+    expect(ethTrade.exitReason).toBe('Force-close at end of data');
+    expect(result.audit.positionModel).toContain('up to 1 open positions');
+  });
+
+  it('splits equity between slots and reports a per-asset breakdown', () => {
+    const btc = makeCandles('2024-01-01', [100, 94, 100, 112, 115]);
+    const eth = makeCandles('2024-01-01', [100, 94, 90, 86, 80]);
+    const rules = makePortfolioStrategy(2);
+    const config = makeConfig(rules, btc, { feeBps: 0, slippageBps: 0 });
+
+    const result = runPortfolioBacktest(config, { BTC: btc, ETH: eth });
+
+    expect(result.trades).toHaveLength(2);
+    for (const trade of result.trades) {
+      expect(trade.positionSize).toBeCloseTo(5000, 6);
+    }
+
+    const breakdown = result.assetBreakdown!;
+    expect(breakdown.map((b) => b.asset)).toEqual(['BTC', 'ETH']);
+    expect(breakdown[0].winRate).toBe(100);
+    expect(breakdown[1].winRate).toBe(0);
+
+    // Contributions add up to the portfolio return when there are no costs
+    const totalContribution = breakdown.reduce((s, b) => s + b.contributionPct, 0);
+    expect(totalContribution).toBeCloseTo(result.metrics.totalReturn, 6);
+    const finalEquity = result.equityCurve[result.equityCurve.length - 1].equity;
+    expect(finalEquity).toBeCloseTo(10000 + breakdown[0].pnlAbs + breakdown[1].pnlAbs, 6);
+  });
+
+  it('uses per-asset overrides in place of the shared rules', () => {
+    const btc = makeCandles('2024-01-01', [100, 94, 100, 112, 115]);
+    const eth = makeCandles('2024-01-01', [100, 94, 90, 86, 80]);
+    const rules = makePortfolioStrategy(2, {
+      overrides: [
+        {
+          asset: 'ETH',
+          entry: {
+            op: 'AND',
+            conditions: [
+              {
+                id: 'eth-entry',
+                label: 'close < 50',
+                scope: 'candle',
+                left: { kind: 'indicator', indicator: { type: 'price_close' } },
+                op: 'lt',
+                right: { kind: 'number', value: 50 },
+              },
+            ],
+          },
+          exit: { op: 'OR', conditions: [] },
+        },
+      ],
+    });
+    const config = makeConfig(rules, btc, { feeBps: 0, slippageBps: 0 });
+
+    const result = runPortfolioBacktest(config, { BTC: btc, ETH: eth });
+
+    expect(result.trades.map((t) => t.asset)).toEqual(['BTC']);
+    expect(result.assetBreakdown![1].totalTrades).toBe(0);
+  });
+
+  it('applies leverage, borrow interest and carry to each position', () => {
+    const btc = makeCandles('2024-01-01', [100, 94, 100, 112, 115]);
+    const eth = makeCandles('2024-01-01', [100, 94, 94, 94, 94], { openOffset: 0 });
+    const rules = makePortfolioStrategy(2);
+    const base = makeConfig(rules, btc, { feeBps: 0, slippageBps: 0 });
+
+    const unlevered = runPortfolioBacktest(base, { BTC: btc, ETH: eth });
+    const levered = runPortfolioBacktest(
+      { ...base, leverage: 2, borrowCostBpsPerDay: 10, carryCost: { type: 'fixed', bpsPerDay: 5 } },
+      { BTC: btc, ETH: eth },
+    );
+
+    // $5k margin per slot, $10k notional; ETH is held flat through candles 2-4
+    const ethTrade = levered.trades.find((t) => t.asset === 'ETH')!;
+    expect(ethTrade.positionSize).toBeCloseTo(5000, 6);
+    const interest = 5000 * (1.001 ** 3 - 1);
+    const ethCarry = 10000 * 0.0005 * 3;
+    expect(ethTrade.pnlAbs).toBeCloseTo(-interest - ethCarry, 6);
+
+    const btcTrade = levered.trades.find((t) => t.asset === 'BTC')!;
+    const btcUnlevered = unlevered.trades.find((t) => t.asset === 'BTC')!;
+    expect(btcTrade.pnlAbs).toBeLessThan(btcUnlevered.pnlAbs * 2);
+    expect(btcTrade.pnlAbs).toBeGreaterThan(btcUnlevered.pnlAbs * 1.9);
+
+    expect(levered.audit.leverageModel).toContain('2x notional');
+    expect(levered.audit.borrowCostTotal).toBeGreaterThan(interest);
+    expect(levered.audit.funding).toContain('5 bps/day');
+  });
+
+  it('charges each asset its own funding series', () => {
+    const btc = makeCandles('2024-01-01', [100, 94, 94, 94, 94], { openOffset: 0 });
+    const eth = makeCandles('2024-01-01', [100, 94, 94, 94, 94], { openOffset: 0 });
+    const rules = makePortfolioStrategy(2);
+    const config = makeConfig(rules, btc, {
+      feeBps: 0,
+      slippageBps: 0,
+      carryCost: { type: 'series', rates: { BTC: btc.map((c) => ({ t: c.t, bps: 4 })) } },
+    });
+
+    const result = runPortfolioBacktest(config, { BTC: btc, ETH: eth });
+
+    // $5k held flat through candles 2-4: BTC pays 4 bps a day, ETH has no series
+    const pnl = (asset: string) => result.trades.find((t) => t.asset === asset)!.pnlAbs;
+    expect(pnl('BTC')).toBeCloseTo(-5000 * 0.0004 * 3, 6);
+    expect(pnl('ETH')).toBeCloseTo(0, 6);
+    expect(result.audit.funding).toContain('BTC 5 days, ETH 0 days');
+  });
+
+  it('liquidates a levered position against its intrabar low', () => {
+    const btc = makeCandles('2024-01-01', [100, 94, 100, 90, 80, 70, 75]);
+    const eth = makeCandles('2024-01-01', [100, 100, 100, 100, 100, 100, 100]);
+    const rules = makePortfolioStrategy(1);
+    const config = makeConfig(rules, btc, { feeBps: 0, slippageBps: 0, leverage: 5 });
+
+    const result = runPortfolioBacktest(config, { BTC: btc, ETH: eth });
+
+    // Same levels as the single-asset case: gapped past ≈ 78.8 at candle 4's open of 78
+    const trade = result.trades[0];
+    expect(trade.exitReason).toBe('Liquidated');
+    expect(trade.exitDate).toBe(btc[4].t);
+    expect(trade.pnlAbs).toBeCloseTo(-10000, 6);
+    expect(result.metrics.liquidations).toBe(1);
+  });
+});
+
+describe('runBacktest – position sizing', () => {
+  it('risk_percent sizes so that the stop loses riskPct of equity', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 100, 112, 115]);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      exit: { ...makePriceStrategy(95, 110).exit, stopLossPct: 10 },
+      sizing: { type: 'risk_percent', riskPct: 2 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // $200 at risk over a 10% stop distance
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].positionSize).toBeCloseTo(2000, 6);
+    expect(result.audit.sizingModel).toContain('Risk 2% of equity');
+  });
+
+  it('risk_percent loses the same at the stop with or without leverage', () => {
+    // Entry fills at open 98; candle 3 gaps down through the 5% stop
+    const candles = makeCandles('2024-01-01', [100, 94, 100, 90, 95]);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      exit: { ...makePriceStrategy(95, 110).exit, stopLossPct: 5 },
+      sizing: { type: 'risk_percent', riskPct: 1 },
+    };
+    const base = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0, borrowCostBpsPerDay: 0 });
+
+    const unlevered = runBacktest(base, candles);
+    const levered = runBacktest({ ...base, leverage: 3 }, candles);
+
+    expect(levered.trades[0].exitReason).toBe(unlevered.trades[0].exitReason);
+    // Same notional, a third of the margin
+    expect(levered.trades[0].positionSize).toBeCloseTo(unlevered.trades[0].positionSize / 3, 6);
+    expect(levered.trades[0].pnlAbs).toBeCloseTo(unlevered.trades[0].pnlAbs, 6);
+  });
+
+  it('atr_volatility commits notional ÷ leverage as margin', () => {
+    const candles = makeCandles('2024-01-01', [100, 101, 102, 103, 94, 100, 112, 115]);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      sizing: { type: 'atr_volatility', riskPct: 1, period: 3 },
+    };
+    const base = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0, borrowCostBpsPerDay: 0 });
+
+    const unlevered = runBacktest(base, candles);
+    const levered = runBacktest({ ...base, leverage: 2 }, candles);
+
+    expect(levered.trades[0].positionSize).toBeCloseTo(unlevered.trades[0].positionSize / 2, 6);
+    expect(levered.trades[0].pnlAbs).toBeCloseTo(unlevered.trades[0].pnlAbs, 6);
+  });
+
+  it('atr_volatility sizes inversely to ATR at the signal candle', () => {
+    const candles = makeCandles('2024-01-01', [100, 101, 102, 103, 94, 100, 112, 115]);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      sizing: { type: 'atr_volatility', riskPct: 1, period: 3 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    const atr = computeATR(
+      candles.map((c) => c.h),
+      candles.map((c) => c.l),
+      candles.map((c) => c.c),
+      3,
+    );
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].positionSize).toBeCloseTo((10000 * 0.01 * 94) / atr[4]!, 6);
+  });
+
+  it('kelly_fraction uses the fallback until enough trades have closed', () => {
+    const cycle = [100, 94, 100, 112, 120];
+    const candles = makeCandles('2024-01-01', [...cycle, ...cycle, ...cycle, 115]);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      sizing: { type: 'kelly_fraction', fraction: 0.5, lookbackTrades: 2, fallbackPct: 10 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades).toHaveLength(3);
+    const [t1, t2, t3] = result.trades;
+    expect(t1.positionSize).toBeCloseTo(1000, 6);
+    expect(t2.positionSize).toBeCloseTo((10000 + t1.pnlAbs) * 0.1, 6);
+    // Two winners and no losers: full Kelly bet of 1, halved
+    expect(t3.positionSize).toBeCloseTo((10000 + t1.pnlAbs + t2.pnlAbs) * 0.5, 6);
+  });
+});
+
+describe('runBacktest – leverage', () => {
+  it('scales P&L with leverage', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 100, 112, 120]);
+    const rules = makePriceStrategy(95, 110);
+    const base = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
+
+    const unlevered = runBacktest(base, candles);
+    const levered = runBacktest({ ...base, leverage: 3, borrowCostBpsPerDay: 0 }, candles);
+
+    expect(levered.trades[0].positionSize).toBeCloseTo(10000, 6);
+    expect(levered.trades[0].pnlAbs).toBeCloseTo(unlevered.trades[0].pnlAbs * 3, 6);
+    expect(levered.metrics.maxEffectiveLeverage).toBeGreaterThan(2.9);
+    expect(levered.audit.positionModel).toContain('3x leverage');
+  });
+
+  it('charges daily interest on the borrowed notional', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 94, 94, 94], { openOffset: 0 });
+    const rules = makePriceStrategy(95, 110);
+    const config = makeConfig(rules, candles, {
+      feeBps: 0,
+      slippageBps: 0,
+      leverage: 2,
+      borrowCostBpsPerDay: 10,
+    });
+
+    const result = runBacktest(config, candles);
+
+    // $10k borrowed, held through candles 2-4 at a flat price
+    const interest = 10000 * (1.001 ** 3 - 1);
+    expect(result.audit.borrowCostTotal).toBeCloseTo(interest, 6);
+    expect(result.trades[0].pnlAbs).toBeCloseTo(-interest, 6);
+  });
+
+  it('liquidates when the intrabar low breaches maintenance margin', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 100, 90, 80, 70, 75]);
+    const rules = makePriceStrategy(95, 110);
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0, leverage: 5 });
+
+    const result = runBacktest(config, candles);
+
+    // Entry at open 98 → liquidation near 98 × 0.8 / 0.995 ≈ 78.8; candle 4 opens at 78
+    const trade = result.trades[0];
+    expect(trade.exitReason).toBe('Liquidated');
+    expect(trade.exitDate).toBe(candles[4].t);
+    expect(trade.exitPrice).toBe(78);
+    // Gapped past the liquidation price: isolated margin caps the loss at the margin
+    expect(trade.pnlAbs).toBeCloseTo(-10000, 6);
+    expect(result.metrics.liquidations).toBe(1);
+  });
+});
+
+describe('runBacktest – carry cost', () => {
+  it('deducts a fixed daily holding cost from the trade', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 94, 94, 94], { openOffset: 0 });
+    const rules = makePriceStrategy(95, 110);
+    const config = makeConfig(rules, candles, {
+      feeBps: 0,
+      slippageBps: 0,
+      carryCost: { type: 'fixed', bpsPerDay: 10 },
+    });
+
+    const result = runBacktest(config, candles);
+
+    // $10k notional held through candles 2-4 at a flat price
+    expect(result.trades[0].pnlAbs).toBeCloseTo(-30, 6);
+    expect(result.audit.funding).toContain('$30.00 paid');
+  });
+
+  it('credits funding to shorts from a daily series', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 94, 94, 94], { openOffset: 0 });
+    const rules: StrategyRuleSet = { ...makePriceStrategy(95, 110), side: 'short' };
+    const config = makeConfig(rules, candles, {
+      feeBps: 0,
+      slippageBps: 0,
+      carryCost: {
+        type: 'series',
+        rates: { BTC: candles.map((c) => ({ t: c.t, bps: 5 })) },
+      },
+    });
+
+    const result = runBacktest(config, candles);
+
+    expect(result.trades[0].side).toBe('short');
+    expect(result.trades[0].pnlAbs).toBeCloseTo(15, 6);
+    expect(result.audit.funding).toContain('$15.00 received');
+  });
+});
+
+describe('runBacktest – entry orders', () => {
+  it('fills a limit entry at its price when the bar trades down to it', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 95, 96, 120, 121], { openOffset: 0 });
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      entryOrder: { type: 'limit', offsetPct: 2 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0 });
+
+    const result = runBacktest(config, candles);
+
+    // Signal close 94 → limit at 92.12; candle 2 opens at 95 and trades down to 90
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe(candles[2].t);
+    expect(result.trades[0].entryPrice).toBeCloseTo(94 * 0.98, 10);
+    expect(result.unfilledOrders).toEqual([]);
+    expect(result.audit.entryOrders).toBe('1 limit orders placed, 1 filled, 0 unfilled');
+  });
+
+  it('reports a limit entry that expires unfilled', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 95, 96, 97], { lowOffset: 1 });
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      entryOrder: { type: 'limit', offsetPct: 10, timeInForceBars: 2 },
+    };
+
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.unfilledOrders).toEqual([
+      {
+        type: 'limit',
+        side: 'long',
+        signalDate: candles[1].t,
+        price: 94 * 0.9,
+        expiredDate: candles[3].t,
+      },
+    ]);
+  });
+
+  it('fills a stop entry at the open when the bar gaps through the level', () => {
+    const candles = makeCandles('2024-01-01', [100, 94, 94, 100, 100], {
+      openOffset: 0,
+      highOffset: 1,
+    });
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(95, 110),
+      entryOrder: { type: 'stop', offsetPct: 2, timeInForceBars: 3 },
+    };
+    const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 5 });
+
+    const result = runBacktest(config, candles);
+
+    // Stop at 95.88 is missed on candle 2 (high 95); candle 3 opens at 100, above it
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe(candles[3].t);
+    expect(result.trades[0].entryPrice).toBeCloseTo(100 * 1.0005, 10);
+    expect(result.audit.executionModel).toContain('stop entry 2% above close[i]');
+  });
+});
+
+describe('runBacktest – re-entry rules', () => {
+  // Winning round trips on close fills: enter at 94, exit at 112, three times
+  const candles = makeCandles('2024-01-01', [100, 94, 112, 94, 112, 94, 112, 100]);
+
+  function run(reentry: StrategyRuleSet['reentry']) {
+    const rules: StrategyRuleSet = { ...makePriceStrategy(95, 110), reentry };
+    return runBacktest(makeConfig(rules, candles, { fillModel: 'same_close' }), candles);
+  }
+
+  it('skips entry signals during the cooldown after an exit', () => {
+    const result = run({ cooldownBars: 2 });
+
+    expect(result.trades).toHaveLength(2);
+    expect(result.trades[1].entryDate).toBe(candles[5].t);
+    expect(result.audit.skippedSignals).toEqual({ cooldown: 1, tradeCap: 0 });
+    expect(result.audit.reentryModel).toBe('entries skipped for 2 bars after each exit');
+  });
+
+  it('only cools down after losing exits when asked to', () => {
+    const result = run({ cooldownBars: 2, cooldownAfterLossOnly: true });
+
+    expect(result.trades).toHaveLength(3);
+    expect(result.audit.skippedSignals).toEqual({ cooldown: 0, tradeCap: 0 });
+  });
+
+  it('caps entries per rolling window of days', () => {
+    const result = run({ maxTrades: { count: 2, periodDays: 30 } });
+
+    expect(result.trades).toHaveLength(2);
+    expect(result.audit.skippedSignals).toEqual({ cooldown: 0, tradeCap: 1 });
+  });
+});
+
+describe('runBacktest – intraday bars', () => {
+  /** 4-hour candles from midnight UTC, open = close - 2 like makeCandles */
+  function make4hCandles(date: string, closePrices: number[]): Candle[] {
+    const start = Date.parse(date + 'T00:00:00Z');
+    return closePrices.map((c, i) => ({
+      t: new Date(start + i * 4 * 3_600_000).toISOString().slice(0, 19) + 'Z',
+      o: c - 2,
+      h: c + 5,
+      l: c - 7,
+      c,
+      v: 1000,
+    }));
+  }
+
+  const candles = make4hCandles('2024-01-01', [100, 94, 96, 112, 112, 112]);
+  const rules = makePriceStrategy(95, 110);
+
+  it('keeps every bar of the end date and measures holding time in fractional days', () => {
+    const config = makeConfig(rules, candles, {
+      timeframe: '4H',
+      startDate: '2024-01-01',
+      endDate: '2024-01-01',
+    });
+    const result = runBacktest(config, candles);
+
+    expect(result.audit.totalCandles).toBe(6);
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe('2024-01-01T08:00:00Z');
+    expect(result.trades[0].exitDate).toBe('2024-01-01T16:00:00Z');
+    expect(result.trades[0].holdingDays).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('annualizes by bars per year', () => {
+    const config = makeConfig(rules, candles, {
+      timeframe: '4H',
+      startDate: '2024-01-01',
+      endDate: '2024-01-01',
+    });
+    const result = runBacktest(config, candles);
+
+    expect(result.audit.annualizationFactor).toBeCloseTo(6 * 365, 6);
+  });
+});
+
+describe('runBacktest – nested conditions', () => {
+  it('computes indicators referenced only inside nested groups', () => {
+    const candles = makeCandles('2024-01-01', [100, 100, 100, 90, 120, 130, 140]);
+    const base = makePriceStrategy(0, 1_000_000);
+    const rules: StrategyRuleSet = {
+      ...base,
+      entry: {
+        op: 'OR',
+        conditions: [
+          {
+            op: 'NOT',
+            conditions: [{
+              id: 'entry-sma',
+              label: 'close <= SMA(3)',
+              scope: 'candle',
+              left: { kind: 'indicator', indicator: { type: 'price_close' } },
+              op: 'lte',
+              right: { kind: 'indicator', indicator: { type: 'sma', period: 3 } },
+            }],
+          },
+        ],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    expect(result.indicatorData?.['sma_3']).toBeDefined();
+    // First bar after warmup where close > SMA(3): candle 4 (120 > 103.3), filled next open
+    expect(result.trades[0].entryDate).toBe('2024-01-06');
+  });
+});
+
+describe('runBacktest – expression operands', () => {
+  it('caches indicators nested in expressions and enters when close is 5% above SMA', () => {
+    const candles = makeCandles('2024-01-01', [100, 100, 100, 104, 112, 115, 120]);
+    const base = makePriceStrategy(0, 1_000_000);
+    const rules: StrategyRuleSet = {
+      ...base,
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-expr',
+          label: 'close > SMA(3) × 1.05',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'gt',
+          right: {
+            kind: 'expression',
+            op: 'mul',
+            left: { kind: 'indicator', indicator: { type: 'sma', period: 3 } },
+            right: { kind: 'number', value: 1.05 },
+          },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    expect(result.indicatorData?.['sma_3']).toBeDefined();
+    // Candle 3: 104 vs 101.33 × 1.05 = 106.4 → no; candle 4: 112 vs 105.33 × 1.05 = 110.6 → yes
+    expect(result.trades[0].entryDate).toBe('2024-01-06');
+  });
+});
+
+describe('runBacktest – highest/lowest breakouts', () => {
+  it('enters when close breaks above the prior 3-bar high', () => {
+    // Highs are close + 5: [105, 106, 105, 104, 115, 113]
+    const candles = makeCandles('2024-01-01', [100, 101, 100, 99, 110, 108]);
+    const base = makePriceStrategy(0, 1_000_000);
+    const rules: StrategyRuleSet = {
+      ...base,
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-breakout',
+          label: 'close > prior highest(3)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'gt',
+          right: { kind: 'indicator', indicator: { type: 'highest', period: 3 }, offset: 1 },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    expect(result.indicatorData?.['highest_3']?.slice(2)).toEqual([106, 106, 115, 115]);
+    expect(result.audit.warmupCandles).toBe(3);
+    // Candle 4: 110 > 106 → fill at open of candle 5
+    expect(result.trades[0].entryDate).toBe('2024-01-06');
+  });
+
+  it('defaults lowest to candle lows and honours an explicit source', () => {
+    const candles = makeCandles('2024-01-01', [100, 101, 100, 99]);
+    const base = makePriceStrategy(0, 1_000_000);
+    const rules: StrategyRuleSet = {
+      ...base,
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-low',
+          label: 'lowest close(2) < lowest low(2)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'lowest', period: 2, source: 'close' } },
+          op: 'lt',
+          right: { kind: 'indicator', indicator: { type: 'lowest', period: 2 } },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    // Lows are close - 7 (open = close - 2, low = open - 5)
+    expect(result.indicatorData?.['lowest_2']).toEqual([null, 93, 93, 92]);
+    expect(result.indicatorData?.['lowest_2_close']).toEqual([null, 100, 100, 99]);
+  });
+});
+
+describe('runBacktest – persistence conditions', () => {
+  it('enters only after the close has held above the SMA for 3 consecutive bars', () => {
+    const candles = makeCandles('2024-01-01', [100, 100, 104, 106, 103, 105, 107, 109, 111]);
+    const base = makePriceStrategy(0, 1_000_000);
+    const rules: StrategyRuleSet = {
+      ...base,
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-hold',
+          label: 'close > SMA(2)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'gt',
+          right: { kind: 'indicator', indicator: { type: 'sma', period: 2 } },
+          persistence: { type: 'consecutive', bars: 3 },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    // Above SMA(2) on bars 2, 3, then 5, 6, 7 → third straight bar is 7, fill at open of 8
+    expect(result.trades[0].entryDate).toBe('2024-01-09');
+  });
+});
+
+describe('runBacktest – oscillator indicators', () => {
+  const prices = Array.from({ length: 30 }, (_, i) => 100 + 10 * Math.sin(i / 3));
+  const candles = makeCandles('2024-01-01', prices);
+
+  function oscillatorRules(indicator: IndicatorSpec): StrategyRuleSet {
+    return {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-osc',
+          label: `${indicator.type} > -1000`,
+          scope: 'candle',
+          left: { kind: 'indicator', indicator },
+          op: 'gt',
+          right: { kind: 'number', value: -1000 },
+        }],
+      },
+    };
+  }
+
+  it.each([
+    [{ type: 'stoch_k', period: 5, signalPeriod: 3 }, 'stoch_k_5_3', 4],
+    [{ type: 'stoch_d', period: 5, signalPeriod: 3 }, 'stoch_d_5_3', 6],
+    [{ type: 'williams_r', period: 5 }, 'williams_r_5', 4],
+    [{ type: 'cci', period: 5 }, 'cci_5', 4],
+    [{ type: 'mfi', period: 5 }, 'mfi_5', 5],
+  ] as [IndicatorSpec, string, number][])('warms up %o until its first value', (indicator, key, warmup) => {
+    const result = runBacktest(makeConfig(oscillatorRules(indicator), candles), candles);
+
+    const values = result.indicatorData?.[key] ?? [];
+    expect(values.findIndex((v) => v !== null)).toBe(warmup);
+    expect(result.audit.warmupCandles).toBe(warmup);
+  });
+
+  it('caches %K alongside %D from one computation', () => {
+    const rules = oscillatorRules({ type: 'stoch_d', period: 5, signalPeriod: 3 });
+    const result = runBacktest(makeConfig(rules, candles), candles);
+    expect(result.indicatorData?.['stoch_k_5_3']).toHaveLength(candles.length);
+  });
+});
+
+describe('runBacktest – trend indicators', () => {
+  it('enters on a Supertrend flip via crosses_above', () => {
+    const prices = [
+      ...Array.from({ length: 12 }, (_, i) => 130 - i * 3),
+      ...Array.from({ length: 12 }, (_, i) => 97 + i * 4),
+    ];
+    const candles = makeCandles('2024-01-01', prices, { highOffset: 1, lowOffset: 1 });
+    const supertrend: IndicatorSpec = { type: 'supertrend', period: 5, multiplier: 2 };
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-st',
+          label: 'Close crosses above Supertrend(5, 2)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'crosses_above',
+          right: { kind: 'indicator', indicator: supertrend },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    const line = result.indicatorData?.['supertrend_5_2'] ?? [];
+    // The downtrend ends when the close climbs back over the line
+    const flip = prices.findIndex(
+      (c, i) => i > 5 && prices[i - 1] <= (line[i - 1] as number) && c > (line[i] as number),
+    );
+    expect(result.audit.warmupCandles).toBe(5);
+    expect(flip).toBeGreaterThan(11);
+    expect(result.trades[0].entryDate).toBe(candles[flip + 1].t);
+  });
+
+  it('caches ADX with both DI lines and warms up for the ADX', () => {
+    const prices = Array.from({ length: 30 }, (_, i) => 100 + i + 3 * Math.sin(i));
+    const candles = makeCandles('2024-01-01', prices);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-dmi',
+          label: '+DI(5) > -DI(5)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'plus_di', period: 5 } },
+          op: 'gt',
+          right: { kind: 'indicator', indicator: { type: 'adx', period: 5 } },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    expect(result.indicatorData?.['minus_di_5']).toHaveLength(candles.length);
+    expect(result.indicatorData?.['adx_5']?.findIndex((v) => v !== null)).toBe(9);
+    expect(result.audit.warmupCandles).toBe(9);
+  });
+});
+
+describe('runBacktest – volume indicators', () => {
+  it('enters on a breakout with at least 2x average volume', () => {
+    const candles = makeCandles('2024-01-01', [100, 101, 100, 106, 99, 110, 111]).map((c, i) => ({
+      ...c,
+      // Bar 3 breaks out on average volume; bar 5 breaks out on a volume spike
+      v: i === 5 ? 5000 : 1000,
+    }));
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [
+          {
+            id: 'entry-breakout',
+            label: 'Close > prior highest(2)',
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'price_close' } },
+            op: 'gt',
+            right: { kind: 'indicator', indicator: { type: 'highest', period: 2, source: 'close' }, offset: 1 },
+          },
+          {
+            id: 'entry-volume',
+            label: 'Relative volume(3) >= 2',
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'rel_volume', period: 3 } },
+            op: 'gte',
+            right: { kind: 'number', value: 2 },
+          },
+        ],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    // Bar 5: 5000 / ((1000 + 1000 + 5000) / 3) ≈ 2.14
+    expect(result.indicatorData?.['rel_volume_3']?.[5]).toBeCloseTo(15 / 7, 10);
+    expect(result.trades[0].entryDate).toBe('2024-01-07');
+  });
+
+  it('caches OBV, volume SMA and VWAP with their warmups', () => {
+    const candles = makeCandles('2024-01-01', [100, 102, 101, 103, 104]);
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [
+          {
+            id: 'entry-obv',
+            label: 'OBV > volume SMA(3)',
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'obv' } },
+            op: 'gt',
+            right: { kind: 'indicator', indicator: { type: 'volume_sma', period: 3 } },
+          },
+          {
+            id: 'entry-vwap',
+            label: 'Close > VWAP(4)',
+            scope: 'candle',
+            left: { kind: 'indicator', indicator: { type: 'price_close' } },
+            op: 'gt',
+            right: { kind: 'indicator', indicator: { type: 'vwap', period: 4 } },
+          },
+        ],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    expect(result.indicatorData?.['obv']).toEqual([0, 1000, 0, 1000, 2000]);
+    expect(result.indicatorData?.['volume_sma_3']?.[2]).toBe(1000);
+    expect(result.indicatorData?.['vwap_4']?.findIndex((v) => v !== null)).toBe(3);
+    expect(result.audit.warmupCandles).toBe(3);
+  });
+});
+
+describe('runBacktest – moving-average family', () => {
+  const prices = Array.from({ length: 40 }, (_, i) => 100 + i + 5 * Math.sin(i / 2));
+  const candles = makeCandles('2024-01-01', prices);
+
+  it.each([
+    [{ type: 'wma', period: 5 }, 'wma_5', 4],
+    [{ type: 'hma', period: 9 }, 'hma_9', 10],
+    [{ type: 'dema', period: 5 }, 'dema_5', 8],
+    [{ type: 'tema', period: 5 }, 'tema_5', 12],
+    [{ type: 'kama', period: 10, fastPeriod: 2, slowPeriod: 30 }, 'kama_10_2_30', 10],
+  ] as [IndicatorSpec, string, number][])('warms up %o until its first value', (indicator, key, warmup) => {
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-ma',
+          label: `close > ${indicator.type}`,
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'gt',
+          right: { kind: 'indicator', indicator },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    const values = result.indicatorData?.[key] ?? [];
+    expect(values.findIndex((v) => v !== null)).toBe(warmup);
+    expect(result.audit.warmupCandles).toBe(warmup);
+  });
+});
+
+describe('runBacktest – channel indicators', () => {
+  // A steep trend widens the Bollinger Bands past Keltner; a flat stretch shrinks them inside
+  const prices = [
+    ...Array.from({ length: 12 }, (_, i) => 100 + 5 * i),
+    ...Array.from({ length: 12 }, () => 155),
+  ];
+  const candles = makeCandles('2024-01-01', prices, { highOffset: 0.5, lowOffset: 0.5 });
+
+  it('enters on a squeeze: Bollinger upper below Keltner upper', () => {
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-squeeze',
+          label: 'BB upper(5, 2) < KC upper(5, 1.5)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'bb_upper', period: 5, stdDev: 2 } },
+          op: 'lt',
+          right: { kind: 'indicator', indicator: { type: 'kc_upper', period: 5, multiplier: 1.5 } },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    const bb = result.indicatorData?.['bb_upper_5_2'] ?? [];
+    const kc = result.indicatorData?.['kc_upper_5_1.5'] ?? [];
+    const squeeze = bb.findIndex((b, i) => i >= 5 && b !== null && kc[i] !== null && b < (kc[i] as number));
+    expect(result.audit.warmupCandles).toBe(5);
+    expect(squeeze).toBeGreaterThanOrEqual(12);
+    expect(result.trades[0].entryDate).toBe(candles[squeeze + 1].t);
+  });
+
+  it('caches all three Keltner and Donchian lines from one request', () => {
+    const rules: StrategyRuleSet = {
+      ...makePriceStrategy(0, 1_000_000),
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry-dc',
+          label: 'KC middle(4) > DC middle(4)',
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'kc_middle', period: 4 } },
+          op: 'gt',
+          right: { kind: 'indicator', indicator: { type: 'dc_middle', period: 4 } },
+        }],
+      },
+    };
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    for (const key of ['kc_upper_4', 'kc_lower_4', 'dc_upper_4', 'dc_lower_4']) {
+      expect(result.indicatorData?.[key]).toHaveLength(candles.length);
+    }
+    expect(result.audit.warmupCandles).toBe(3);
+  });
+});
@@ -72,16 +72,16 @@ function makeConfig(
 // ---------------------------------------------------------------------------
 
 describe('DCA mode backtest', () => {
-  it('buys at regular intervals (every N candles)', () => {
+  it('buys at regular intervals (every N days)', () => {
     const closePrices = [100, 102, 104, 106, 108, 110, 112, 114, 116, 118];
     const candles = makeCandles('2024-01-01', closePrices);
-    // Buy $1000 every 3 candles
+    // Buy $1000 every 3 days
     const rules = makeDCAStrategy(3, 1000);
     const config = makeConfig(rules, candles, { feeBps: 0, slippageBps: 0 });
 
     const result = runBacktest(config, candles);
 
-    // Buys at indices: 0, 3, 6, 9 (every 3 candles starting from 0)
+    // Buys at indices: 0, 3, 6, 9 (every 3 daily candles starting from 0)
     expect(result.trades).toHaveLength(4);
 
     // Verify buy dates
@@ -337,4 +337,43 @@ describe('DCA mode backtest', () => {
     expect(result.trades[0].positionSize).toBe(100);
     expect(result.trades[1].positionSize).toBe(50);
   });
+
+  it('counts the interval in days on weekly bars', () => {
+    const weekly = makeCandles('2024-01-01', Array(20).fill(100)).map((c, i) => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      date.setUTCDate(date.getUTCDate() + i * 7);
+      return { ...c, t: date.toISOString().slice(0, 10) };
+    });
+    const rules = makeDCAStrategy(7, 100);
+    const config = makeConfig(rules, weekly, { timeframe: '1W', feeBps: 0, slippageBps: 0 });
+
+    const result = runBacktest(config, weekly);
+
+    // One buy per weekly bar, not one every 7 bars
+    expect(result.trades).toHaveLength(20);
+  });
+
+  it('counts the interval in days on hourly bars', () => {
+    const hourly = makeCandles('2024-01-01', Array(72).fill(100)).map((c, i) => ({
+      ...c,
+      t: new Date(Date.UTC(2024, 0, 1, i)).toISOString().slice(0, 19) + 'Z',
+    }));
+    const rules = makeDCAStrategy(1, 100);
+    const config = makeConfig(rules, hourly, {
+      timeframe: '1H',
+      startDate: '2024-01-01',
+      endDate: '2024-01-03',
+      feeBps: 0,
+      slippageBps: 0,
+    });
+
+    const result = runBacktest(config, hourly);
+
+    // Once a day: at the first bar of each 24-hour window
+    expect(result.trades.map((t) => t.entryDate)).toEqual([
+      '2024-01-01T00:00:00Z',
+      '2024-01-02T00:00:00Z',
+      '2024-01-03T00:00:00Z',
+    ]);
+  });
 });
@@ -4,6 +4,7 @@ import {
   resolveOperand,
   evaluateCondition,
   evaluateGroup,
+  evaluateExitSignal,
 } from '@/engine/evaluator';
 import type { OpenPosition } from '@/engine/evaluator';
 import type { Candle } from '@/types/results';
@@ -61,6 +62,11 @@ describe('indicatorKey', () => {
       .toBe('sma_14_high');
   });
 
+  it('creates keys for Supertrend and Parabolic SAR params', () => {
+    expect(indicatorKey({ type: 'supertrend', period: 10, multiplier: 3 })).toBe('supertrend_10_3');
+    expect(indicatorKey({ type: 'psar', step: 0.02, maxStep: 0.2 })).toBe('psar_0.02_0.2');
+  });
+
   it('creates key for bare indicator type (no params)', () => {
     expect(indicatorKey({ type: 'price_close' })).toBe('price_close');
   });
@@ -181,6 +187,13 @@ describe('resolveOperand with position-scope indicators', () => {
     expect(resolveOperand(op, 2, testCandles, {}, lossPos)).toBe(-10);
   });
 
+  it('pnl_pct is positive for a short when price falls', () => {
+    const op = indOp({ type: 'pnl_pct' });
+    const shortPos: OpenPosition = { entryPrice: 120, entryIndex: 0, side: 'short' };
+    // candle[2].c = 108, entry = 120 => short gains 10%
+    expect(resolveOperand(op, 2, testCandles, {}, shortPos)).toBe(10);
+  });
+
   it('pnl_pct returns null when no position', () => {
     const op = indOp({ type: 'pnl_pct' });
     expect(resolveOperand(op, 3, testCandles, {}, null)).toBeNull();
@@ -592,4 +605,193 @@ describe('evaluateGroup empty group semantics', () => {
     const group: ConditionGroup = { op: 'OR', conditions: [] };
     expect(evaluateGroup(group, 0, testCandles, {}, null)).toBe(false);
   });
+
+  it('empty exit group never signals an exit, whatever its op', () => {
+    for (const op of ['AND', 'OR', 'NOT'] as const) {
+      const group: ConditionGroup = { op, conditions: [] };
+      expect(evaluateExitSignal(group, 0, testCandles, {}, null)).toBe(false);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// evaluateGroup — nested groups and NOT
+// ---------------------------------------------------------------------------
+
+describe('evaluateGroup nested groups', () => {
+  function mkCondition(left: Operand, op: Condition['op'], right: Operand): Condition {
+    return { id: 'test', label: 'test', scope: 'candle', left, op, right };
+  }
+
+  // candle[0].c = 105
+  const closeAbove100 = mkCondition(indOp({ type: 'price_close' }), 'gt', numOp(100));
+  const closeAbove110 = mkCondition(indOp({ type: 'price_close' }), 'gt', numOp(110));
+  const closeBelow200 = mkCondition(indOp({ type: 'price_close' }), 'lt', numOp(200));
+
+  it('evaluates (A AND B) OR C', () => {
+    const group: ConditionGroup = {
+      op: 'OR',
+      conditions: [
+        { op: 'AND', conditions: [closeAbove100, closeAbove110] },
+        closeBelow200,
+      ],
+    };
+    expect(evaluateGroup(group, 0, testCandles, {}, null)).toBe(true);
+
+    const noFallback: ConditionGroup = { ...group, conditions: [group.conditions[0]] };
+    expect(evaluateGroup(noFallback, 0, testCandles, {}, null)).toBe(false);
+  });
+
+  it('NOT negates its single condition', () => {
+    expect(evaluateGroup({ op: 'NOT', conditions: [closeAbove110] }, 0, testCandles, {}, null)).toBe(true);
+    expect(evaluateGroup({ op: 'NOT', conditions: [closeAbove100] }, 0, testCandles, {}, null)).toBe(false);
+  });
+
+  it('NOT negates a whole nested group', () => {
+    const group: ConditionGroup = {
+      op: 'AND',
+      conditions: [
+        closeBelow200,
+        { op: 'NOT', conditions: [{ op: 'OR', conditions: [closeAbove110, closeAbove100] }] },
+      ],
+    };
+    expect(evaluateGroup(group, 0, testCandles, {}, null)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveOperand — expressions
+// ---------------------------------------------------------------------------
+
+describe('resolveOperand expressions', () => {
+  const cache = { sma_2: [null, 107.5, 109, 111.5, 117.5] };
+  const sma2 = indOp({ type: 'sma', period: 2 });
+
+  it('evaluates arithmetic over indicators and constants', () => {
+    const fivePctAbove: Operand = { kind: 'expression', op: 'mul', left: sma2, right: numOp(1.05) };
+    expect(resolveOperand(fivePctAbove, 1, testCandles, cache, null)).toBeCloseTo(112.875, 10);
+
+    const spread: Operand = { kind: 'expression', op: 'sub', left: indOp({ type: 'price_close' }), right: sma2 };
+    expect(resolveOperand(spread, 3, testCandles, cache, null)).toBeCloseTo(3.5, 10);
+  });
+
+  it('nests expressions', () => {
+    // (close + open) / 2 on candle 0 = (105 + 100) / 2
+    const mid: Operand = {
+      kind: 'expression',
+      op: 'div',
+      left: { kind: 'expression', op: 'add', left: indOp({ type: 'price_close' }), right: indOp({ type: 'price_open' }) },
+      right: numOp(2),
+    };
+    expect(resolveOperand(mid, 0, testCandles, cache, null)).toBe(102.5);
+  });
+
+  it('returns null while an indicator warms up or on division by zero', () => {
+    const scaled: Operand = { kind: 'expression', op: 'mul', left: sma2, right: numOp(2) };
+    expect(resolveOperand(scaled, 0, testCandles, cache, null)).toBeNull();
+
+    const byZero: Operand = { kind: 'expression', op: 'div', left: indOp({ type: 'price_close' }), right: numOp(0) };
+    expect(resolveOperand(byZero, 0, testCandles, cache, null)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveOperand — offsets
+// ---------------------------------------------------------------------------
+
+describe('resolveOperand offsets', () => {
+  const agoOp = (spec: IndicatorSpec, offset: number): Operand => ({ kind: 'indicator', indicator: spec, offset });
+
+  it('reads price and cached indicators N bars back', () => {
+    const cache = { sma_2: [null, 107.5, 109, 111.5, 117.5] };
+    expect(resolveOperand(agoOp({ type: 'price_close' }, 3), 4, testCandles, {}, null)).toBe(110);
+    expect(resolveOperand(agoOp({ type: 'sma', period: 2 }, 1), 4, testCandles, cache, null)).toBe(111.5);
+  });
+
+  it('returns null before the first bar', () => {
+    expect(resolveOperand(agoOp({ type: 'price_close' }, 2), 1, testCandles, {}, null)).toBeNull();
+  });
+
+  it('returns null for position values from before the entry', () => {
+    const position: OpenPosition = { entryPrice: 110, entryIndex: 1 };
+    expect(resolveOperand(agoOp({ type: 'bars_in_trade' }, 1), 3, testCandles, {}, position)).toBe(1);
+    expect(resolveOperand(agoOp({ type: 'bars_in_trade' }, 3), 3, testCandles, {}, position)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// evaluateCondition — persistence
+// ---------------------------------------------------------------------------
+
+describe('evaluateCondition persistence', () => {
+  // Closes: 105, 110, 108, 115, 120
+  function closeCond(op: Condition['op'], value: number, persistence: Condition['persistence']): Condition {
+    return {
+      id: 'p',
+      label: `close ${op} ${value}`,
+      scope: 'candle',
+      left: indOp({ type: 'price_close' }),
+      op,
+      right: numOp(value),
+      persistence,
+    };
+  }
+
+  it('consecutive requires the comparison on each of the last N bars', () => {
+    const cond = closeCond('gt', 107, { type: 'consecutive', bars: 2 });
+    const results = testCandles.map((_, i) => evaluateCondition(cond, i, testCandles, {}, null));
+    expect(results).toEqual([false, false, true, true, true]);
+  });
+
+  it('consecutive fails when any bar in the window misses', () => {
+    const cond = closeCond('gt', 109, { type: 'consecutive', bars: 3 });
+    expect(evaluateCondition(cond, 3, testCandles, {}, null)).toBe(false);
+    expect(evaluateCondition(cond, 4, testCandles, {}, null)).toBe(false);
+  });
+
+  it('within holds while the last hit is inside the window', () => {
+    const cond = closeCond('lt', 107, { type: 'within', bars: 2 });
+    const results = testCandles.map((_, i) => evaluateCondition(cond, i, testCandles, {}, null));
+    expect(results).toEqual([true, true, false, false, false]);
+  });
+
+  it('gives the same answers whatever order bars are evaluated in', () => {
+    const cond = closeCond('gt', 112, { type: 'within', bars: 2 });
+    expect(evaluateCondition(cond, 4, testCandles, {}, null)).toBe(true);
+    expect(evaluateCondition(cond, 2, testCandles, {}, null)).toBe(false);
+    expect(evaluateCondition(cond, 3, testCandles, {}, null)).toBe(true);
+  });
+
+  it('applies to crosses: crossed within the last N bars', () => {
+    const cache = { sma_2: [null, 107.5, 109, 111.5, 117.5] };
+    const cond: Condition = {
+      id: 'x',
+      label: 'close crosses below SMA(2)',
+      scope: 'candle',
+      left: indOp({ type: 'price_close' }),
+      op: 'crosses_below',
+      right: indOp({ type: 'sma', period: 2 }),
+      persistence: { type: 'within', bars: 2 },
+    };
+    // Cross happens on bar 2 (110 ≥ 107.5, then 108 < 109)
+    expect(evaluateCondition(cond, 2, testCandles, cache, null)).toBe(true);
+    expect(evaluateCondition(cond, 3, testCandles, cache, null)).toBe(true);
+    expect(evaluateCondition(cond, 4, testCandles, cache, null)).toBe(false);
+  });
+
+  it('counts bars before the entry as false for position-scope conditions', () => {
+    const cond: Condition = {
+      id: 'bars',
+      label: 'bars_in_trade >= 0',
+      scope: 'position',
+      left: indOp({ type: 'bars_in_trade' }),
+      op: 'gte',
+      right: numOp(0),
+      persistence: { type: 'consecutive', bars: 3 },
+    };
+    const position: OpenPosition = { entryPrice: 110, entryIndex: 1 };
+    expect(evaluateCondition(cond, 2, testCandles, {}, position)).toBe(false);
+    expect(evaluateCondition(cond, 3, testCandles, {}, position)).toBe(true);
+    expect(evaluateCondition(cond, 3, testCandles, {}, null)).toBe(false);
+  });
 });
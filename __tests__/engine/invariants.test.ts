@@ -5,6 +5,7 @@ import {
   type StrategyRuleSet,
   type Condition,
   type ConditionGroup,
+  type AssetSymbol,
 } from '@/types/strategy';
 
 /** Helper: minimal valid standard rule set */
@@ -85,6 +86,15 @@ describe('StrategyRuleSetSchema', () => {
     }
   });
 
+  it('parses nested groups and NOT', () => {
+    const entry1 = makeStandardRuleSet().entry.conditions[0];
+    const input = makeStandardRuleSet({
+      entry: { op: 'OR', conditions: [{ op: 'NOT', conditions: [{ op: 'AND', conditions: [entry1] }] }] },
+    });
+    const result = StrategyRuleSetSchema.safeParse(input);
+    expect(result.success).toBe(true);
+  });
+
   it('rejects invalid indicator type', () => {
     const input = makeStandardRuleSet({
       entry: {
@@ -179,6 +189,24 @@ describe('validateRuleSetInvariants', () => {
     expect(result.warnings.length).toBeGreaterThan(0);
   });
 
+  it('does not warn about missing exits when a stop-loss is set', () => {
+    const rules = makeStandardRuleSet({
+      exit: { op: 'OR', conditions: [], stopLossPct: 5 },
+    });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('errors when DCA mode has stop-loss or take-profit orders', () => {
+    const rules = makeDcaRuleSet({
+      exit: { op: 'AND', conditions: [], takeProfitPct: 20 },
+    });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('DCA mode does not support stop-loss, take-profit');
+  });
+
   it('errors when DCA mode has entry conditions', () => {
     const rules = makeDcaRuleSet({
       entry: {
@@ -289,4 +317,154 @@ describe('validateRuleSetInvariants', () => {
     const result = validateRuleSetInvariants(rules);
     expect(result.valid).toBe(true);
   });
+
+  it('errors when a portfolio is combined with DCA mode, scale rules, entry orders or re-entry rules', () => {
+    const portfolio = { assets: ['BTC', 'ETH'] as AssetSymbol[], maxOpenPositions: 1, allocation: 'equal_split' as const };
+    const dca = validateRuleSetInvariants(makeDcaRuleSet({ portfolio }));
+    expect(dca.errors).toContain('Portfolio backtesting is only supported in standard mode.');
+
+    const scaled = validateRuleSetInvariants(makeStandardRuleSet({
+      portfolio,
+      scaleIn: {
+        trigger: makeStandardRuleSet().entry,
+        sizePct: 25,
+        maxLots: 2,
+      },
+    }));
+    expect(scaled.errors).toContain('Portfolio backtesting does not support scale-in or scale-out rules.');
+
+    const ordered = validateRuleSetInvariants(makeStandardRuleSet({
+      portfolio,
+      entryOrder: { type: 'limit', offsetPct: 2 },
+      reentry: { cooldownBars: 3 },
+    }));
+    expect(ordered.errors).toContain('Portfolio backtesting does not support limit entry orders; use market entries.');
+    expect(ordered.errors).toContain('Portfolio backtesting does not support re-entry rules.');
+
+    const market = validateRuleSetInvariants(makeStandardRuleSet({ portfolio, entryOrder: { type: 'market' } }));
+    expect(market.valid).toBe(true);
+  });
+
+  it('errors on repeated assets and overrides outside the basket', () => {
+    const rules = makeStandardRuleSet({
+      portfolio: {
+        assets: ['BTC', 'BTC'],
+        maxOpenPositions: 3,
+        allocation: 'equal_split',
+        overrides: [{ asset: 'SOL', entry: makeStandardRuleSet().entry, exit: { op: 'OR', conditions: [] } }],
+      },
+    });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Portfolio assets must not repeat.');
+    expect(result.errors).toContain('Portfolio override for SOL is not one of the portfolio assets.');
+    expect(result.warnings[0]).toContain('maxOpenPositions (3) exceeds');
+  });
+
+  it('errors when risk_percent sizing has no stop to measure against', () => {
+    const rules = makeStandardRuleSet({ sizing: { type: 'risk_percent', riskPct: 1 } });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(
+      'risk_percent sizing needs a stop-loss or trailing stop to measure risk against.',
+    );
+
+    const withStop = makeStandardRuleSet({
+      sizing: { type: 'risk_percent', riskPct: 1 },
+      exit: { ...makeStandardRuleSet().exit, stopLossPct: 5 },
+    });
+    expect(validateRuleSetInvariants(withStop).valid).toBe(true);
+  });
+
+  it('warns that dynamic sizing is ignored in DCA mode', () => {
+    const rules = makeDcaRuleSet({ sizing: { type: 'kelly_fraction', fraction: 0.5 } });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.warnings).toContain('kelly_fraction sizing is ignored in DCA mode.');
+  });
+
+  it('rejects cooldownAfterLossOnly without cooldownBars', () => {
+    const rules = makeStandardRuleSet({ reentry: { cooldownAfterLossOnly: true } });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('cooldownAfterLossOnly needs cooldownBars.');
+  });
+
+  it('warns that limit entry orders are ignored in DCA mode', () => {
+    const rules = makeDcaRuleSet({ entryOrder: { type: 'limit', offsetPct: 2 } });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toContain('limit entry orders are ignored in DCA mode.');
+  });
+
+  it('checks conditions inside nested groups', () => {
+    const entry1 = makeStandardRuleSet().entry.conditions[0] as Condition;
+    const rules = makeStandardRuleSet({
+      entry: {
+        op: 'OR',
+        conditions: [
+          entry1,
+          { op: 'AND', conditions: [{ ...entry1, id: 'entry_2', op: 'crosses_above' }] },
+        ],
+      },
+    });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.errors).toContain(
+      'Condition "entry_2": crosses_above requires indicator operands on both sides.',
+    );
+  });
+
+  it('accepts crosses against an expression and rejects crosses against a constant expression', () => {
+    const entry1 = makeStandardRuleSet().entry.conditions[0] as Condition;
+    const cross = (right: Condition['right']): StrategyRuleSet =>
+      makeStandardRuleSet({
+        entry: { op: 'AND', conditions: [{ ...entry1, op: 'crosses_above', right }] },
+      });
+
+    const sma = { kind: 'indicator', indicator: { type: 'sma', period: 50 } } as const;
+    const valid = cross({ kind: 'expression', op: 'mul', left: sma, right: { kind: 'number', value: 1.05 } });
+    expect(validateRuleSetInvariants(valid).valid).toBe(true);
+
+    const constant = cross({
+      kind: 'expression',
+      op: 'add',
+      left: { kind: 'number', value: 1 },
+      right: { kind: 'number', value: 2 },
+    });
+    expect(validateRuleSetInvariants(constant).valid).toBe(false);
+  });
+
+  it('rejects NOT groups without exactly one child and empty nested groups', () => {
+    const entry1 = makeStandardRuleSet().entry.conditions[0] as Condition;
+    const rules = makeStandardRuleSet({
+      entry: {
+        op: 'AND',
+        conditions: [
+          { op: 'NOT', conditions: [entry1, { ...entry1, id: 'entry_2' }] },
+          { op: 'OR', conditions: [] },
+        ],
+      },
+    });
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('NOT groups must contain exactly 1 condition or group.');
+    expect(result.errors).toContain('Nested condition groups must not be empty.');
+  });
+
+  it('rejects indicator timeframes that are not longer than the backtest bars', () => {
+    const entry1 = makeStandardRuleSet().entry.conditions[0] as Condition;
+    const onTimeframe = (timeframe: '4H' | '1W'): Condition => ({
+      ...entry1,
+      left: { kind: 'indicator', indicator: { type: 'rsi', period: 14, timeframe } },
+    });
+    const rules = makeStandardRuleSet({ entry: { op: 'AND', conditions: [onTimeframe('4H')] } });
+
+    const onDaily = validateRuleSetInvariants(rules, '1D');
+    expect(onDaily.valid).toBe(false);
+    expect(onDaily.errors).toContain('Indicators on the 4H timeframe must use longer bars than the 1D backtest.');
+    expect(validateRuleSetInvariants(rules, '1H').valid).toBe(true);
+
+    const weekly = makeStandardRuleSet({ entry: { op: 'AND', conditions: [onTimeframe('1W')] } });
+    expect(validateRuleSetInvariants(weekly, '1D').valid).toBe(true);
+    expect(validateRuleSetInvariants(weekly, '1W').valid).toBe(false);
+  });
 });
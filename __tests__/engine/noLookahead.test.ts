@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { runBacktest } from '@/engine/backtest';
+import { computeBenchmark } from '@/engine/benchmark';
+import { resolveOperand } from '@/engine/evaluator';
 import type { BacktestConfig, Candle } from '@/types/results';
-import type { StrategyRuleSet } from '@/types/strategy';
+import { OperandSchema, type Operand, type StrategyRuleSet } from '@/types/strategy';
 
 // ---------------------------------------------------------------------------
 // Helper: make candles with explicit open/high/low/close
@@ -199,3 +201,183 @@ describe('No-lookahead verification', () => {
     expect(result.trades[0].exitPrice).toBeCloseTo(expectedFill, 6);
   });
 });
+
+describe('No-lookahead verification – fill models', () => {
+  // Signal on candle 2 (close 90 < 95), exit signal on candle 6 (close 110 > 105)
+  const candles = makeExplicitCandles([
+    { t: '2024-01-01', o: 100, h: 105, l: 95, c: 100, v: 1000 },
+    { t: '2024-01-02', o: 100, h: 105, l: 90, c: 98,  v: 1000 },
+    { t: '2024-01-03', o: 98,  h: 100, l: 85, c: 90,  v: 1000 },
+    { t: '2024-01-04', o: 77,  h: 100, l: 70, c: 92,  v: 1000 },
+    { t: '2024-01-05', o: 93,  h: 110, l: 90, c: 95,  v: 1000 },
+    { t: '2024-01-06', o: 96,  h: 115, l: 94, c: 100, v: 1000 },
+    { t: '2024-01-07', o: 101, h: 120, l: 99, c: 110, v: 1000 },
+    { t: '2024-01-08', o: 55,  h: 120, l: 50, c: 115, v: 1000 },
+  ]);
+  const rules = makePriceStrategy(95, 105);
+
+  it('same_close fills at the signal candle close, never a later candle', () => {
+    const result = runBacktest(makeConfig(rules, candles, { fillModel: 'same_close' }), candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe('2024-01-03');
+    expect(result.trades[0].entryPrice).toBe(90);
+    expect(result.trades[0].exitDate).toBe('2024-01-07');
+    expect(result.trades[0].exitPrice).toBe(110);
+    expect(result.audit.executionModel).toBe('Signal on close[i], execute at close[i]');
+  });
+
+  it('next_close fills at close[i+1], NOT at open[i+1]', () => {
+    const result = runBacktest(makeConfig(rules, candles, { fillModel: 'next_close' }), candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe('2024-01-04');
+    expect(result.trades[0].entryPrice).toBe(92);
+    expect(result.trades[0].exitDate).toBe('2024-01-08');
+    expect(result.trades[0].exitPrice).toBe(115);
+  });
+
+  it('ohlc_avg fills at the (O+H+L+C)/4 of candle i+1', () => {
+    const result = runBacktest(makeConfig(rules, candles, { fillModel: 'ohlc_avg' }), candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe('2024-01-04');
+    expect(result.trades[0].entryPrice).toBeCloseTo((77 + 100 + 70 + 92) / 4, 10);
+    expect(result.trades[0].exitPrice).toBeCloseTo((55 + 120 + 50 + 115) / 4, 10);
+  });
+
+  it('a close fill does not see its own candle range for stops', () => {
+    // Entry at close[3] = 92 with a 10% stop (82.8); candle 3's low of 70 traded before the fill
+    const withStop: StrategyRuleSet = {
+      ...rules,
+      exit: { ...rules.exit, stopLossPct: 10 },
+    };
+    const result = runBacktest(makeConfig(withStop, candles, { fillModel: 'next_close' }), candles);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('Exit signal');
+  });
+
+  it('benchmark enters at the fill-model price of the first candle', () => {
+    const tradable = candles.slice(3);
+    const open = computeBenchmark(tradable, 10000, 0, 0);
+    const close = computeBenchmark(tradable, 10000, 0, 0, 'same_close');
+
+    // Bought at open 77 vs close 92, marked at close 92
+    expect(open.equityCurve[0].benchmarkEquity).toBeCloseTo((10000 / 77) * 92, 6);
+    expect(close.equityCurve[0].benchmarkEquity).toBeCloseTo(10000, 6);
+    expect(close.description).toContain('first tradable candle close');
+
+    const avg = computeBenchmark(tradable, 10000, 0, 0, 'ohlc_avg');
+    const units = 10000 / ((77 + 100 + 70 + 92) / 4);
+    expect(avg.equityCurve[0].benchmarkEquity).toBeCloseTo(units * 92, 6);
+  });
+});
+
+describe('No-lookahead verification – higher-timeframe indicators', () => {
+  // 2024-01-01 is a Monday. Every close is 100 except the Sunday that ends week 2.
+  const candles = makeExplicitCandles(
+    Array.from({ length: 21 }, (_, i) => {
+      const d = new Date(Date.UTC(2024, 0, 1 + i));
+      const c = i === 13 ? 200 : 100;
+      return { t: d.toISOString().slice(0, 10), o: 100, h: Math.max(c, 105), l: 95, c, v: 1000 };
+    }),
+  );
+
+  function weeklyRules(left: Operand, threshold: number): StrategyRuleSet {
+    const rules = makePriceStrategy(0, 1_000_000);
+    return {
+      ...rules,
+      entry: {
+        op: 'AND',
+        conditions: [{ id: 'entry', label: 'weekly', scope: 'candle', left, op: 'gt', right: { kind: 'number', value: threshold } }],
+      },
+    };
+  }
+
+  it('sees a weekly close only after the week has closed', () => {
+    const rules = weeklyRules(
+      { kind: 'indicator', indicator: { type: 'price_close', timeframe: '1W' } },
+      150,
+    );
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    // Week 2 closes at 200 on Sunday 01-14; the fill is the following Monday's open
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].entryDate).toBe('2024-01-15');
+  });
+
+  it('skips candles until enough higher-timeframe bars have closed', () => {
+    const rules = weeklyRules(
+      { kind: 'indicator', indicator: { type: 'sma', period: 2, timeframe: '1W' } },
+      120,
+    );
+    const result = runBacktest(makeConfig(rules, candles), candles);
+
+    // Weekly SMA(2) first exists at the close of week 2 (index 13): (100 + 200) / 2 = 150
+    expect(result.audit.warmupCandles).toBe(13);
+    expect(result.indicatorData?.['sma_2@1W']?.[12]).toBeNull();
+    expect(result.indicatorData?.['sma_2@1W']?.[13]).toBe(150);
+    expect(result.trades[0].entryDate).toBe('2024-01-15');
+  });
+});
+
+describe('No-lookahead verification – offset operands', () => {
+  const candles = makeExplicitCandles([
+    { t: '2024-01-01', o: 100, h: 105, l: 95, c: 100, v: 1000 },
+    { t: '2024-01-02', o: 100, h: 105, l: 95, c: 100, v: 1000 },
+    { t: '2024-01-03', o: 100, h: 105, l: 95, c: 99,  v: 1000 },
+    { t: '2024-01-04', o: 99,  h: 110, l: 95, c: 105, v: 1000 },
+    { t: '2024-01-05', o: 105, h: 110, l: 100, c: 104, v: 1000 },
+    { t: '2024-01-06', o: 104, h: 110, l: 100, c: 103, v: 1000 },
+  ]);
+  const closeAgo = (offset: number): Operand => ({
+    kind: 'indicator',
+    indicator: { type: 'price_close' },
+    offset,
+  });
+
+  function risingRules(offset: number): StrategyRuleSet {
+    const rules = makePriceStrategy(0, 1_000_000);
+    return {
+      ...rules,
+      entry: {
+        op: 'AND',
+        conditions: [{
+          id: 'entry',
+          label: `close > close ${offset} bars ago`,
+          scope: 'candle',
+          left: { kind: 'indicator', indicator: { type: 'price_close' } },
+          op: 'gt',
+          right: closeAgo(offset),
+        }],
+      },
+    };
+  }
+
+  it('compares against earlier bars and warms up for the offset', () => {
+    const result = runBacktest(makeConfig(risingRules(2), candles), candles);
+
+    expect(result.audit.warmupCandles).toBe(2);
+    // Candle 3: 105 > close[1] = 100 → fill at open[4]
+    expect(result.trades[0].entryDate).toBe('2024-01-05');
+  });
+
+  it('gives the same signals whatever the later candles hold', () => {
+    const altered = candles.map((c, i) => (i > 3 ? { ...c, o: 1, h: 500, l: 1, c: 400 } : c));
+    const a = runBacktest(makeConfig(risingRules(2), candles), candles);
+    const b = runBacktest(makeConfig(risingRules(2), altered), altered);
+    expect(b.trades[0].entryDate).toBe(a.trades[0].entryDate);
+  });
+
+  it('rejects negative offsets in the schema', () => {
+    expect(OperandSchema.safeParse(closeAgo(-1)).success).toBe(false);
+    expect(OperandSchema.safeParse(closeAgo(1)).success).toBe(true);
+  });
+
+  it('never reads a future bar even if a negative offset bypasses the schema', () => {
+    expect(resolveOperand(closeAgo(-1), 2, candles, {}, null)).toBeNull();
+    const result = runBacktest(makeConfig(risingRules(-1), candles), candles);
+    expect(result.trades).toHaveLength(0);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { runBacktest, runRebalanceBacktest } from '@/engine/backtest';
+import type { BacktestConfig, Candle } from '@/types/results';
+import type { RebalanceTrigger, StrategyRuleSet } from '@/types/strategy';
+import { validateRuleSetInvariants } from '@/types/strategy';
+
+// ---------------------------------------------------------------------------
+// Helper: build candles
+// ---------------------------------------------------------------------------
+
+function makeCandles(startDate: string, closePrices: number[]): Candle[] {
+  return closePrices.map((c, i) => {
+    const date = new Date(startDate + 'T00:00:00Z');
+    date.setUTCDate(date.getUTCDate() + i);
+    const o = c - 2;
+    return {
+      t: date.toISOString().slice(0, 10),
+      o,
+      h: Math.max(o, c) + 5,
+      l: Math.min(o, c) - 5,
+      c,
+      v: 1000,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helper: build a 60/40 BTC/ETH rebalance strategy
+// ---------------------------------------------------------------------------
+
+function makeRebalanceStrategy(trigger: RebalanceTrigger): StrategyRuleSet {
+  return {
+    id: 'test-rebalance',
+    name: 'Rebalance Strategy',
+    mode: {
+      type: 'rebalance',
+      targets: [
+        { asset: 'BTC', weightPct: 60 },
+        { asset: 'ETH', weightPct: 40 },
+      ],
+      trigger,
+    },
+    entry: { op: 'AND', conditions: [] },
+    exit: { op: 'AND', conditions: [] },
+    sizing: { type: 'percent_equity', valuePct: 100 },
+    metadata: { warnings: [] },
+  };
+}
+
+function makeConfig(
+  rules: StrategyRuleSet,
+  candles: Candle[],
+  overrides?: Partial<BacktestConfig>,
+): BacktestConfig {
+  return {
+    asset: 'BTC',
+    timeframe: '1D',
+    startDate: candles[0].t,
+    endDate: candles[candles.length - 1].t,
+    initialCapital: 10000,
+    feeBps: 0,
+    slippageBps: 0,
+    rules,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Rebalance mode backtest', () => {
+  const eth = makeCandles('2024-01-01', [100, 100, 100, 100]);
+
+  it('allocates to target weights on the first candle', () => {
+    const btc = makeCandles('2024-01-01', [100, 100, 100, 100]);
+    const rules = makeRebalanceStrategy({ type: 'calendar', intervalDays: 30 });
+
+    const result = runRebalanceBacktest(makeConfig(rules, btc), { BTC: btc, ETH: eth });
+
+    expect(result.audit.rebalanceCount).toBe(1);
+    expect(result.trades).toHaveLength(2);
+    expect(result.trades.map((t) => t.positionSize)).toEqual([6000, 4000]);
+    expect(result.trades.every((t) => t.exitReason === 'Rebalance hold')).toBe(true);
+    for (const pt of result.equityCurve) {
+      expect(pt.equity).toBeCloseTo(10000, 6);
+    }
+  });
+
+  it('trades back to target weights on the calendar trigger and reports turnover', () => {
+    const btc = makeCandles('2024-01-01', [100, 150, 200, 200]);
+    const rules = makeRebalanceStrategy({ type: 'calendar', intervalDays: 2 });
+
+    const result = runRebalanceBacktest(makeConfig(rules, btc), { BTC: btc, ETH: eth });
+
+    // Index 2: BTC 60 units × 200 = 12000, ETH 4000 → sell 12 BTC, buy $2400 ETH
+    expect(result.audit.rebalanceCount).toBe(2);
+    const sale = result.trades.find((t) => t.exitReason === 'Rebalance')!;
+    expect(sale.asset).toBe('BTC');
+    expect(sale.exitDate).toBe(btc[2].t);
+    expect(sale.pnlAbs).toBeCloseTo(1200, 6);
+
+    const lastEquity = result.equityCurve[result.equityCurve.length - 1].equity;
+    expect(lastEquity).toBeCloseTo(16000, 6);
+
+    // (10000 + 2400 + 2400) traded over an average equity of 13750
+    expect(result.audit.turnoverPct).toBeCloseTo((14800 / 13750) * 100, 6);
+  });
+
+  it('rebalances only once a weight drifts past the threshold', () => {
+    const btc = makeCandles('2024-01-01', [100, 150, 200, 200]);
+    const rules = makeRebalanceStrategy({ type: 'drift', thresholdPct: 10 });
+
+    const result = runRebalanceBacktest(makeConfig(rules, btc), { BTC: btc, ETH: eth });
+
+    // Index 1: BTC at 69.2% (9.2 pts off) → hold; index 2: 75% → rebalance
+    expect(result.audit.rebalanceCount).toBe(2);
+    const sales = result.trades.filter((t) => t.exitReason === 'Rebalance');
+    expect(sales).toHaveLength(1);
+    expect(sales[0].exitDate).toBe(btc[2].t);
+    expect(result.audit.positionModel).toContain('drifts > 10 pts');
+  });
+
+  it('counts the calendar interval in days on hourly bars', () => {
+    const hourly = (closes: number[]): Candle[] =>
+      makeCandles('2024-01-01', closes).map((c, i) => ({
+        ...c,
+        t: new Date(Date.UTC(2024, 0, 1, i)).toISOString().slice(0, 19) + 'Z',
+      }));
+    const btc = hourly(Array.from({ length: 48 }, (_, i) => 100 + i));
+    const rules = makeRebalanceStrategy({ type: 'calendar', intervalDays: 1 });
+    const config = makeConfig(rules, btc, { timeframe: '1H', startDate: '2024-01-01', endDate: '2024-01-02' });
+
+    const result = runRebalanceBacktest(config, { BTC: btc, ETH: hourly(Array(48).fill(100)) });
+
+    // Initial allocation plus one rebalance a day later, not one every bar
+    expect(result.audit.rebalanceCount).toBe(2);
+    const sales = result.trades.filter((t) => t.exitReason === 'Rebalance');
+    expect(sales.map((t) => t.exitDate)).toEqual(['2024-01-02T00:00:00Z']);
+    expect(result.audit.positionModel).toContain('every 1 days');
+  });
+
+  it('charges fees and slippage on every rebalance trade', () => {
+    const btc = makeCandles('2024-01-01', [100, 100, 100, 100]);
+    const rules = makeRebalanceStrategy({ type: 'calendar', intervalDays: 30 });
+    const config = makeConfig(rules, btc, { feeBps: 10, slippageBps: 5 });
+
+    const result = runRebalanceBacktest(config, { BTC: btc, ETH: eth });
+
+    const expected = (10000 * (1 - 0.001)) / (1 + 0.0005);
+    expect(result.equityCurve[0].equity).toBeCloseTo(expected, 6);
+  });
+
+  it('refuses to run through the single-asset entry point', () => {
+    const btc = makeCandles('2024-01-01', [100, 100]);
+    const rules = makeRebalanceStrategy({ type: 'calendar', intervalDays: 7 });
+    expect(() => runBacktest(makeConfig(rules, btc), btc)).toThrow();
+  });
+
+  it('rejects target weights that do not sum to 100%', () => {
+    const rules = makeRebalanceStrategy({ type: 'calendar', intervalDays: 7 });
+    if (rules.mode.type !== 'rebalance') throw new Error('unreachable');
+    rules.mode.targets[1].weightPct = 30;
+
+    const result = validateRuleSetInvariants(rules);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('must sum to 100%');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeADX } from '@/indicators/adx';
+
+describe('computeADX', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeADX([], [], [], 14)).toEqual({ adx: [], plusDI: [], minusDI: [] });
+  });
+
+  it('returns all nulls when data is shorter than period + 1', () => {
+    const { adx, plusDI } = computeADX([10, 11], [9, 10], [9.5, 10.5], 2);
+    expect(adx).toEqual([null, null]);
+    expect(plusDI).toEqual([null, null]);
+  });
+
+  it('computes hand-calculated DI and ADX for period 2', () => {
+    // Index:   0   1   2   3
+    const highs = [10, 12, 13, 12];
+    const lows = [8, 9, 11, 9];
+    const closes = [9, 11, 12, 10];
+    const { adx, plusDI, minusDI } = computeADX(highs, lows, closes, 2);
+
+    // TR: -, 3, 2, 3   +DM: -, 2, 1, 0   -DM: -, 0, 0, 2
+    // index 2: sTR 5, s+DM 3, s-DM 0 → +DI 60, -DI 0, DX 100
+    // index 3: sTR 5 - 2.5 + 3 = 5.5, s+DM 3 - 1.5 + 0 = 1.5, s-DM 0 + 2 = 2
+    //          +DI 27.27, -DI 36.36, DX = 100 * 9.09 / 63.64 = 14.29
+    expect(plusDI[1]).toBeNull();
+    expect(plusDI[2]).toBeCloseTo(60, 10);
+    expect(minusDI[2]).toBeCloseTo(0, 10);
+    expect(plusDI[3]).toBeCloseTo(100 * 1.5 / 5.5, 10);
+    expect(minusDI[3]).toBeCloseTo(100 * 2 / 5.5, 10);
+
+    // ADX first value at 2 * period - 1 = 3: mean of DX[2], DX[3]
+    expect(adx[2]).toBeNull();
+    expect(adx[3]).toBeCloseTo((100 + 100 * 0.5 / 3.5) / 2, 10);
+  });
+
+  it('reads a steady uptrend as strong, with +DI over -DI', () => {
+    const n = 40;
+    const highs = Array.from({ length: n }, (_, i) => 101 + i);
+    const lows = Array.from({ length: n }, (_, i) => 99 + i);
+    const closes = Array.from({ length: n }, (_, i) => 100 + i);
+    const { adx, plusDI, minusDI } = computeADX(highs, lows, closes, 14);
+
+    expect(adx[26]).toBeNull();
+    expect(adx[27]).toBeCloseTo(100, 10);
+    expect(plusDI[n - 1]!).toBeGreaterThan(minusDI[n - 1]!);
+  });
+
+  it('output arrays have same length as input', () => {
+    const data = [1, 2, 3, 4, 5, 6, 7];
+    const result = computeADX(data, data, data, 3);
+    expect(result.adx).toHaveLength(7);
+    expect(result.plusDI).toHaveLength(7);
+    expect(result.minusDI).toHaveLength(7);
+  });
+});
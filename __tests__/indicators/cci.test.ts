@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { computeCCI } from '@/indicators/cci';
+
+describe('computeCCI', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeCCI([], [], [], 20)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period', () => {
+    expect(computeCCI([10, 11], [9, 10], [9.5, 10.5], 3)).toEqual([null, null]);
+  });
+
+  it('computes hand-calculated CCI', () => {
+    // Typical prices: 3, 6, 9 (high = low = close)
+    const tp = [3, 6, 9];
+    const result = computeCCI(tp, tp, tp, 3);
+
+    // SMA = 6, mean deviation = (3 + 0 + 3) / 3 = 2
+    // CCI = (9 - 6) / (0.015 * 2) = 100
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeNull();
+    expect(result[2]).toBeCloseTo(100, 10);
+  });
+
+  it('uses (high + low + close) / 3 as the typical price', () => {
+    const result = computeCCI([4, 7, 10], [2, 5, 8], [3, 6, 9], 3);
+    expect(result[2]).toBeCloseTo(100, 10);
+  });
+
+  it('is negative when the typical price is below its average', () => {
+    const tp = [9, 6, 3];
+    expect(computeCCI(tp, tp, tp, 3)[2]).toBeCloseTo(-100, 10);
+  });
+
+  it('returns 0 for a flat typical price', () => {
+    const tp = [5, 5, 5];
+    expect(computeCCI(tp, tp, tp, 2)).toEqual([null, 0, 0]);
+  });
+});
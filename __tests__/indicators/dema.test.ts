@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { computeDEMA } from '@/indicators/dema';
+
+describe('computeDEMA', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeDEMA([], 3)).toEqual([]);
+  });
+
+  it('returns all nulls when data is too short for the second EMA', () => {
+    expect(computeDEMA([1, 2, 3, 4], 3)).toEqual([null, null, null, null]);
+  });
+
+  it('computes DEMA(2) of [1, 2, 3, 5, 8] by hand', () => {
+    // EMA(2):          [null, 1.5, 2.5, 25/6, 121/18]
+    // EMA(2) of that:  [null, null, 2, 31/9, ...]
+    const result = computeDEMA([1, 2, 3, 5, 8], 2);
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeNull();
+    expect(result[2]).toBeCloseTo(2 * 2.5 - 2, 10);
+    expect(result[3]).toBeCloseTo(2 * (25 / 6) - 31 / 9, 10);
+  });
+
+  it('tracks a straight line without lag', () => {
+    const data = Array.from({ length: 15 }, (_, i) => 50 + 3 * i);
+    const result = computeDEMA(data, 4);
+    expect(result.findIndex((v) => v !== null)).toBe(6);
+    for (let i = 6; i < data.length; i++) {
+      expect(result[i]).toBeCloseTo(data[i], 10);
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { computeDonchian } from '@/indicators/donchian';
+
+describe('computeDonchian', () => {
+  it('returns empty arrays for empty data', () => {
+    expect(computeDonchian([], [], 20)).toEqual({ upper: [], middle: [], lower: [] });
+  });
+
+  it('tracks the highest high, lowest low and their midpoint', () => {
+    const highs = [10, 12, 11, 15, 13];
+    const lows = [8, 9, 7, 10, 11];
+    const { upper, middle, lower } = computeDonchian(highs, lows, 3);
+
+    expect(upper).toEqual([null, null, 12, 15, 15]);
+    expect(lower).toEqual([null, null, 7, 7, 7]);
+    expect(middle).toEqual([null, null, 9.5, 11, 11]);
+  });
+
+  it('output arrays have same length as input', () => {
+    const { upper, middle, lower } = computeDonchian([1, 2, 3], [0, 1, 2], 5);
+    expect(upper).toHaveLength(3);
+    expect(middle).toEqual([null, null, null]);
+    expect(lower).toHaveLength(3);
+  });
+});
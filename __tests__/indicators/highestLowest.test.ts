@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { computeHighest, computeLowest } from '@/indicators/highestLowest';
+
+describe('computeHighest', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeHighest([], 3)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period', () => {
+    expect(computeHighest([1, 2], 3)).toEqual([null, null]);
+  });
+
+  it('computes highest(3) of [1, 3, 2, 5, 4, 1]', () => {
+    expect(computeHighest([1, 3, 2, 5, 4, 1], 3)).toEqual([null, null, 3, 5, 5, 5]);
+  });
+
+  it('drops values once they leave the window', () => {
+    expect(computeHighest([9, 1, 2, 3], 2)).toEqual([null, 9, 2, 3]);
+  });
+
+  it('period 1 returns the data itself', () => {
+    expect(computeHighest([4, 2, 7], 1)).toEqual([4, 2, 7]);
+  });
+
+  it('default period is 20', () => {
+    const data = Array.from({ length: 21 }, (_, i) => i);
+    const result = computeHighest(data);
+    expect(result[18]).toBeNull();
+    expect(result[19]).toBe(19);
+    expect(result[20]).toBe(20);
+  });
+});
+
+describe('computeLowest', () => {
+  it('computes lowest(3) of [5, 3, 4, 1, 2, 6]', () => {
+    expect(computeLowest([5, 3, 4, 1, 2, 6], 3)).toEqual([null, null, 3, 1, 1, 1]);
+  });
+
+  it('drops values once they leave the window', () => {
+    expect(computeLowest([1, 9, 8, 7], 2)).toEqual([null, 1, 8, 7]);
+  });
+
+  it('output array has same length as input', () => {
+    expect(computeLowest([1, 2, 3, 4, 5], 2)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { computeHMA } from '@/indicators/hma';
+import { computeWMA } from '@/indicators/wma';
+
+describe('computeHMA', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeHMA([], 4)).toEqual([]);
+  });
+
+  it('returns correct warmup null count', () => {
+    const data = Array.from({ length: 20 }, (_, i) => 100 + (i % 4));
+    const result = computeHMA(data, 9);
+    // (9 - 1) + (3 - 1) = 10 nulls
+    expect(result.findIndex((v) => v !== null)).toBe(10);
+    expect(result).toHaveLength(20);
+  });
+
+  it('matches WMA(2 * WMA(n/2) - WMA(n), sqrt(n)) by hand', () => {
+    const data = [1, 3, 2, 6, 4, 8];
+    const half = computeWMA(data, 2);
+    const full = computeWMA(data, 4);
+    // Raw series defined from index 3; HMA(4) applies WMA(2) to it
+    const raw = [3, 4, 5].map((i) => 2 * (half[i] as number) - (full[i] as number));
+    const result = computeHMA(data, 4);
+
+    expect(result[3]).toBeNull();
+    expect(result[4]).toBeCloseTo((raw[0] + 2 * raw[1]) / 3, 10);
+    expect(result[5]).toBeCloseTo((raw[1] + 2 * raw[2]) / 3, 10);
+  });
+
+  it('tracks a straight line without lag', () => {
+    const data = Array.from({ length: 12 }, (_, i) => 10 + 2 * i);
+    const result = computeHMA(data, 4);
+    for (let i = 4; i < data.length; i++) {
+      expect(result[i]).toBeCloseTo(data[i], 10);
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { computeKAMA } from '@/indicators/kama';
+
+describe('computeKAMA', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeKAMA([], 10)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period + 1', () => {
+    expect(computeKAMA([1, 2, 3], 3)).toEqual([null, null, null]);
+  });
+
+  it('moves at the fast constant in a clean trend', () => {
+    // ER = 1 → SC = (2/3)^2 = 4/9; seeded with data[1] = 2
+    const result = computeKAMA([1, 2, 3, 4], 2, 2, 30);
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeNull();
+    expect(result[2]).toBeCloseTo(2 + (4 / 9) * (3 - 2), 10);
+    const k2 = 2 + 4 / 9;
+    expect(result[3]).toBeCloseTo(k2 + (4 / 9) * (4 - k2), 10);
+  });
+
+  it('barely moves in chop', () => {
+    // ER = 0 → SC = (2/31)^2
+    const result = computeKAMA([1, 2, 1, 2, 1], 2, 2, 30);
+    const sc = (2 / 31) ** 2;
+    expect(result[2]).toBeCloseTo(2 + sc * (1 - 2), 10);
+  });
+
+  it('stays put on flat data', () => {
+    expect(computeKAMA([5, 5, 5, 5], 2)).toEqual([null, null, 5, 5]);
+  });
+});
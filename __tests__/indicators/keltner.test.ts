@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { computeKeltner } from '@/indicators/keltner';
+import { computeEMA } from '@/indicators/ema';
+import { computeATR } from '@/indicators/atr';
+
+describe('computeKeltner', () => {
+  it('returns empty arrays for empty data', () => {
+    expect(computeKeltner([], [], [], 20, 2)).toEqual({ upper: [], middle: [], lower: [] });
+  });
+
+  it('middle is the EMA of closes; bands start with the ATR', () => {
+    const highs = [11, 12, 13, 12, 14, 15];
+    const lows = [9, 10, 11, 10, 12, 13];
+    const closes = [10, 11, 12, 11, 13, 14];
+    const { upper, middle, lower } = computeKeltner(highs, lows, closes, 3, 2);
+    const ema = computeEMA(closes, 3);
+    const atr = computeATR(highs, lows, closes, 3);
+
+    expect(middle).toEqual(ema);
+    // EMA starts at 2, ATR at 3
+    expect(upper[2]).toBeNull();
+    expect(lower[2]).toBeNull();
+    for (let i = 3; i < closes.length; i++) {
+      expect(upper[i]).toBeCloseTo((ema[i] as number) + 2 * (atr[i] as number), 10);
+      expect(lower[i]).toBeCloseTo((ema[i] as number) - 2 * (atr[i] as number), 10);
+    }
+  });
+
+  it('bands are symmetric around the middle', () => {
+    const closes = Array.from({ length: 30 }, (_, i) => 100 + 4 * Math.sin(i));
+    const highs = closes.map((c) => c + 2);
+    const lows = closes.map((c) => c - 2);
+    const { upper, middle, lower } = computeKeltner(highs, lows, closes, 10, 1.5);
+    for (let i = 10; i < closes.length; i++) {
+      expect((upper[i] as number) - (middle[i] as number))
+        .toBeCloseTo((middle[i] as number) - (lower[i] as number), 10);
+    }
+  });
+});
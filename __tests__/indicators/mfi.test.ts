@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { computeMFI } from '@/indicators/mfi';
+
+describe('computeMFI', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeMFI([], [], [], [], 14)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period + 1', () => {
+    const p = [1, 2, 3];
+    expect(computeMFI(p, p, p, [1, 1, 1], 3)).toEqual([null, null, null]);
+  });
+
+  it('computes hand-calculated MFI', () => {
+    // Typical prices (high = low = close): 10, 11, 10, 12
+    const tp = [10, 11, 10, 12];
+    const volumes = [100, 100, 200, 100];
+    const result = computeMFI(tp, tp, tp, volumes, 2);
+
+    // index 2: +1100 (11 * 100), -2000 (10 * 200) → 100 - 100 / (1 + 0.55)
+    // index 3: -2000, +1200 (12 * 100) → 100 - 100 / (1 + 0.6)
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeNull();
+    expect(result[2]).toBeCloseTo(100 - 100 / 1.55, 10);
+    expect(result[3]).toBeCloseTo(100 - 100 / 1.6, 10);
+  });
+
+  it('returns 100 when typical price only rises', () => {
+    const tp = [1, 2, 3, 4];
+    expect(computeMFI(tp, tp, tp, [1, 1, 1, 1], 2).slice(2)).toEqual([100, 100]);
+  });
+
+  it('returns 50 when typical price is flat', () => {
+    const tp = [5, 5, 5];
+    expect(computeMFI(tp, tp, tp, [1, 1, 1], 2)).toEqual([null, null, 50]);
+  });
+
+  it('ignores flow on unchanged bars', () => {
+    const tp = [10, 10, 9];
+    // Only a falling bar in the window → MFI 0
+    expect(computeMFI(tp, tp, tp, [1, 1, 1], 2)[2]).toBeCloseTo(0, 10);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { computeOBV } from '@/indicators/obv';
+
+describe('computeOBV', () => {
+  it('returns an empty array for empty data', () => {
+    expect(computeOBV([], [])).toEqual([]);
+  });
+
+  it('starts at 0 with no warmup', () => {
+    expect(computeOBV([100], [500])).toEqual([0]);
+  });
+
+  it('adds volume on up closes and subtracts it on down closes', () => {
+    const closes = [10, 11, 10.5, 10.5, 12];
+    const volumes = [100, 200, 150, 300, 50];
+    // 0, +200, -150, unchanged, +50
+    expect(computeOBV(closes, volumes)).toEqual([0, 200, 50, 50, 100]);
+  });
+});
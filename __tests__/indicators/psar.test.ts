@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { computePSAR } from '@/indicators/psar';
+
+describe('computePSAR', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computePSAR([], [], [])).toEqual([]);
+  });
+
+  it('returns a single null for one candle', () => {
+    expect(computePSAR([10], [9], [9.5])).toEqual([null]);
+  });
+
+  it('trails below a rising market, accelerating on new highs', () => {
+    const highs = [10, 11, 12, 13];
+    const lows = [9, 10, 11, 12];
+    const closes = [9.5, 10.5, 11.5, 12.5];
+    const result = computePSAR(highs, lows, closes, 0.02, 0.2);
+
+    // Start long: SAR 9, EP 10, af 0.02
+    // 1: 9 + 0.02 * 1 = 9.02 (capped by low[0] = 9) → 9; new high 11, af 0.04
+    // 2: 9 + 0.04 * 2 = 9.08, min(low[1], low[0]) = 9 → 9; new high 12, af 0.06
+    // 3: 9 + 0.06 * 3 = 9.18, min(low[2], low[1]) = 10 → 9.18
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeCloseTo(9, 10);
+    expect(result[2]).toBeCloseTo(9, 10);
+    expect(result[3]).toBeCloseTo(9.18, 10);
+  });
+
+  it('reverses to the extreme point when a low pierces the SAR', () => {
+    const highs = [10, 11, 12, 9];
+    const lows = [9, 10, 11, 7];
+    const closes = [9.5, 10.5, 11.5, 8];
+    const result = computePSAR(highs, lows, closes, 0.02, 0.2);
+
+    // Bar 3's low 7 falls under the SAR → flips short at the extreme high 12
+    expect(result[3]).toBeCloseTo(12, 10);
+    expect(result[3]!).toBeGreaterThan(highs[3]);
+  });
+
+  it('caps the acceleration factor at maxStep', () => {
+    const n = 30;
+    const highs = Array.from({ length: n }, (_, i) => 11 + i * 2);
+    const lows = Array.from({ length: n }, (_, i) => 9 + i * 2);
+    const closes = Array.from({ length: n }, (_, i) => 10 + i * 2);
+    const result = computePSAR(highs, lows, closes, 0.1, 0.2);
+
+    // With af capped at 0.2 the SAR closes 20% of its gap to the extreme high each bar:
+    // gap[i] = 0.8 * (gap[i - 1] + 2), where the extreme rises by 2 per bar
+    const gap = (i: number) => highs[i - 1] - (result[i] as number);
+    expect(gap(n - 1)).toBeCloseTo(0.8 * (gap(n - 2) + 2), 10);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { computeRelativeVolume } from '@/indicators/relativeVolume';
+
+describe('computeRelativeVolume', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeRelativeVolume([], 20)).toEqual([]);
+  });
+
+  it('divides volume by its SMA, including the current bar', () => {
+    const result = computeRelativeVolume([100, 100, 100, 300], 2);
+    // index 3: 300 / ((100 + 300) / 2) = 1.5
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeCloseTo(1, 10);
+    expect(result[2]).toBeCloseTo(1, 10);
+    expect(result[3]).toBeCloseTo(1.5, 10);
+  });
+
+  it('returns null when the average volume is zero', () => {
+    expect(computeRelativeVolume([0, 0, 5], 2)).toEqual([null, null, 2]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { computeStochastic } from '@/indicators/stochastic';
+
+describe('computeStochastic', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeStochastic([], [], [], 3, 2)).toEqual({ k: [], d: [] });
+  });
+
+  it('returns all nulls when data is shorter than period', () => {
+    const result = computeStochastic([10, 11], [9, 10], [9.5, 10.5], 3, 2);
+    expect(result.k).toEqual([null, null]);
+    expect(result.d).toEqual([null, null]);
+  });
+
+  it('computes hand-calculated %K and %D', () => {
+    const highs = [10, 12, 11, 13, 14];
+    const lows = [8, 9, 9, 10, 11];
+    const closes = [9, 11, 10, 12, 13];
+    const { k, d } = computeStochastic(highs, lows, closes, 3, 2);
+
+    // index 2: HH 12, LL 8 → (10 - 8) / 4 = 50
+    // index 3: HH 13, LL 9 → (12 - 9) / 4 = 75
+    // index 4: HH 14, LL 9 → (13 - 9) / 5 = 80
+    expect(k[0]).toBeNull();
+    expect(k[1]).toBeNull();
+    expect(k[2]).toBeCloseTo(50, 10);
+    expect(k[3]).toBeCloseTo(75, 10);
+    expect(k[4]).toBeCloseTo(80, 10);
+
+    // %D = SMA(2) of %K, first value one bar after %K starts
+    expect(d[2]).toBeNull();
+    expect(d[3]).toBeCloseTo(62.5, 10);
+    expect(d[4]).toBeCloseTo(77.5, 10);
+  });
+
+  it('is 100 at the top of the range and 0 at the bottom', () => {
+    const { k } = computeStochastic([10, 11, 12], [5, 6, 7], [6, 7, 12], 2, 1);
+    expect(k[2]).toBeCloseTo(100, 10);
+    const low = computeStochastic([10, 11, 12], [5, 6, 7], [6, 7, 6], 2, 1);
+    expect(low.k[2]).toBeCloseTo(0, 10);
+  });
+
+  it('returns 50 for a flat range', () => {
+    const { k } = computeStochastic([10, 10, 10], [10, 10, 10], [10, 10, 10], 2, 1);
+    expect(k).toEqual([null, 50, 50]);
+  });
+
+  it('output arrays have same length as input', () => {
+    const data = [1, 2, 3, 4, 5, 6];
+    const { k, d } = computeStochastic(data, data, data, 3, 3);
+    expect(k).toHaveLength(6);
+    expect(d).toHaveLength(6);
+  });
+});
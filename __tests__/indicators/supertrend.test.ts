@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { computeSupertrend } from '@/indicators/supertrend';
+import { computeATR } from '@/indicators/atr';
+
+describe('computeSupertrend', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeSupertrend([], [], [])).toEqual({ line: [], direction: [] });
+  });
+
+  it('returns all nulls when data is shorter than period + 1', () => {
+    const { line } = computeSupertrend([10, 11], [9, 10], [9.5, 10.5], 2, 3);
+    expect(line).toEqual([null, null]);
+  });
+
+  it('starts on the ATR warmup with the band on the close side of the midpoint', () => {
+    const highs = [10, 12, 11, 13];
+    const lows = [8, 9, 9, 10];
+    const closes = [9, 11, 10, 12.5];
+    const { line, direction } = computeSupertrend(highs, lows, closes, 2, 1);
+    const atr = computeATR(highs, lows, closes, 2);
+
+    expect(line[1]).toBeNull();
+    // Bar 2: mid 10, close 10 → uptrend, line = lower band = 10 - ATR
+    expect(direction[2]).toBe(1);
+    expect(line[2]).toBeCloseTo(10 - (atr[2] as number), 10);
+  });
+
+  it('lower band only ratchets up during an uptrend', () => {
+    const n = 30;
+    const highs = Array.from({ length: n }, (_, i) => 101 + i + (i % 3));
+    const lows = Array.from({ length: n }, (_, i) => 99 + i - (i % 3));
+    const closes = Array.from({ length: n }, (_, i) => 100 + i);
+    const { line, direction } = computeSupertrend(highs, lows, closes, 5, 2);
+
+    for (let i = 6; i < n; i++) {
+      expect(direction[i]).toBe(1);
+      expect(line[i]!).toBeGreaterThanOrEqual(line[i - 1]!);
+    }
+  });
+
+  it('flips when the close breaks the opposite band, and close crosses the line exactly there', () => {
+    const closes = [
+      ...Array.from({ length: 15 }, (_, i) => 100 + i * 2),
+      ...Array.from({ length: 15 }, (_, i) => 128 - i * 4),
+      ...Array.from({ length: 15 }, (_, i) => 72 + i * 4),
+    ];
+    const highs = closes.map((c) => c + 1);
+    const lows = closes.map((c) => c - 1);
+    const { line, direction } = computeSupertrend(highs, lows, closes, 5, 2);
+
+    const flips: number[] = [];
+    const crosses: number[] = [];
+    for (let i = 6; i < closes.length; i++) {
+      if (direction[i] !== direction[i - 1]) flips.push(i);
+      const prevAbove = closes[i - 1] > (line[i - 1] as number);
+      const nowAbove = closes[i] > (line[i] as number);
+      if (prevAbove !== nowAbove) crosses.push(i);
+    }
+
+    expect(flips.length).toBeGreaterThanOrEqual(2);
+    expect(crosses).toEqual(flips);
+  });
+});
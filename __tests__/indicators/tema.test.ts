@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { computeTEMA } from '@/indicators/tema';
+import { computeEMA } from '@/indicators/ema';
+
+describe('computeTEMA', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeTEMA([], 3)).toEqual([]);
+  });
+
+  it('returns correct warmup null count', () => {
+    const data = Array.from({ length: 20 }, (_, i) => 100 + (i % 5));
+    const result = computeTEMA(data, 4);
+    // 3 * (4 - 1) = 9 nulls
+    expect(result.findIndex((v) => v !== null)).toBe(9);
+    expect(result).toHaveLength(20);
+  });
+
+  it('combines three EMA passes as 3 * e1 - 3 * e2 + e3', () => {
+    const data = [5, 7, 6, 9, 8, 12, 10];
+    const e1 = computeEMA(data, 2);
+    const e2 = computeEMA(e1.slice(1) as number[], 2);
+    const e3 = computeEMA(e2.slice(1) as number[], 2);
+    const result = computeTEMA(data, 2);
+
+    // e1 starts at 1, e2 at 2, e3 at 3
+    expect(result[2]).toBeNull();
+    expect(result[3]).toBeCloseTo(3 * (e1[3] as number) - 3 * (e2[2] as number) + (e3[1] as number), 10);
+    expect(result[6]).toBeCloseTo(3 * (e1[6] as number) - 3 * (e2[5] as number) + (e3[4] as number), 10);
+  });
+
+  it('tracks a straight line without lag', () => {
+    const data = Array.from({ length: 15 }, (_, i) => 20 - i);
+    const result = computeTEMA(data, 3);
+    for (let i = 6; i < data.length; i++) {
+      expect(result[i]).toBeCloseTo(data[i], 10);
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { computeVWAP } from '@/indicators/vwap';
+
+describe('computeVWAP', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeVWAP([], [], [], [], 20)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period', () => {
+    const p = [10, 11];
+    expect(computeVWAP(p, p, p, [1, 1], 3)).toEqual([null, null]);
+  });
+
+  it('weights typical prices by volume over a rolling window', () => {
+    // Typical prices (high = low = close): 10, 20, 30
+    const tp = [10, 20, 30];
+    const volumes = [1, 3, 1];
+    const result = computeVWAP(tp, tp, tp, volumes, 2);
+
+    // index 1: (10 * 1 + 20 * 3) / 4 = 17.5
+    // index 2: (20 * 3 + 30 * 1) / 4 = 22.5
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeCloseTo(17.5, 10);
+    expect(result[2]).toBeCloseTo(22.5, 10);
+  });
+
+  it('uses (high + low + close) / 3 as the typical price', () => {
+    const result = computeVWAP([12], [6], [9], [5], 1);
+    expect(result[0]).toBeCloseTo(9, 10);
+  });
+
+  it('returns null for a window without volume', () => {
+    const p = [10, 11, 12];
+    expect(computeVWAP(p, p, p, [0, 0, 4], 2)).toEqual([null, null, 12]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { computeWilliamsR } from '@/indicators/williamsR';
+
+describe('computeWilliamsR', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeWilliamsR([], [], [], 14)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period', () => {
+    expect(computeWilliamsR([10, 11], [9, 10], [9.5, 10.5], 3)).toEqual([null, null]);
+  });
+
+  it('computes hand-calculated %R', () => {
+    const highs = [10, 12, 11, 13];
+    const lows = [8, 9, 9, 10];
+    const closes = [9, 11, 10, 12];
+    const result = computeWilliamsR(highs, lows, closes, 3);
+
+    // index 2: HH 12, LL 8 → -100 * (12 - 10) / 4 = -50
+    // index 3: HH 13, LL 9 → -100 * (13 - 12) / 4 = -25
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeNull();
+    expect(result[2]).toBeCloseTo(-50, 10);
+    expect(result[3]).toBeCloseTo(-25, 10);
+  });
+
+  it('is 0 at the high and -100 at the low', () => {
+    expect(computeWilliamsR([10, 12], [8, 9], [9, 12], 2)[1]).toBeCloseTo(0, 10);
+    expect(computeWilliamsR([10, 12], [8, 9], [9, 8], 2)[1]).toBeCloseTo(-100, 10);
+  });
+
+  it('returns -50 for a flat range', () => {
+    expect(computeWilliamsR([5, 5], [5, 5], [5, 5], 2)).toEqual([null, -50]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { computeWMA } from '@/indicators/wma';
+
+describe('computeWMA', () => {
+  it('returns all nulls for empty data', () => {
+    expect(computeWMA([], 3)).toEqual([]);
+  });
+
+  it('returns all nulls when data is shorter than period', () => {
+    expect(computeWMA([1, 2], 3)).toEqual([null, null]);
+  });
+
+  it('computes WMA(3) of [1, 2, 3, 4, 5]', () => {
+    const result = computeWMA([1, 2, 3, 4, 5], 3);
+    // index 2: (1*1 + 2*2 + 3*3) / 6 = 14/6
+    // index 3: (2*1 + 3*2 + 4*3) / 6 = 20/6
+    // index 4: (3*1 + 4*2 + 5*3) / 6 = 26/6
+    expect(result[0]).toBeNull();
+    expect(result[1]).toBeNull();
+    expect(result[2]).toBeCloseTo(14 / 6, 10);
+    expect(result[3]).toBeCloseTo(20 / 6, 10);
+    expect(result[4]).toBeCloseTo(26 / 6, 10);
+  });
+
+  it('weights the newest value most', () => {
+    const result = computeWMA([10, 10, 40], 3);
+    // (10 + 20 + 120) / 6 = 25, vs SMA 20
+    expect(result[2]).toBeCloseTo(25, 10);
+  });
+
+  it('period 1 returns the data itself', () => {
+    expect(computeWMA([4, 2, 7], 1)).toEqual([4, 2, 7]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { daysBetween, formatTimestamp, inDateRange, parseTimestamp, toChartTime } from '@/lib/time';
+
+describe('candle timestamps', () => {
+  it('measures whole days between dates and fractional days between intraday bars', () => {
+    expect(daysBetween('2024-01-01', '2024-01-31')).toBe(30);
+    expect(daysBetween('2024-01-01T00:00:00Z', '2024-01-01T06:00:00Z')).toBe(0.25);
+    expect(daysBetween('2024-01-01', '2024-01-02T12:00:00Z')).toBe(1.5);
+  });
+
+  it('treats date-only stamps as UTC midnight', () => {
+    expect(parseTimestamp('2024-01-01')).toBe(parseTimestamp('2024-01-01T00:00:00Z'));
+    expect(formatTimestamp(parseTimestamp('2024-03-05T20:00:00Z'))).toBe('2024-03-05T20:00:00Z');
+  });
+
+  it('includes every intraday bar of the end date in the range', () => {
+    expect(inDateRange('2024-01-31T20:00:00Z', '2024-01-01', '2024-01-31')).toBe(true);
+    expect(inDateRange('2024-02-01T00:00:00Z', '2024-01-01', '2024-01-31')).toBe(false);
+    expect(inDateRange('2024-01-31', '2024-01-01', '2024-01-31')).toBe(true);
+  });
+
+  it('gives charts business-day strings for daily bars and UTC seconds for intraday', () => {
+    expect(toChartTime('2024-01-01')).toBe('2024-01-01');
+    expect(toChartTime('2024-01-01T04:00:00Z')).toBe(1704081600);
+  });
+});
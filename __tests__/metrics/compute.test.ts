@@ -31,6 +31,7 @@ function addDays(base: string, days: number): string {
 /** Create a minimal trade. */
 function makeTrade(overrides: Partial<Trade> & { id: number }): Trade {
   return {
+    side: 'long',
     entryDate: '2023-01-02',
     entryPrice: 100,
     exitDate: '2023-01-12',
@@ -365,6 +366,64 @@ describe('computeMetrics', () => {
     });
   });
 
+  // =========================================================================
+  // Partial closes
+  // =========================================================================
+  describe('partial closes', () => {
+    // One position closed in two fills: half at +10% after 5 days, half at -2% after 12 days
+    const trades = [
+      makeTrade({ id: 1, positionId: 1, pnlAbs: 500, pnlPct: 10, positionSize: 5000, holdingDays: 5 }),
+      makeTrade({ id: 2, positionId: 1, pnlAbs: -100, pnlPct: -2, positionSize: 5000, holdingDays: 12 }),
+      makeTrade({ id: 3, positionId: 2, pnlAbs: -200, pnlPct: -4, positionSize: 5000, holdingDays: 3 }),
+    ];
+    const equity = makeEquityCurve([10000, 10100, 10200]);
+
+    it('counts fills of the same position as one trade', () => {
+      const m = computeMetrics(trades, equity, 10000, 100);
+      expect(m.totalTrades).toBe(2);
+      expect(m.winRate).toBeCloseTo(50, 5);
+    });
+
+    it('computes round-trip pnlPct on the combined cost basis', () => {
+      const m = computeMetrics(trades, equity, 10000, 100);
+      // (500 - 100) / 10000 = +4%
+      expect(m.bestTradePct).toBeCloseTo(4, 5);
+      expect(m.worstTradePct).toBeCloseTo(-4, 5);
+    });
+
+    it('does not double count holding time for partial fills', () => {
+      const m = computeMetrics(trades, equity, 10000, 100);
+      // 12 days (position 1, through its last fill) + 3 days (position 2)
+      expect(m.exposureTimePct).toBeCloseTo(15, 5);
+      expect(m.avgHoldingDays).toBeCloseTo(7.5, 5);
+    });
+  });
+
+  // =========================================================================
+  // Leverage
+  // =========================================================================
+  describe('leverage', () => {
+    it('counts liquidated fills', () => {
+      const trades = [
+        makeTrade({ id: 1, exitReason: 'Liquidated', pnlAbs: -1000, pnlPct: -100 }),
+        makeTrade({ id: 2 }),
+      ];
+      const m = computeMetrics(trades, makeEquityCurve([10000, 9000]), 10000, 2);
+      expect(m.liquidations).toBe(1);
+    });
+
+    it('takes max effective leverage as gross exposure over equity', () => {
+      const equity = makeEquityCurve([10000, 8000, 12000]);
+      const m = computeMetrics([], equity, 10000, 3, [30000, 28000, 30000]);
+      expect(m.maxEffectiveLeverage).toBeCloseTo(3.5, 5);
+    });
+
+    it('is 0 without an exposure series', () => {
+      const m = computeMetrics([], makeEquityCurve([10000, 10000]), 10000, 2);
+      expect(m.maxEffectiveLeverage).toBe(0);
+    });
+  });
+
   // =========================================================================
   // Hand-calculated Sharpe and Sortino
   // =========================================================================
@@ -418,6 +477,25 @@ describe('computeMetrics', () => {
       expect(m.sortinoRatio).toBeCloseTo(expectedSortino, 6);
     });
   });
+
+  describe('timeframe', () => {
+    const equity = makeEquityCurve([100, 102, 101, 104, 103]);
+
+    it('annualizes weekly bar returns with 52 periods per year', () => {
+      const daily = computeMetrics([], equity, 100, 5);
+      const weekly = computeMetrics([], equity, 100, 5, [], '1W');
+      const ratio = Math.sqrt(365 / 7) / Math.sqrt(365);
+      expect(weekly.sharpeRatio).toBeCloseTo(daily.sharpeRatio * ratio, 6);
+      expect(weekly.sortinoRatio).toBeCloseTo(daily.sortinoRatio * ratio, 6);
+    });
+
+    it('measures exposure in calendar days across weekly bars', () => {
+      // 10 weekly bars = 70 days; one trade held 35 days → 50%
+      const trades = [makeTrade({ id: 1, holdingDays: 35 })];
+      const m = computeMetrics(trades, equity, 100, 10, [], '1W');
+      expect(m.exposureTimePct).toBeCloseTo(50, 6);
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -570,5 +648,22 @@ describe('buildAuditInfo', () => {
     expect(audit.riskFreeRate).toBe(0);
     expect(audit.benchmarkModel).toContain('Buy & Hold');
     expect(audit.positionModel).toContain('Long-only');
+    expect(audit.timeframe).toBe('1D');
+  });
+
+  it('annualizes by bars per year for weekly and monthly timeframes', () => {
+    const base = {
+      feeBps: 10,
+      slippageBps: 5,
+      warmupCandles: 20,
+      startDate: '2020-01-01',
+      endDate: '2023-12-31',
+      totalCandles: 209,
+      tradableCandles: 189,
+    };
+    const weekly = buildAuditInfo({ ...base, timeframe: '1W' });
+    expect(weekly.timeframe).toBe('1W');
+    expect(weekly.annualizationFactor).toBeCloseTo(365 / 7, 6);
+    expect(buildAuditInfo({ ...base, timeframe: '1M' }).annualizationFactor).toBeCloseTo(12, 1);
   });
 });
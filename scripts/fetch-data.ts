@@ -1,13 +1,20 @@
 /**
- * Fetch historical daily OHLCV data from Binance public API.
+ * Fetch historical OHLCV data from Binance public API.
  *
  * Assets: BTC, ETH, SOL, BNB, XRP, DOGE, ADA, AVAX
- * Interval: 1d
- * Range: 2020-01-01 to present
+ * Interval: 1d (default), 4h or 1h
+ * Range: 2020-01-01 (or --since) to present
  *
- * Output: public/data/{ASSET}_1D.json
+ * Output: public/data/{ASSET}_1D.json, {ASSET}_4H.json or {ASSET}_1H.json
+ * Daily candles are stamped "YYYY-MM-DD"; intraday candles carry the bar's
+ * UTC open time as "YYYY-MM-DDTHH:mm:ssZ".
  *
- * Usage: npx tsx scripts/fetch-data.ts
+ * With --funding, fetches USDT-perp funding rates instead and writes
+ * public/data/{ASSET}_FUNDING.json: one { t: "YYYY-MM-DD", bps } point per day,
+ * the sum of that day's funding payments in bps of notional (positive = longs pay).
+ *
+ * Usage: npx tsx scripts/fetch-data.ts [--interval 4h] [--since 2023-01-01]
+ *        npx tsx scripts/fetch-data.ts --funding [--since 2023-01-01]
  */
 
 import { writeFileSync, mkdirSync } from "fs";
@@ -18,10 +25,14 @@ import { join } from "path";
 // ---------------------------------------------------------------------------
 
 const ASSETS = ["BTC", "ETH", "SOL", "BNB", "XRP", "DOGE", "ADA", "AVAX"];
-const INTERVAL = "1d";
+const INTERVALS: Record<string, string> = { "1d": "1D", "4h": "4H", "1h": "1H" };
+const INTERVAL = argValue("--interval") ?? "1d";
+const FUNDING = process.argv.includes("--funding");
+const SINCE = argValue("--since") ?? "2020-01-01";
 const LIMIT = 1000; // Binance max per request
-const START_MS = new Date("2020-01-01T00:00:00Z").getTime();
+const START_MS = new Date(`${SINCE}T00:00:00Z`).getTime();
 const BASE_URL = "https://api.binance.com/api/v3/klines";
+const FUNDING_URL = "https://fapi.binance.com/fapi/v1/fundingRate";
 const OUT_DIR = join(__dirname, "..", "public", "data");
 const DELAY_MS = 350; // pause between HTTP requests to avoid rate-limits
 
@@ -30,7 +41,7 @@ const DELAY_MS = 350; // pause between HTTP requests to avoid rate-limits
 // ---------------------------------------------------------------------------
 
 interface Candle {
-  t: string; // "YYYY-MM-DD"
+  t: string; // "YYYY-MM-DD", or "YYYY-MM-DDTHH:mm:ssZ" for intraday
   o: number;
   h: number;
   l: number;
@@ -38,6 +49,16 @@ interface Candle {
   v: number;
 }
 
+interface FundingPoint {
+  t: string; // "YYYY-MM-DD"
+  bps: number; // daily funding, bps of notional
+}
+
+interface FundingRateRow {
+  fundingTime: number;
+  fundingRate: string;
+}
+
 // Binance kline tuple indices
 // [0] openTime, [1] open, [2] high, [3] low, [4] close, [5] volume,
 // [6] closeTime, ...
@@ -46,6 +67,11 @@ interface Candle {
 // Helpers
 // ---------------------------------------------------------------------------
 
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
@@ -58,6 +84,12 @@ function formatDate(timestampMs: number): string {
   return `${yyyy}-${mm}-${dd}`;
 }
 
+function formatTimestamp(timestampMs: number): string {
+  return INTERVAL === "1d"
+    ? formatDate(timestampMs)
+    : new Date(timestampMs).toISOString().slice(0, 19) + "Z";
+}
+
 // ---------------------------------------------------------------------------
 // Fetch all klines for one asset (paginated)
 // ---------------------------------------------------------------------------
@@ -84,7 +116,7 @@ async function fetchAsset(asset: string): Promise<Candle[]> {
 
     for (const k of klines) {
       candles.push({
-        t: formatDate(k[0] as number),
+        t: formatTimestamp(k[0] as number),
         o: parseFloat(k[1] as string),
         h: parseFloat(k[2] as string),
         l: parseFloat(k[3] as string),
@@ -106,20 +138,88 @@ async function fetchAsset(asset: string): Promise<Candle[]> {
   return candles;
 }
 
+// ---------------------------------------------------------------------------
+// Fetch funding rates for one asset (paginated), summed per UTC day
+// ---------------------------------------------------------------------------
+
+async function fetchFunding(asset: string): Promise<FundingPoint[]> {
+  const symbol = `${asset}USDT`;
+  const byDay = new Map<string, number>();
+  let startTime = START_MS;
+
+  while (true) {
+    const url = `${FUNDING_URL}?symbol=${symbol}&limit=${LIMIT}&startTime=${startTime}`;
+    const res = await fetch(url);
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(
+        `Binance API error for ${symbol} funding: ${res.status} ${res.statusText} – ${body}`
+      );
+    }
+
+    const rows: FundingRateRow[] = await res.json();
+
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const day = formatDate(row.fundingTime);
+      byDay.set(day, (byDay.get(day) ?? 0) + parseFloat(row.fundingRate) * 10_000);
+    }
+
+    startTime = rows[rows.length - 1].fundingTime + 1;
+
+    if (rows.length < LIMIT) break;
+
+    await sleep(DELAY_MS);
+  }
+
+  return Array.from(byDay, ([t, bps]) => ({ t, bps }));
+}
+
+async function fetchAllFunding() {
+  console.log(`Fetching funding rates for ${ASSETS.length} assets since ${SINCE} …`);
+  console.log(`Output directory: ${OUT_DIR}\n`);
+
+  for (const asset of ASSETS) {
+    process.stdout.write(`  ${asset} … `);
+    const points = await fetchFunding(asset);
+    writeFileSync(join(OUT_DIR, `${asset}_FUNDING.json`), JSON.stringify(points, null, 2));
+    console.log(`${points.length} days  (${points[0]?.t} → ${points[points.length - 1]?.t})`);
+
+    await sleep(DELAY_MS);
+  }
+
+  console.log("\nDone.");
+}
+
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
 
 async function main() {
+  const suffix = INTERVALS[INTERVAL];
+  if (!suffix) {
+    throw new Error(`Unsupported interval "${INTERVAL}" (use ${Object.keys(INTERVALS).join(", ")})`);
+  }
+  if (Number.isNaN(START_MS)) {
+    throw new Error(`Invalid --since date "${SINCE}" (use YYYY-MM-DD)`);
+  }
+
   mkdirSync(OUT_DIR, { recursive: true });
 
-  console.log(`Fetching daily OHLCV data for ${ASSETS.length} assets …`);
+  if (FUNDING) {
+    await fetchAllFunding();
+    return;
+  }
+
+  console.log(`Fetching ${INTERVAL} OHLCV data for ${ASSETS.length} assets since ${SINCE} …`);
   console.log(`Output directory: ${OUT_DIR}\n`);
 
   for (const asset of ASSETS) {
     process.stdout.write(`  ${asset} … `);
     const candles = await fetchAsset(asset);
-    const outPath = join(OUT_DIR, `${asset}_1D.json`);
+    const outPath = join(OUT_DIR, `${asset}_${suffix}.json`);
     writeFileSync(outPath, JSON.stringify(candles, null, 2));
     console.log(
       `${candles.length} candles  (${candles[0]?.t} → ${candles[candles.length - 1]?.t})`
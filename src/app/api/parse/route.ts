@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { parseStrategy } from '@/lib/parser';
+import { TimeframeSchema } from '@/types/strategy';
 import { checkRateLimit } from '@/lib/rate-limit';
 import { logApiRequest, maskIp } from '@/lib/api-logger';
 
@@ -9,7 +10,7 @@ export const maxDuration = 10;
 const RequestSchema = z.object({
   prompt: z.string().min(1),
   asset: z.string(),
-  timeframe: z.literal('1D'),
+  timeframe: TimeframeSchema,
 });
 
 function getClientIp(request: NextRequest): string {
@@ -81,7 +82,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await parseStrategy(parsed.data.prompt);
+    const result = await parseStrategy(parsed.data.prompt, parsed.data.timeframe);
 
     logApiRequest({
       timestamp: new Date().toISOString(),
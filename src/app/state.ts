@@ -74,6 +74,13 @@ export function appReducer(state: AppState, action: AppAction): AppState {
           initialCapital: action.result.config.initialCapital,
           feeBps: action.result.config.feeBps,
           slippageBps: action.result.config.slippageBps,
+          timeframe: action.result.config.timeframe,
+          leverage: action.result.config.leverage,
+          fillModel: action.result.config.fillModel,
+          carryBpsPerDay: action.result.config.carryCost?.type === 'fixed'
+            ? action.result.config.carryCost.bpsPerDay
+            : undefined,
+          carrySource: action.result.config.carryCost?.type === 'series' ? 'funding' : undefined,
         },
         phase: 'results',
         error: null,
@@ -0,0 +1,74 @@
+'use client';
+
+import { memo } from 'react';
+import type { AssetBreakdown } from '@/types/results';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency, formatPercent } from '@/lib/utils';
+
+interface AssetBreakdownTableProps {
+  breakdown: AssetBreakdown[];
+}
+
+function AssetBreakdownTableInner({ breakdown }: AssetBreakdownTableProps) {
+  return (
+    <div className="rounded-lg border border-vt-line/50 bg-vt-bg2/30 overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader className="bg-vt-bg3/90">
+            <TableRow className="border-b-vt-line/50 hover:bg-transparent">
+              <TableHead className="text-slate-400">Asset</TableHead>
+              <TableHead className="text-slate-400 text-right">Trades</TableHead>
+              <TableHead className="text-slate-400 text-right">Win Rate</TableHead>
+              <TableHead className="text-slate-400 text-right">P&amp;L $</TableHead>
+              <TableHead className="text-slate-400 text-right">Contribution</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {breakdown.map((row) => {
+              const pnlColor =
+                row.pnlAbs > 0
+                  ? 'text-emerald-400'
+                  : row.pnlAbs < 0
+                    ? 'text-red-400'
+                    : 'text-slate-400';
+
+              return (
+                <TableRow
+                  key={row.asset}
+                  className="border-b-vt-line/30 hover:bg-vt-bg3/30 even:bg-vt-bg3/15"
+                >
+                  <TableCell className="text-slate-300 text-xs font-medium">{row.asset}</TableCell>
+                  <TableCell className="text-slate-300 text-xs text-right tabular-nums">
+                    {row.totalTrades}
+                  </TableCell>
+                  <TableCell className="text-slate-300 text-xs text-right font-mono tabular-nums">
+                    {row.totalTrades > 0 ? `${row.winRate.toFixed(1)}%` : '—'}
+                  </TableCell>
+                  <TableCell
+                    className={`text-xs text-right font-mono tabular-nums font-medium ${pnlColor}`}
+                  >
+                    {formatCurrency(row.pnlAbs)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-xs text-right font-mono tabular-nums font-medium ${pnlColor}`}
+                  >
+                    {formatPercent(row.contributionPct)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export const AssetBreakdownTable = memo(AssetBreakdownTableInner);
@@ -2,8 +2,9 @@
 
 import { useState } from 'react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import type { AuditInfo } from '@/types/results';
+import type { Timeframe } from '@/types/strategy';
 
 interface AuditPanelProps {
   audit: AuditInfo;
@@ -14,25 +15,68 @@ interface AuditRow {
   value: string;
 }
 
+const BAR_NAMES: Record<Timeframe, string> = {
+  '1H': 'hourly',
+  '4H': '4-hour',
+  '1D': 'daily',
+  '1W': 'weekly',
+  '1M': 'monthly',
+};
+
 function formatBps(bps: number): string {
   const pct = bps / 100;
   return `${bps} bps (${pct.toFixed(pct % 1 === 0 ? 0 : 1)}%)`;
 }
 
 function buildRows(audit: AuditInfo): AuditRow[] {
-  return [
+  const rows: AuditRow[] = [
     { label: 'Execution Model', value: audit.executionModel },
     { label: 'Fee', value: formatBps(audit.feeBps) },
     { label: 'Slippage', value: formatBps(audit.slippageBps) },
-    { label: 'Warmup', value: `${audit.warmupCandles} candles skipped` },
+    {
+      label: 'Warmup',
+      value: `${audit.warmupCandles} ${BAR_NAMES[audit.timeframe ?? '1D']} candles skipped`,
+    },
     { label: 'Data Range', value: audit.dataRange },
     { label: 'Total Candles', value: audit.totalCandles.toLocaleString() },
     { label: 'Tradable Candles', value: audit.tradableCandles.toLocaleString() },
-    { label: 'Annualization Factor', value: String(audit.annualizationFactor) },
+    { label: 'Annualization Factor', value: String(Number(audit.annualizationFactor.toFixed(2))) },
     { label: 'Risk-Free Rate', value: `${audit.riskFreeRate}%` },
     { label: 'Benchmark Model', value: audit.benchmarkModel },
     { label: 'Position Model', value: audit.positionModel },
   ];
+  if (audit.leverageModel) {
+    rows.push({ label: 'Leverage', value: audit.leverageModel });
+  }
+  if (audit.borrowCostTotal !== undefined) {
+    rows.push({ label: 'Borrow Cost Paid', value: formatCurrency(audit.borrowCostTotal) });
+  }
+  if (audit.reentryModel) {
+    rows.push({ label: 'Re-entry Rules', value: audit.reentryModel });
+  }
+  if (audit.skippedSignals) {
+    const { cooldown, tradeCap } = audit.skippedSignals;
+    rows.push({
+      label: 'Skipped Signals',
+      value: `${cooldown + tradeCap} (${cooldown} cooldown, ${tradeCap} trade cap)`,
+    });
+  }
+  if (audit.entryOrders) {
+    rows.push({ label: 'Entry Orders', value: audit.entryOrders });
+  }
+  if (audit.funding) {
+    rows.push({ label: 'Funding / Carry', value: audit.funding });
+  }
+  if (audit.sizingModel) {
+    rows.push({ label: 'Position Sizing', value: audit.sizingModel });
+  }
+  if (audit.rebalanceCount !== undefined) {
+    rows.push({ label: 'Rebalances', value: audit.rebalanceCount.toLocaleString() });
+  }
+  if (audit.turnoverPct !== undefined) {
+    rows.push({ label: 'Turnover', value: `${audit.turnoverPct.toFixed(1)}% of average equity` });
+  }
+  return rows;
 }
 
 export function AuditPanel({ audit }: AuditPanelProps) {
@@ -1,13 +1,15 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import type { AssetSymbol } from '@/types/strategy';
+import type { AssetSymbol, Timeframe } from '@/types/strategy';
 import type { Candle, Trade } from '@/types/results';
 import { loadCandles, getCachedCandles } from '@/data/loader';
 import { PriceChart } from '@/components/PriceChart';
+import { inDateRange } from '@/lib/time';
 
 export function ChartWithData({
   asset,
+  timeframe = '1D',
   startDate,
   endDate,
   trades,
@@ -15,6 +17,7 @@ export function ChartWithData({
   lockZoom,
 }: {
   asset: AssetSymbol;
+  timeframe?: Timeframe;
   startDate: string;
   endDate: string;
   trades: Trade[];
@@ -23,13 +26,13 @@ export function ChartWithData({
 }) {
   const [candles, setCandles] = useState<Candle[]>(() => {
     // Synchronous cache check — avoids loading flash for cached assets
-    const cached = getCachedCandles(asset);
+    const cached = getCachedCandles(asset, timeframe);
     if (cached) {
-      return cached.filter((c) => c.t >= startDate && c.t <= endDate);
+      return cached.filter((c) => inDateRange(c.t, startDate, endDate));
     }
     return [];
   });
-  const [loading, setLoading] = useState(() => !getCachedCandles(asset));
+  const [loading, setLoading] = useState(() => !getCachedCandles(asset, timeframe));
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -37,9 +40,9 @@ export function ChartWithData({
     setError(null);
 
     // Sync path: if data is already cached, set it immediately — no spinner
-    const cached = getCachedCandles(asset);
+    const cached = getCachedCandles(asset, timeframe);
     if (cached) {
-      const filtered = cached.filter((c) => c.t >= startDate && c.t <= endDate);
+      const filtered = cached.filter((c) => inDateRange(c.t, startDate, endDate));
       setCandles(filtered);
       setLoading(false);
       return;
@@ -48,10 +51,10 @@ export function ChartWithData({
     // Async path: data not yet cached
     setLoading(true);
 
-    loadCandles(asset)
+    loadCandles(asset, timeframe)
       .then((allCandles) => {
         if (cancelled) return;
-        const filtered = allCandles.filter((c) => c.t >= startDate && c.t <= endDate);
+        const filtered = allCandles.filter((c) => inDateRange(c.t, startDate, endDate));
         setCandles(filtered);
         setLoading(false);
       })
@@ -62,11 +65,11 @@ export function ChartWithData({
       });
 
     return () => { cancelled = true; };
-  }, [asset, startDate, endDate]);
+  }, [asset, timeframe, startDate, endDate]);
 
   if (loading) {
     return (
-      <div className="flex items-center justify-center h-[280px] sm:h-[400px] rounded-lg border border-vt-line/50 bg-vt-bg2/50">
+      <div className="flex items-center justify-center h-[350px] sm:h-[500px] rounded-lg border border-vt-line/50 bg-vt-bg2/50">
         <div className="flex items-center gap-2 text-slate-400">
           <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24" fill="none">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -80,7 +83,7 @@ export function ChartWithData({
 
   if (error) {
     return (
-      <div className="flex items-center justify-center h-[280px] sm:h-[400px] rounded-lg border border-red-500/30 bg-red-500/5">
+      <div className="flex items-center justify-center h-[350px] sm:h-[500px] rounded-lg border border-red-500/30 bg-red-500/5">
         <p className="text-sm text-red-400">{error}</p>
       </div>
     );
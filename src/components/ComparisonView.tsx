@@ -21,6 +21,7 @@ import {
   formatCurrency,
 } from '@/lib/utils';
 import { useTheme } from '@/lib/theme';
+import { isIntradayTimestamp, toDisplayDate } from '@/lib/time';
 
 function useIsMobile(breakpoint = 640) {
   const [isMobile, setIsMobile] = useState(false);
@@ -163,16 +164,17 @@ const METRIC_COMPARISON_DEFS: MetricComparisonDef[] = [
 ];
 
 function formatDateShort(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
+  const date = toDisplayDate(dateStr);
   return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
 }
 
 function formatDateFull(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
+  const date = toDisplayDate(dateStr);
   return date.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
+    ...(isIntradayTimestamp(dateStr) && { hour: '2-digit', minute: '2-digit' }),
   });
 }
 
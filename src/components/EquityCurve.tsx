@@ -15,6 +15,7 @@ import {
 import type { EquityPoint } from '@/types/results';
 import { formatCurrency, formatPercent } from '@/lib/utils';
 import { useTheme } from '@/lib/theme';
+import { isIntradayTimestamp, toDisplayDate } from '@/lib/time';
 
 const BENCHMARK_COLOR = '#94a3b8'; // neutral slate for Buy & Hold
 
@@ -48,16 +49,17 @@ interface CustomTooltipProps {
 }
 
 function formatDateShort(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
+  const date = toDisplayDate(dateStr);
   return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
 }
 
 function formatDateFull(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
+  const date = toDisplayDate(dateStr);
   return date.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
+    ...(isIntradayTimestamp(dateStr) && { hour: '2-digit', minute: '2-digit' }),
   });
 }
 
@@ -42,7 +42,7 @@ const BENCHMARK_TIMING = [
   { delay: 0, duration: 280 },
   { delay: 0, duration: 280 },
 ];
-const METRIC_TIMING = Array.from({ length: 15 }, (_, i) => ({
+const METRIC_TIMING = Array.from({ length: 17 }, (_, i) => ({
   delay: i * 8,
   duration: 250,
 }));
@@ -65,6 +65,12 @@ const METRIC_DEFS: MetricDefinition[] = [
   { key: 'exposureTimePct',        label: 'Exposure',        format: PCT,   suffix: '%',     colorMode: 'neutral'  },
 ];
 
+/** Shown only for runs that used leverage or were liquidated */
+const LEVERAGE_DEFS: MetricDefinition[] = [
+  { key: 'maxEffectiveLeverage',   label: 'Max Leverage',    format: RATIO, suffix: 'x',     colorMode: 'neutral'  },
+  { key: 'liquidations',           label: 'Liquidations',    format: INT,                    colorMode: 'neutral'  },
+];
+
 function getValueColor(value: number, colorMode: MetricDefinition['colorMode']): string {
   if (colorMode === 'neutral') return 'text-slate-200';
 
@@ -84,6 +90,10 @@ function MetricsGridInner({ metrics, benchmarkReturn }: MetricsGridProps) {
   const [mounted, setMounted] = useState(false);
   useEffect(() => { setMounted(true); }, []);
 
+  // Results saved before leverage existed have neither field
+  const isLevered = (metrics.maxEffectiveLeverage ?? 0) > 1 || (metrics.liquidations ?? 0) > 0;
+  const defs = isLevered ? [...METRIC_DEFS, ...LEVERAGE_DEFS] : METRIC_DEFS;
+
   return (
     <div className="space-y-4">
       {/* Benchmark comparison bar */}
@@ -115,7 +125,7 @@ function MetricsGridInner({ metrics, benchmarkReturn }: MetricsGridProps) {
 
       {/* Metrics grid */}
       <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-        {METRIC_DEFS.map((def, i) => {
+        {defs.map((def, i) => {
           const value = metrics[def.key];
           const colorClass = getValueColor(value, def.colorMode);
           const timing = METRIC_TIMING[i];
@@ -1,12 +1,18 @@
 'use client';
 
-import type { StrategyRuleSet } from '@/types/strategy';
+import type { StrategyMode, StrategyRuleSet } from '@/types/strategy';
 import type { DemoSnapshot } from '@/types/results';
 import { PRESETS } from '@/data/presets';
 import { DEMO_SNAPSHOTS } from '@/data/snapshots';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 
+const MODE_BADGES: Record<StrategyMode['type'], { label: string; className: string }> = {
+  standard: { label: 'Standard', className: 'border-violet-500/40 text-violet-400' },
+  dca: { label: 'DCA', className: 'border-blue-500/40 text-blue-400' },
+  rebalance: { label: 'Rebalance', className: 'border-teal-500/40 text-teal-400' },
+};
+
 interface PresetGalleryProps {
   onSelectPreset: (ruleSet: StrategyRuleSet) => void;
   onSelectSnapshot: (snapshot: DemoSnapshot) => void;
@@ -39,13 +45,9 @@ export function PresetGallery({
                   </span>
                   <Badge
                     variant="outline"
-                    className={`text-[10px] shrink-0 ${
-                      preset.mode.type === 'dca'
-                        ? 'border-blue-500/40 text-blue-400'
-                        : 'border-violet-500/40 text-violet-400'
-                    }`}
+                    className={`text-[10px] shrink-0 ${MODE_BADGES[preset.mode.type].className}`}
                   >
-                    {preset.mode.type === 'dca' ? 'DCA' : 'Standard'}
+                    {MODE_BADGES[preset.mode.type].label}
                   </Badge>
                 </div>
                 {preset.description && (
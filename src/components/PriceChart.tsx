@@ -7,6 +7,7 @@ import {
   clusterMarkers,
   formatMarkerLabel,
 } from '@/lib/marker-clustering';
+import { isIntradayTimestamp, toChartTime } from '@/lib/time';
 
 interface PriceChartProps {
   candles: Candle[];
@@ -18,17 +19,63 @@ interface PriceChartProps {
 // Color palettes for indicator overlays (dark mode optimized)
 const SMA_COLORS = ['#f59e0b', '#8b5cf6', '#06b6d4', '#10b981', '#f97316', '#ec4899'];
 const EMA_COLORS = ['#fbbf24', '#a78bfa', '#22d3ee', '#34d399', '#fb923c', '#f472b6'];
+const WMA_COLORS = ['#84cc16', '#c084fc', '#2dd4bf'];
+const HMA_COLORS = ['#fb7185', '#60a5fa', '#a3e635'];
+const DEMA_COLORS = ['#fdba74', '#818cf8', '#5eead4'];
+const TEMA_COLORS = ['#fde047', '#e879f9', '#67e8f9'];
+const KAMA_COLORS = ['#f0abfc', '#4ade80', '#fca5a5'];
 // Bollinger Band color — hardcoded hex because lightweight-charts cannot parse
 // CSS LAB/OKLCH color strings returned by getComputedStyle for --vt.
 const BB_COLOR = '#22c55e';
+const KC_COLOR = '#f97316';
+const DC_COLOR = '#0ea5e9';
+// Rolling highest/lowest channel color
+const CHANNEL_COLOR = '#38bdf8';
+const PSAR_COLOR = '#e879f9';
+const SUPERTREND_COLOR = '#facc15';
+const VWAP_COLOR = '#f472b6';
+const VOLUME_SMA_COLOR = '#94a3b8';
+// Volume bars are translucent so the pane reads as background context
+const VOLUME_UP_COLOR = 'rgba(34, 197, 94, 0.45)';
+const VOLUME_DOWN_COLOR = 'rgba(239, 68, 68, 0.45)';
+
+/** Pane index of the volume histogram, below the price pane */
+const VOLUME_PANE = 1;
+
+type OverlayType =
+  | 'sma' | 'ema' | 'wma' | 'hma' | 'dema' | 'tema' | 'kama'
+  | 'bb_upper' | 'bb_middle' | 'bb_lower'
+  | 'kc_upper' | 'kc_middle' | 'kc_lower'
+  | 'dc_upper' | 'dc_middle' | 'dc_lower'
+  | 'highest' | 'lowest'
+  | 'psar' | 'supertrend'
+  | 'vwap' | 'volume_sma'
+  | 'skip';
 
 /** Classify an indicator key into a renderable type */
-function classifyIndicator(key: string): 'sma' | 'ema' | 'bb_upper' | 'bb_middle' | 'bb_lower' | 'skip' {
+function classifyIndicator(key: string): OverlayType {
   if (key.startsWith('sma_')) return 'sma';
   if (key.startsWith('ema_')) return 'ema';
+  if (key.startsWith('wma_')) return 'wma';
+  if (key.startsWith('hma_')) return 'hma';
+  if (key.startsWith('dema_')) return 'dema';
+  if (key.startsWith('tema_')) return 'tema';
+  if (key.startsWith('kama_')) return 'kama';
   if (key.startsWith('bb_upper_')) return 'bb_upper';
   if (key.startsWith('bb_middle_')) return 'bb_middle';
   if (key.startsWith('bb_lower_')) return 'bb_lower';
+  if (key.startsWith('kc_upper')) return 'kc_upper';
+  if (key.startsWith('kc_middle')) return 'kc_middle';
+  if (key.startsWith('kc_lower')) return 'kc_lower';
+  if (key.startsWith('dc_upper')) return 'dc_upper';
+  if (key.startsWith('dc_middle')) return 'dc_middle';
+  if (key.startsWith('dc_lower')) return 'dc_lower';
+  if (key.startsWith('highest')) return 'highest';
+  if (key.startsWith('lowest')) return 'lowest';
+  if (key.startsWith('psar')) return 'psar';
+  if (key.startsWith('supertrend')) return 'supertrend';
+  if (key.startsWith('vwap')) return 'vwap';
+  if (key.startsWith('volume_sma')) return 'volume_sma';
   return 'skip';
 }
 
@@ -52,6 +99,7 @@ interface PendingData {
 function applyData(
   chart: ChartInstance,
   candleSeries: SeriesInstance,
+  volumeSeries: SeriesInstance,
   lc: LCModule,
   candles: Candle[],
   trades: Trade[],
@@ -62,15 +110,25 @@ function applyData(
 ) {
   const { LineSeries, createSeriesMarkers } = lc;
 
-  // 1. Update candle data in-place
+  // 1. Update candle data in-place; intraday bars show the time of day on the axis
+  chart.timeScale().applyOptions({
+    timeVisible: candles.length > 0 && isIntradayTimestamp(candles[0].t),
+  });
   const chartData = candles.map((c) => ({
-    time: c.t as string,
+    time: toChartTime(c.t),
     open: c.o,
     high: c.h,
     low: c.l,
     close: c.c,
   }));
   candleSeries.setData(chartData);
+  volumeSeries.setData(
+    candles.map((c) => ({
+      time: toChartTime(c.t),
+      value: c.v,
+      color: c.c >= c.o ? VOLUME_UP_COLOR : VOLUME_DOWN_COLOR,
+    })),
+  );
 
   // 2. Clean up old marker subscription (but keep the handle alive)
   if (markerCleanupRef.current) {
@@ -91,11 +149,14 @@ function applyData(
     const sells: { time: string; price: number }[] = [];
 
     for (const trade of trades) {
+      // A short opens with a sell and closes with a buy
+      const opens = trade.side === 'short' ? sells : buys;
+      const closes = trade.side === 'short' ? buys : sells;
       if (validDates.has(trade.entryDate)) {
-        buys.push({ time: trade.entryDate, price: trade.entryPrice });
+        opens.push({ time: trade.entryDate, price: trade.entryPrice });
       }
       if (validDates.has(trade.exitDate)) {
-        sells.push({ time: trade.exitDate, price: trade.exitPrice });
+        closes.push({ time: trade.exitDate, price: trade.exitPrice });
       }
     }
 
@@ -146,7 +207,7 @@ function applyData(
       const clusteredSells = clusterMarkers(sellMarkers, granularity);
 
       type MarkerItem = {
-        time: string;
+        time: string | number;
         position: 'belowBar' | 'aboveBar';
         color: string;
         shape: 'arrowUp' | 'arrowDown';
@@ -157,7 +218,7 @@ function applyData(
 
       for (const c of clusteredBuys) {
         markers.push({
-          time: c.time,
+          time: toChartTime(c.time),
           position: 'belowBar',
           color: '#22c55e',
           shape: 'arrowUp',
@@ -167,7 +228,7 @@ function applyData(
 
       for (const c of clusteredSells) {
         markers.push({
-          time: c.time,
+          time: toChartTime(c.time),
           position: 'aboveBar',
           color: '#ef4444',
           shape: 'arrowDown',
@@ -202,6 +263,9 @@ function applyData(
   if (indicatorData && candles.length > 0) {
     let smaColorIdx = 0;
     let emaColorIdx = 0;
+    // Colour cycles for the other moving averages, one per type
+    const maColorIdx = { wma: 0, hma: 0, dema: 0, tema: 0, kama: 0 };
+    const maColors = { wma: WMA_COLORS, hma: HMA_COLORS, dema: DEMA_COLORS, tema: TEMA_COLORS, kama: KAMA_COLORS };
 
     const sortedKeys = Object.keys(indicatorData).sort();
 
@@ -215,6 +279,10 @@ function applyData(
       let color: string;
       let lineStyle = 0;
       let lineWidth = 1;
+      // SAR is drawn as dots, one per bar
+      let dotted = false;
+      // Volume averages share the volume pane's scale
+      const pane = indicatorType === 'volume_sma' ? VOLUME_PANE : 0;
 
       switch (indicatorType) {
         case 'sma':
@@ -227,6 +295,17 @@ function applyData(
           emaColorIdx++;
           lineWidth = 1;
           break;
+        case 'wma':
+        case 'hma':
+        case 'dema':
+        case 'tema':
+        case 'kama': {
+          const palette = maColors[indicatorType];
+          color = palette[maColorIdx[indicatorType] % palette.length];
+          maColorIdx[indicatorType]++;
+          lineWidth = 1;
+          break;
+        }
         case 'bb_upper':
           color = BB_COLOR;
           lineStyle = 2;
@@ -242,13 +321,57 @@ function applyData(
           lineStyle = 0;
           lineWidth = 1;
           break;
+        case 'kc_upper':
+        case 'kc_lower':
+          color = KC_COLOR;
+          lineStyle = 2;
+          lineWidth = 1;
+          break;
+        case 'kc_middle':
+          color = KC_COLOR;
+          lineStyle = 0;
+          lineWidth = 1;
+          break;
+        case 'dc_upper':
+        case 'dc_lower':
+          color = DC_COLOR;
+          lineStyle = 2;
+          lineWidth = 1;
+          break;
+        case 'dc_middle':
+          color = DC_COLOR;
+          lineStyle = 0;
+          lineWidth = 1;
+          break;
+        case 'highest':
+        case 'lowest':
+          color = CHANNEL_COLOR;
+          lineStyle = 1;
+          lineWidth = 1;
+          break;
+        case 'psar':
+          color = PSAR_COLOR;
+          dotted = true;
+          break;
+        case 'supertrend':
+          color = SUPERTREND_COLOR;
+          lineWidth = 2;
+          break;
+        case 'vwap':
+          color = VWAP_COLOR;
+          lineWidth = 1;
+          break;
+        case 'volume_sma':
+          color = VOLUME_SMA_COLOR;
+          lineWidth = 1;
+          break;
       }
 
-      const lineData: { time: string; value: number }[] = [];
+      const lineData: { time: string | number; value: number }[] = [];
       for (let i = 0; i < candles.length && i < values.length; i++) {
         const val = values[i];
         if (val === null || val === undefined) continue;
-        lineData.push({ time: candles[i].t, value: val });
+        lineData.push({ time: toChartTime(candles[i].t), value: val });
       }
 
       if (lineData.length === 0) continue;
@@ -257,11 +380,13 @@ function applyData(
         color,
         lineWidth: lineWidth as 1 | 2 | 3 | 4,
         lineStyle,
+        lineVisible: !dotted,
+        pointMarkersVisible: dotted,
         crosshairMarkerVisible: false,
         priceLineVisible: false,
         lastValueVisible: false,
         title: key.replace(/_/g, ' ').toUpperCase(),
-      });
+      }, pane);
 
       lineSeries.setData(lineData);
       indicatorSeriesRef.current.push(lineSeries);
@@ -291,6 +416,7 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
   // Persistent refs — survive across data changes
   const chartRef = useRef<ChartInstance>(null);
   const candleSeriesRef = useRef<SeriesInstance>(null);
+  const volumeSeriesRef = useRef<SeriesInstance>(null);
   const lcModuleRef = useRef<LCModule>(null);
   const indicatorSeriesRef = useRef<SeriesInstance[]>([]);
   const markerHandleRef = useRef<{ setMarkers: (m: unknown[]) => void } | null>(null);
@@ -308,9 +434,11 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
       if (disposed || !containerRef.current) return;
 
       lcModuleRef.current = lc;
-      const { createChart, ColorType, CandlestickSeries } = lc;
+      const { createChart, ColorType, CandlestickSeries, HistogramSeries } = lc;
 
-      const chartHeight = window.innerWidth < 640 ? 280 : 400;
+      const narrow = window.innerWidth < 640;
+      const volumePaneHeight = narrow ? 70 : 100;
+      const chartHeight = (narrow ? 280 : 400) + volumePaneHeight;
 
       const chart = createChart(containerRef.current!, {
         layout: {
@@ -351,8 +479,16 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
         wickDownColor: '#ef4444',
       });
 
+      const volumeSeries = chart.addSeries(HistogramSeries, {
+        priceFormat: { type: 'volume' },
+        priceLineVisible: false,
+        lastValueVisible: false,
+      }, VOLUME_PANE);
+      chart.panes()[VOLUME_PANE]?.setHeight(volumePaneHeight);
+
       chartRef.current = chart;
       candleSeriesRef.current = candleSeries;
+      volumeSeriesRef.current = volumeSeries;
 
       const container = containerRef.current!;
       const resizeObserver = new ResizeObserver((entries) => {
@@ -379,7 +515,7 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
         const { candles: pc, trades: pt, indicatorData: pi } = pendingDataRef.current;
         pendingDataRef.current = null;
         if (pc.length > 0) {
-          applyData(chart, candleSeries, lc, pc, pt, pi, indicatorSeriesRef, markerHandleRef, markerCleanupRef);
+          applyData(chart, candleSeries, volumeSeries, lc, pc, pt, pi, indicatorSeriesRef, markerHandleRef, markerCleanupRef);
         }
       }
     });
@@ -389,6 +525,7 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
       if (cleanupRef.current) cleanupRef.current();
       chartRef.current = null;
       candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
       lcModuleRef.current = null;
     };
   }, []); // mount-only
@@ -406,7 +543,7 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
     if (candles.length === 0) return;
 
     // Chart not ready yet — stash data for when it is
-    if (!chartRef.current || !candleSeriesRef.current || !lcModuleRef.current) {
+    if (!chartRef.current || !candleSeriesRef.current || !volumeSeriesRef.current || !lcModuleRef.current) {
       pendingDataRef.current = { candles, trades, indicatorData };
       return;
     }
@@ -414,6 +551,7 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
     applyData(
       chartRef.current,
       candleSeriesRef.current,
+      volumeSeriesRef.current,
       lcModuleRef.current,
       candles,
       trades,
@@ -426,7 +564,7 @@ function PriceChartInner({ candles, trades, indicatorData, lockZoom }: PriceChar
 
   if (candles.length === 0) {
     return (
-      <div className="flex items-center justify-center h-[280px] sm:h-[400px] rounded-lg border border-vt-line/50 bg-vt-bg2/50">
+      <div className="flex items-center justify-center h-[350px] sm:h-[500px] rounded-lg border border-vt-line/50 bg-vt-bg2/50">
         <p className="text-sm text-slate-500">No candle data available</p>
       </div>
     );
@@ -13,6 +13,8 @@ import { ChartWithData } from '@/components/ChartWithData';
 import { WarmupWarning } from '@/components/WarmupWarning';
 import { DCABudgetWarning } from '@/components/DCABudgetWarning';
 import { TradeLog } from '@/components/TradeLog';
+import { AssetBreakdownTable } from '@/components/AssetBreakdownTable';
+import { UnfilledOrdersTable } from '@/components/UnfilledOrdersTable';
 import { AuditPanel } from '@/components/AuditPanel';
 import { CompareSection } from '@/components/CompareSection';
 import { RunHistory } from '@/components/RunHistory';
@@ -101,9 +103,10 @@ export function ResultsPhase({
         <DCABudgetWarning audit={result.audit} initialCapital={result.config.initialCapital} />
         <ChartWithData
           asset={result.config.asset}
+          timeframe={result.config.timeframe}
           startDate={result.config.startDate}
           endDate={result.config.endDate}
-          trades={result.trades}
+          trades={result.trades.filter((t) => !t.asset || t.asset === result.config.asset)}
           indicatorData={result.indicatorData}
           lockZoom
         />
@@ -111,6 +114,15 @@ export function ResultsPhase({
 
       {result.trades.length === 0 && <WarmupWarning audit={result.audit} />}
 
+      {result.assetBreakdown && (
+        <div>
+          <h3 className="text-sm font-medium text-vt-dim/70 mb-2 uppercase tracking-wider">
+            Per-Asset Breakdown
+          </h3>
+          <AssetBreakdownTable breakdown={result.assetBreakdown} />
+        </div>
+      )}
+
       <div>
         <h3 className="text-sm font-medium text-vt-dim/70 mb-2 uppercase tracking-wider">
           Trade Log ({result.trades.length} trades)
@@ -127,6 +139,15 @@ export function ResultsPhase({
         )}
       </div>
 
+      {result.unfilledOrders && result.unfilledOrders.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-vt-dim/70 mb-2 uppercase tracking-wider">
+            Unfilled Orders ({result.unfilledOrders.length})
+          </h3>
+          <UnfilledOrdersTable orders={result.unfilledOrders} />
+        </div>
+      )}
+
       <AuditPanel audit={result.audit} />
 
       {!comparisonResult && (
@@ -1,13 +1,30 @@
 'use client';
 
 import { useState } from 'react';
-import type { StrategyRuleSet, Condition } from '@/types/strategy';
+import type {
+  StrategyRuleSet,
+  StrategyMode,
+  PositionSizing,
+  EntryOrder,
+  ReentryRules,
+  Condition,
+  ConditionGroup,
+  Persistence,
+  TrailingStop,
+} from '@/types/strategy';
+import { isConditionGroup } from '@/types/strategy';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 
+const MODE_BADGES: Record<StrategyMode['type'], { label: string; className: string }> = {
+  standard: { label: 'Standard', className: 'bg-violet-500/20 text-violet-400 border-violet-500/30' },
+  dca: { label: 'DCA', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  rebalance: { label: 'Rebalance', className: 'bg-teal-500/20 text-teal-400 border-teal-500/30' },
+};
+
 interface RuleConfirmationProps {
   rules: StrategyRuleSet;
   onConfirm?: () => void;
@@ -38,6 +55,68 @@ function ConfidenceBadge({
   );
 }
 
+function formatTrailingStop(trailingStop: TrailingStop): string {
+  if (trailingStop.type === 'percent') {
+    return `${trailingStop.valuePct}%`;
+  }
+  return `${trailingStop.multiple}× ATR(${trailingStop.period ?? 14})`;
+}
+
+function formatSizing(sizing: PositionSizing): string {
+  switch (sizing.type) {
+    case 'percent_equity':
+      return `${sizing.valuePct}% of equity per trade`;
+    case 'fixed_amount':
+      return `$${sizing.valueUsd.toLocaleString()} fixed amount per trade`;
+    case 'risk_percent':
+      return `Risk ${sizing.riskPct}% of equity per trade to the stop`;
+    case 'atr_volatility':
+      return `${sizing.riskPct}% of equity per ATR(${sizing.period ?? 14}) move`;
+    case 'kelly_fraction':
+      return `${sizing.fraction}× Kelly over the last ${sizing.lookbackTrades ?? 20} trades`;
+  }
+}
+
+function formatEntryOrder(order: Exclude<EntryOrder, { type: 'market' }>, isShort: boolean): string {
+  const below = (order.type === 'limit') !== isShort;
+  const tif = order.timeInForceBars ?? 1;
+  return `${order.type === 'limit' ? 'Limit' : 'Stop'} entry ${order.offsetPct}% ${below ? 'below' : 'above'} the signal close, ` +
+    `good for ${tif} bar${tif === 1 ? '' : 's'}`;
+}
+
+function formatReentry(reentry: ReentryRules): string {
+  const parts: string[] = [];
+  if (reentry.cooldownBars !== undefined) {
+    parts.push(
+      `Wait ${reentry.cooldownBars} bars after ${reentry.cooldownAfterLossOnly ? 'a losing' : 'every'} exit`,
+    );
+  }
+  if (reentry.maxTrades) {
+    parts.push(`max ${reentry.maxTrades.count} trades per ${reentry.maxTrades.periodDays} days`);
+  }
+  return parts.join('; ');
+}
+
+function formatPersistence(persistence: Persistence): string {
+  const plural = persistence.bars === 1 ? '' : 's';
+  return persistence.type === 'consecutive'
+    ? `for ${persistence.bars} consecutive bar${plural}`
+    : `within the last ${persistence.bars} bar${plural}`;
+}
+
+function conditionLabel(condition: Condition): string {
+  return condition.persistence
+    ? `${condition.label} ${formatPersistence(condition.persistence)}`
+    : condition.label;
+}
+
+function describeGroup(group: ConditionGroup): string {
+  const parts = group.conditions.map((node) =>
+    isConditionGroup(node) ? `(${describeGroup(node)})` : conditionLabel(node),
+  );
+  return group.op === 'NOT' ? `NOT ${parts.join(' AND ')}` : parts.join(` ${group.op} `);
+}
+
 function ConditionCard({
   condition,
   type,
@@ -55,7 +134,7 @@ function ConditionCard({
       className={`rounded-lg border border-vt-line/50 bg-vt-bg3/50 p-3 border-l-2 ${borderColor}`}
     >
       <div className="flex items-center gap-2">
-        <span className="text-sm text-slate-200">{condition.label}</span>
+        <span className="text-sm text-slate-200">{conditionLabel(condition)}</span>
         {condition.scope === 'position' && (
           <Badge variant="outline" className="text-xs border-vt-line text-slate-400">
             Position
@@ -69,6 +148,35 @@ function ConditionCard({
   );
 }
 
+/** A group's conditions, with nested groups drawn as indented boxes under their own combinator. */
+function ConditionTree({
+  group,
+  type,
+}: {
+  group: ConditionGroup;
+  type: 'entry' | 'exit';
+}) {
+  return (
+    <>
+      {group.conditions.map((node, index) =>
+        isConditionGroup(node) ? (
+          <div
+            key={`group-${index}`}
+            className="rounded-lg border border-dashed border-vt-line/50 p-2 space-y-2"
+          >
+            <Badge variant="outline" className="text-xs border-vt-line text-slate-400">
+              {node.op}
+            </Badge>
+            <ConditionTree group={node} type={type} />
+          </div>
+        ) : (
+          <ConditionCard key={node.id} condition={node} type={type} />
+        ),
+      )}
+    </>
+  );
+}
+
 export function RuleConfirmation({
   rules,
   onConfirm,
@@ -82,6 +190,10 @@ export function RuleConfirmation({
 
   const metadata = rules.metadata;
   const warnings = metadata?.warnings ?? [];
+  const hasExitOrders =
+    rules.exit.stopLossPct !== undefined ||
+    rules.exit.takeProfitPct !== undefined ||
+    rules.exit.trailingStop !== undefined;
 
   return (
     <div className="flex flex-col gap-5">
@@ -112,16 +224,17 @@ export function RuleConfirmation({
           <h2 className="text-lg font-semibold text-slate-100">
             {rules.name}
           </h2>
-          <Badge
-            className={
-              rules.mode.type === 'dca'
-                ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
-                : 'bg-violet-500/20 text-violet-400 border-violet-500/30'
-            }
-            variant="outline"
-          >
-            {rules.mode.type === 'dca' ? 'DCA' : 'Standard'}
+          <Badge className={MODE_BADGES[rules.mode.type].className} variant="outline">
+            {MODE_BADGES[rules.mode.type].label}
           </Badge>
+          {rules.side === 'short' && (
+            <Badge
+              className="bg-rose-500/20 text-rose-400 border-rose-500/30"
+              variant="outline"
+            >
+              Short
+            </Badge>
+          )}
           <ConfidenceBadge confidence={metadata?.parserConfidence} />
         </div>
         {rules.description && (
@@ -187,16 +300,12 @@ export function RuleConfirmation({
                 <p className="text-xs text-slate-500 italic">
                   {rules.mode.type === 'dca'
                     ? 'DCA mode: automatic periodic entries'
-                    : 'No entry conditions specified'}
+                    : rules.mode.type === 'rebalance'
+                      ? 'Rebalance mode: trades back to target weights'
+                      : 'No entry conditions specified'}
                 </p>
               ) : (
-                rules.entry.conditions.map((cond) => (
-                  <ConditionCard
-                    key={cond.id}
-                    condition={cond}
-                    type="entry"
-                  />
-                ))
+                <ConditionTree group={rules.entry} type="entry" />
               )}
             </CardContent>
           </Card>
@@ -214,20 +323,37 @@ export function RuleConfirmation({
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-2 py-0">
+              {hasExitOrders && (
+                <div className="flex flex-wrap gap-2">
+                  {rules.exit.stopLossPct !== undefined && (
+                    <Badge variant="outline" className="text-xs border-red-500/30 text-red-400">
+                      Stop loss {rules.exit.stopLossPct}%
+                    </Badge>
+                  )}
+                  {rules.exit.takeProfitPct !== undefined && (
+                    <Badge variant="outline" className="text-xs border-emerald-500/30 text-emerald-400">
+                      Take profit {rules.exit.takeProfitPct}%
+                    </Badge>
+                  )}
+                  {rules.exit.trailingStop && (
+                    <Badge variant="outline" className="text-xs border-amber-500/30 text-amber-400">
+                      Trailing stop {formatTrailingStop(rules.exit.trailingStop)}
+                    </Badge>
+                  )}
+                </div>
+              )}
               {rules.exit.conditions.length === 0 ? (
-                <p className="text-xs text-slate-500 italic">
-                  {rules.mode.type === 'dca'
-                    ? 'DCA mode: positions held until end of period'
-                    : 'No exit conditions. Positions held until end of data.'}
-                </p>
+                !hasExitOrders && (
+                  <p className="text-xs text-slate-500 italic">
+                    {rules.mode.type === 'dca'
+                      ? 'DCA mode: positions held until end of period'
+                      : rules.mode.type === 'rebalance'
+                        ? 'Rebalance mode: holdings kept until end of period'
+                        : 'No exit conditions. Positions held until end of data.'}
+                  </p>
+                )
               ) : (
-                rules.exit.conditions.map((cond) => (
-                  <ConditionCard
-                    key={cond.id}
-                    condition={cond}
-                    type="exit"
-                  />
-                ))
+                <ConditionTree group={rules.exit} type="exit" />
               )}
             </CardContent>
           </Card>
@@ -240,17 +366,77 @@ export function RuleConfirmation({
             </CardHeader>
             <CardContent className="py-0">
               <p className="text-sm text-slate-400">
-                {rules.sizing.type === 'percent_equity'
-                  ? `${rules.sizing.valuePct}% of equity per trade`
-                  : `$${rules.sizing.valueUsd.toLocaleString()} fixed amount per trade`}
+                {formatSizing(rules.sizing)}
               </p>
+              {rules.entryOrder && rules.entryOrder.type !== 'market' && (
+                <p className="text-sm text-slate-400 mt-1">
+                  {formatEntryOrder(rules.entryOrder, rules.side === 'short')}
+                </p>
+              )}
+              {rules.reentry && (
+                <p className="text-sm text-slate-400 mt-1">
+                  {formatReentry(rules.reentry)}
+                </p>
+              )}
               {rules.mode.type === 'dca' && (
                 <p className="text-sm text-slate-400 mt-1">
                   DCA: ${rules.mode.amountUsd} every {rules.mode.intervalDays} days
                 </p>
               )}
+              {rules.mode.type === 'rebalance' && (
+                <p className="text-sm text-slate-400 mt-1">
+                  Rebalance to{' '}
+                  {rules.mode.targets.map((t) => `${t.weightPct}% ${t.asset}`).join(' / ')}
+                  {rules.mode.trigger.type === 'calendar'
+                    ? ` every ${rules.mode.trigger.intervalDays} days`
+                    : ` when any weight drifts more than ${rules.mode.trigger.thresholdPct} points`}
+                </p>
+              )}
+              {rules.scaleIn && (
+                <p className="text-sm text-slate-400 mt-1">
+                  Scale in: +{rules.scaleIn.sizePct}% of equity when{' '}
+                  {describeGroup(rules.scaleIn.trigger)}, up to {rules.scaleIn.maxLots} lots
+                </p>
+              )}
+              {rules.scaleOut?.map((step) => (
+                <p key={step.id} className="text-sm text-slate-400 mt-1">
+                  Scale out: sell {step.fractionPct}% of position when{' '}
+                  {describeGroup(step.trigger)}
+                </p>
+              ))}
             </CardContent>
           </Card>
+
+          {rules.portfolio && (
+            <Card className="bg-vt-bg3/30 border-vt-line/50 py-4 gap-3">
+              <CardHeader className="py-0">
+                <CardTitle className="text-sm font-medium text-slate-300">
+                  Portfolio
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 py-0">
+                <div className="flex flex-wrap gap-1.5">
+                  {rules.portfolio.assets.map((asset) => (
+                    <Badge key={asset} variant="outline" className="text-xs border-vt-line text-slate-400">
+                      {asset}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-slate-400">
+                  Up to {rules.portfolio.maxOpenPositions} open positions,{' '}
+                  {rules.portfolio.allocation === 'equal_split'
+                    ? 'equity split equally between slots'
+                    : 'each sized by the rule above on total equity'}
+                </p>
+                {rules.portfolio.overrides?.map((override) => (
+                  <p key={override.asset} className="text-sm text-slate-400">
+                    {override.asset}: enter when {describeGroup(override.entry) || 'never'}
+                    {override.exit.conditions.length > 0 && `, exit when ${describeGroup(override.exit)}`}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="json" className="mt-4">
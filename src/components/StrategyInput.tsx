@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { Mic } from 'lucide-react';
-import type { AssetSymbol } from '@/types/strategy';
+import type { AssetSymbol, Timeframe } from '@/types/strategy';
+import type { FillModel } from '@/types/results';
 import {
   Select,
   SelectContent,
@@ -10,10 +11,30 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { DatePicker } from '@/components/ui/date-picker';
+import { DatePicker, snapToTimeframe } from '@/components/ui/date-picker';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { hasCandles, hasFundingRates } from '@/data/loader';
 
 const ASSETS: AssetSymbol[] = ['BTC', 'ETH', 'SOL', 'BNB', 'XRP', 'DOGE', 'ADA', 'AVAX'];
+const INTRADAY_TIMEFRAMES: Timeframe[] = ['1H', '4H'];
+const TIMEFRAME_OPTIONS: { value: Timeframe; label: string }[] = [
+  { value: '1H', label: '1 Hour' },
+  { value: '4H', label: '4 Hours' },
+  { value: '1D', label: 'Daily' },
+  { value: '1W', label: 'Weekly' },
+  { value: '1M', label: 'Monthly' },
+];
+const LEVERAGE_OPTIONS = [1, 2, 3, 5, 10];
+const CARRY_SOURCE_OPTIONS: { value: 'fixed' | 'funding'; label: string }[] = [
+  { value: 'fixed', label: 'bps/d' },
+  { value: 'funding', label: 'Perp' },
+];
+const FILL_MODEL_OPTIONS: { value: FillModel; label: string }[] = [
+  { value: 'next_open', label: 'Next open' },
+  { value: 'same_close', label: 'Same close' },
+  { value: 'next_close', label: 'Next close' },
+  { value: 'ohlc_avg', label: 'Next OHLC avg' },
+];
 
 const EXAMPLE_PROMPTS = [
   'Buy when RSI drops below 30, sell when it rises above 70',
@@ -29,6 +50,11 @@ export interface StrategyConfig {
   initialCapital: number;
   feeBps: number;
   slippageBps: number;
+  timeframe?: Timeframe;
+  leverage?: number;
+  carryBpsPerDay?: number;
+  carrySource?: 'fixed' | 'funding';
+  fillModel?: FillModel;
 }
 
 interface StrategyInputProps {
@@ -49,6 +75,8 @@ export function StrategyInput({
 }: StrategyInputProps) {
   const [prompt, setPrompt] = useState('');
   const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [fundingAvailable, setFundingAvailable] = useState(false);
+  const [missingTimeframes, setMissingTimeframes] = useState<Timeframe[]>(INTRADAY_TIMEFRAMES);
 
   const {
     isSupported,
@@ -73,6 +101,19 @@ export function StrategyInput({
     return () => clearTimeout(timer);
   }, [speechError]);
 
+  useEffect(() => {
+    let current = true;
+    hasFundingRates(config.asset).then((available) => {
+      if (current) setFundingAvailable(available);
+    });
+    Promise.all(INTRADAY_TIMEFRAMES.map((tf) => hasCandles(config.asset, tf))).then((available) => {
+      if (current) setMissingTimeframes(INTRADAY_TIMEFRAMES.filter((_, k) => !available[k]));
+    });
+    return () => {
+      current = false;
+    };
+  }, [config.asset]);
+
   const validationErrors: string[] = [];
   if (config.initialCapital <= 0) {
     validationErrors.push('Initial capital must be greater than 0.');
@@ -86,6 +127,16 @@ export function StrategyInput({
   if (config.slippageBps < 0) {
     validationErrors.push('Slippage must be zero or positive.');
   }
+  if (config.timeframe && missingTimeframes.includes(config.timeframe)) {
+    validationErrors.push(
+      `No ${config.timeframe} data for ${config.asset}: run scripts/fetch-data.ts --interval ${config.timeframe.toLowerCase()} or pick another timeframe.`,
+    );
+  }
+  if (config.carrySource === 'funding' && !fundingAvailable) {
+    validationErrors.push(
+      `No funding history for ${config.asset}: run scripts/fetch-data.ts --funding or use a fixed rate.`,
+    );
+  }
 
   const isPromptEmpty = !prompt.trim();
   const hasValidationErrors = validationErrors.length > 0;
@@ -232,7 +283,7 @@ export function StrategyInput({
       </div>
 
       <div className="rounded-xl border border-vt/10 bg-vt-bg2/30 overflow-hidden">
-        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 divide-x divide-vt/[0.06]">
+        <div className="grid grid-cols-2 sm:grid-cols-5 lg:grid-cols-10 divide-x divide-vt/[0.06]">
           <div className="px-3 py-2.5 col-span-1 border-b lg:border-b-0 border-vt-line/30">
             <label className="text-[10px] text-vt-dim/60 uppercase tracking-wider font-medium block mb-1">
               Asset
@@ -266,6 +317,8 @@ export function StrategyInput({
             </label>
             <DatePicker
               value={config.startDate}
+              timeframe={config.timeframe}
+              edge="start"
               onChange={(date) =>
                 onConfigChange({ ...config, startDate: date })
               }
@@ -278,12 +331,49 @@ export function StrategyInput({
             </label>
             <DatePicker
               value={config.endDate}
+              timeframe={config.timeframe}
+              edge="end"
               onChange={(date) =>
                 onConfigChange({ ...config, endDate: date })
               }
             />
           </div>
 
+          <div className="px-3 py-2.5 col-span-1 border-b lg:border-b-0 border-vt-line/30">
+            <label className="text-[10px] text-vt-dim/60 uppercase tracking-wider font-medium block mb-1">
+              Timeframe
+            </label>
+            <Select
+              value={config.timeframe ?? '1D'}
+              onValueChange={(value) => {
+                const timeframe = value as Timeframe;
+                onConfigChange({
+                  ...config,
+                  timeframe,
+                  startDate: snapToTimeframe(config.startDate, timeframe, 'start'),
+                  endDate: snapToTimeframe(config.endDate, timeframe, 'end'),
+                });
+              }}
+            >
+              <SelectTrigger className="data-[size=default]:h-6 w-full border-0 shadow-none bg-transparent p-0 text-sm text-slate-200 focus-visible:ring-0 dark:bg-transparent dark:hover:bg-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="border-vt-line">
+                {TIMEFRAME_OPTIONS.map((option) => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    disabled={missingTimeframes.includes(option.value)}
+                    className="text-slate-100 focus:bg-vt-bg3"
+                  >
+                    {option.label}
+                    {missingTimeframes.includes(option.value) && ' (no data)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="px-3 py-2.5 col-span-1 border-b sm:border-b-0 border-vt-line/30">
             <label className="text-[10px] text-vt-dim/60 uppercase tracking-wider font-medium block mb-1">
               Capital
@@ -352,6 +442,109 @@ export function StrategyInput({
               <span className="text-[10px] text-slate-400 ml-0.5 shrink-0">bps</span>
             </div>
           </div>
+
+          <div className="px-3 py-2.5 col-span-1">
+            <label className="text-[10px] text-vt-dim/60 uppercase tracking-wider font-medium block mb-1">
+              Leverage
+            </label>
+            <Select
+              value={String(config.leverage ?? 1)}
+              onValueChange={(value) =>
+                onConfigChange({ ...config, leverage: Number(value) })
+              }
+            >
+              <SelectTrigger className="data-[size=default]:h-6 w-full border-0 shadow-none bg-transparent p-0 text-sm text-slate-200 focus-visible:ring-0 dark:bg-transparent dark:hover:bg-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="border-vt-line">
+                {LEVERAGE_OPTIONS.map((leverage) => (
+                  <SelectItem
+                    key={leverage}
+                    value={String(leverage)}
+                    className="text-slate-100 focus:bg-vt-bg3"
+                  >
+                    {leverage === 1 ? 'None' : `${leverage}x`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="px-3 py-2.5 col-span-1">
+            <label className="text-[10px] text-vt-dim/60 uppercase tracking-wider font-medium block mb-1">
+              Fill
+            </label>
+            <Select
+              value={config.fillModel ?? 'next_open'}
+              onValueChange={(value) =>
+                onConfigChange({ ...config, fillModel: value as FillModel })
+              }
+            >
+              <SelectTrigger className="data-[size=default]:h-6 w-full border-0 shadow-none bg-transparent p-0 text-sm text-slate-200 focus-visible:ring-0 dark:bg-transparent dark:hover:bg-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="border-vt-line">
+                {FILL_MODEL_OPTIONS.map((option) => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    className="text-slate-100 focus:bg-vt-bg3"
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="px-3 py-2.5 col-span-1">
+            <label className="text-[10px] text-vt-dim/60 uppercase tracking-wider font-medium block mb-1">
+              Funding
+            </label>
+            <div className="flex items-center h-6">
+              {config.carrySource === 'funding' ? (
+                <span className="w-full text-sm text-slate-200">History</span>
+              ) : (
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={config.carryBpsPerDay ?? 0}
+                  onChange={(e) =>
+                    onConfigChange({
+                      ...config,
+                      carryBpsPerDay: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  className="w-full bg-transparent text-sm text-slate-200 border-none p-0 outline-none
+                    [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                />
+              )}
+              <Select
+                value={config.carrySource ?? 'fixed'}
+                onValueChange={(value) =>
+                  onConfigChange({ ...config, carrySource: value as 'fixed' | 'funding' })
+                }
+              >
+                <SelectTrigger className="data-[size=default]:h-6 w-auto ml-0.5 shrink-0 border-0 shadow-none bg-transparent p-0 text-[10px] text-slate-400 focus-visible:ring-0 dark:bg-transparent dark:hover:bg-transparent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="border-vt-line">
+                  {CARRY_SOURCE_OPTIONS.map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={option.value === 'funding' && !fundingAvailable}
+                      className="text-slate-100 focus:bg-vt-bg3"
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
         </div>
       </div>
 
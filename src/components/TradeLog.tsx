@@ -10,7 +10,8 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { formatCurrency, formatPercent } from '@/lib/utils';
+import { formatCurrency, formatDuration, formatPercent } from '@/lib/utils';
+import { formatCandleTime } from '@/lib/time';
 
 interface TradeLogProps {
   trades: Trade[];
@@ -61,6 +62,9 @@ function TradeLogInner({ trades }: TradeLogProps) {
     }
   };
 
+  // Portfolio runs tag each trade with its asset
+  const showAsset = trades.some((t) => t.asset !== undefined);
+
   const sortIndicator = (key: SortKey) => {
     if (sortKey !== key) return '';
     return sortDir === 'asc' ? ' \u25B2' : ' \u25BC';
@@ -86,6 +90,8 @@ function TradeLogInner({ trades }: TradeLogProps) {
               >
                 #{sortIndicator('id')}
               </TableHead>
+              {showAsset && <TableHead className="text-slate-400">Asset</TableHead>}
+              <TableHead className="text-slate-400">Side</TableHead>
               <TableHead
                 className="cursor-pointer select-none text-slate-400 hover:text-slate-200"
                 onClick={() => handleSort('entryDate')}
@@ -116,7 +122,7 @@ function TradeLogInner({ trades }: TradeLogProps) {
                 className="cursor-pointer select-none text-slate-400 hover:text-slate-200 text-right"
                 onClick={() => handleSort('holdingDays')}
               >
-                Days{sortIndicator('holdingDays')}
+                Held{sortIndicator('holdingDays')}
               </TableHead>
               <TableHead className="text-slate-400">Reason</TableHead>
             </TableRow>
@@ -138,11 +144,19 @@ function TradeLogInner({ trades }: TradeLogProps) {
                   <TableCell className="text-slate-500 text-xs tabular-nums">
                     {trade.id}
                   </TableCell>
+                  {showAsset && (
+                    <TableCell className="text-slate-300 text-xs font-medium">
+                      {trade.asset}
+                    </TableCell>
+                  )}
+                  <TableCell className="text-slate-400 text-xs capitalize">
+                    {trade.side}
+                  </TableCell>
                   <TableCell className="text-slate-300 text-xs font-mono tabular-nums">
-                    {trade.entryDate}
+                    {formatCandleTime(trade.entryDate)}
                   </TableCell>
                   <TableCell className="text-slate-300 text-xs font-mono tabular-nums">
-                    {trade.exitDate}
+                    {formatCandleTime(trade.exitDate)}
                   </TableCell>
                   <TableCell className="text-slate-300 text-xs text-right font-mono tabular-nums">
                     {formatCurrency(trade.entryPrice)}
@@ -161,7 +175,7 @@ function TradeLogInner({ trades }: TradeLogProps) {
                     {formatPercent(trade.pnlPct)}
                   </TableCell>
                   <TableCell className="text-slate-300 text-xs text-right tabular-nums">
-                    {trade.holdingDays}
+                    {formatDuration(trade.holdingDays)}
                   </TableCell>
                   <TableCell className="text-slate-500 text-xs max-w-[120px] truncate">
                     {trade.exitReason}
@@ -0,0 +1,55 @@
+'use client';
+
+import { memo } from 'react';
+import type { UnfilledOrder } from '@/types/results';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils';
+
+interface UnfilledOrdersTableProps {
+  orders: UnfilledOrder[];
+}
+
+function UnfilledOrdersTableInner({ orders }: UnfilledOrdersTableProps) {
+  return (
+    <div className="rounded-lg border border-vt-line/50 bg-vt-bg2/30 overflow-hidden">
+      <div className="overflow-x-auto max-h-[240px] overflow-y-auto">
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-vt-bg3/90">
+            <TableRow className="border-b-vt-line/50 hover:bg-transparent">
+              <TableHead className="text-slate-400">Signal Date</TableHead>
+              <TableHead className="text-slate-400">Order</TableHead>
+              <TableHead className="text-slate-400 text-right">Price</TableHead>
+              <TableHead className="text-slate-400">Expired</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => (
+              <TableRow
+                key={`${order.signalDate}-${order.type}`}
+                className="border-b-vt-line/30 hover:bg-vt-bg3/30 even:bg-vt-bg3/15"
+              >
+                <TableCell className="text-slate-300 text-xs tabular-nums">{order.signalDate}</TableCell>
+                <TableCell className="text-slate-300 text-xs capitalize">
+                  {order.side === 'short' ? 'Sell' : 'Buy'} {order.type}
+                </TableCell>
+                <TableCell className="text-slate-300 text-xs text-right font-mono tabular-nums">
+                  {formatCurrency(order.price)}
+                </TableCell>
+                <TableCell className="text-slate-400 text-xs tabular-nums">{order.expiredDate}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export const UnfilledOrdersTable = memo(UnfilledOrdersTableInner);
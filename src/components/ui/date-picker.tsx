@@ -6,22 +6,30 @@ import {
   parse,
   startOfMonth,
   endOfMonth,
+  startOfWeek,
+  endOfWeek,
   eachDayOfInterval,
   addMonths,
   subMonths,
   isSameDay,
+  isSameWeek,
+  isSameMonth,
   isToday,
   getDay,
   setYear,
 } from 'date-fns';
 import { CalendarDays, ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { Timeframe } from '@/types/strategy';
 
 interface DatePickerProps {
   /** ISO date string: "2024-01-15" */
   value: string;
   onChange: (isoDate: string) => void;
   className?: string;
+  /** Weekly / monthly pickers select whole bars: picked dates snap to the bar's first or last day */
+  timeframe?: Timeframe;
+  edge?: 'start' | 'end';
 }
 
 function isoToDate(iso: string): Date | undefined {
@@ -33,10 +41,33 @@ function dateToIso(date: Date): string {
   return format(date, 'yyyy-MM-dd');
 }
 
+/** Snap an ISO date to the first (or last) day of the weekly / monthly bar containing it. */
+export function snapToTimeframe(iso: string, timeframe: Timeframe, edge: 'start' | 'end'): string {
+  const date = isoToDate(iso);
+  if (!date || (timeframe !== '1W' && timeframe !== '1M')) return iso;
+  if (timeframe === '1W') {
+    const snap = edge === 'start' ? startOfWeek : endOfWeek;
+    return dateToIso(snap(date, { weekStartsOn: 1 }));
+  }
+  return dateToIso(edge === 'start' ? startOfMonth(date) : endOfMonth(date));
+}
+
+function formatSelected(date: Date, timeframe: Timeframe): string {
+  if (timeframe === '1M') return format(date, 'MMM yyyy');
+  if (timeframe === '1W') return `Wk ${format(startOfWeek(date, { weekStartsOn: 1 }), 'dd.MM.yyyy')}`;
+  return format(date, 'dd.MM.yyyy');
+}
+
 const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
 const YEARS = Array.from({ length: 10 }, (_, i) => 2017 + i); // 2017–2026
 
-export function DatePicker({ value, onChange, className }: DatePickerProps) {
+export function DatePicker({
+  value,
+  onChange,
+  className,
+  timeframe = '1D',
+  edge = 'start',
+}: DatePickerProps) {
   const [open, setOpen] = useState(false);
   const [showYearPicker, setShowYearPicker] = useState(false);
   const [viewMonth, setViewMonth] = useState<Date>(
@@ -46,7 +77,7 @@ export function DatePicker({ value, onChange, className }: DatePickerProps) {
   const selected = isoToDate(value);
 
   const handleSelect = (date: Date) => {
-    onChange(dateToIso(date));
+    onChange(snapToTimeframe(dateToIso(date), timeframe, edge));
     setOpen(false);
     setShowYearPicker(false);
   };
@@ -85,7 +116,7 @@ export function DatePicker({ value, onChange, className }: DatePickerProps) {
             hover:text-vt transition-colors ${className ?? ''}`}
         >
           <span className={value ? 'text-slate-200' : 'text-slate-500'}>
-            {selected ? format(selected, 'dd.MM.yyyy') : 'Pick date'}
+            {selected ? formatSelected(selected, timeframe) : 'Pick date'}
           </span>
           <CalendarDays className="size-3.5 text-slate-400 shrink-0" />
         </button>
@@ -183,7 +214,13 @@ export function DatePicker({ value, onChange, className }: DatePickerProps) {
                 <div key={`pad-${i}`} />
               ))}
               {days.map((day) => {
-                const sel = selected ? isSameDay(day, selected) : false;
+                const sel = !selected
+                  ? false
+                  : timeframe === '1W'
+                    ? isSameWeek(day, selected, { weekStartsOn: 1 })
+                    : timeframe === '1M'
+                      ? isSameMonth(day, selected)
+                      : isSameDay(day, selected);
                 const tod = isToday(day);
                 return (
                   <button
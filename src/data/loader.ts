@@ -1,10 +1,50 @@
-import type { Candle } from '@/types/results';
-import type { AssetSymbol } from '@/types/strategy';
+import type { Candle, FundingPoint } from '@/types/results';
+import type { AssetSymbol, Timeframe } from '@/types/strategy';
 import { AssetSymbolSchema } from '@/types/strategy';
+import { resampleCandles } from './resample';
 
 const cache = new Map<AssetSymbol, Candle[]>();
+const resampledCache = new Map<string, Candle[]>(); // keyed "{ASSET}_{TIMEFRAME}", non-daily bars
+const fundingCache = new Map<AssetSymbol, FundingPoint[]>();
+const fileExistsCache = new Map<string, Promise<boolean>>(); // keyed by file name in public/data
+
+/** Whether public/data holds a file, checked once per name with a HEAD request. */
+function dataFileExists(name: string): Promise<boolean> {
+  let exists = fileExistsCache.get(name);
+  if (!exists) {
+    exists = fetch(`/data/${name}`, { method: 'HEAD' }).then((res) => res.ok, () => false);
+    fileExistsCache.set(name, exists);
+  }
+  return exists;
+}
+
+/**
+ * Candles for an asset. Daily and intraday bars load from
+ * public/data/{ASSET}_{TIMEFRAME}.json; weekly and monthly bars are
+ * resampled from the daily file.
+ */
+export async function loadCandles(asset: AssetSymbol, timeframe: Timeframe = '1D'): Promise<Candle[]> {
+  if (timeframe === '1H' || timeframe === '4H') {
+    const key = `${asset}_${timeframe}`;
+    const cachedBars = resampledCache.get(key);
+    if (cachedBars) return cachedBars;
+    const res = await fetch(`/data/${key}.json`);
+    if (!res.ok) {
+      throw new Error(`Failed to load ${timeframe} data for ${asset}: ${res.status}`);
+    }
+    const bars: Candle[] = await res.json();
+    resampledCache.set(key, bars);
+    return bars;
+  }
+
+  if (timeframe !== '1D') {
+    const cachedBars = resampledCache.get(`${asset}_${timeframe}`);
+    if (cachedBars) return cachedBars;
+    const bars = resampleCandles(await loadCandles(asset), timeframe);
+    resampledCache.set(`${asset}_${timeframe}`, bars);
+    return bars;
+  }
 
-export async function loadCandles(asset: AssetSymbol): Promise<Candle[]> {
   const cached = cache.get(asset);
   if (cached) return cached;
 
@@ -17,9 +57,47 @@ export async function loadCandles(asset: AssetSymbol): Promise<Candle[]> {
   return candles;
 }
 
+/** Daily funding-rate history for an asset, from public/data/{ASSET}_FUNDING.json. */
+export async function loadFundingRates(asset: AssetSymbol): Promise<FundingPoint[]> {
+  const cached = fundingCache.get(asset);
+  if (cached) return cached;
+
+  const res = await fetch(`/data/${asset}_FUNDING.json`);
+  if (!res.ok) {
+    throw new Error(`Failed to load funding rates for ${asset}: ${res.status}`);
+  }
+  const points: FundingPoint[] = await res.json();
+  fundingCache.set(asset, points);
+  return points;
+}
+
+/**
+ * Whether candles exist for an asset at a timeframe. Intraday files are
+ * optional (generated with scripts/fetch-data.ts --interval 1h / 4h); the
+ * other timeframes come from the daily file.
+ */
+export function hasCandles(asset: AssetSymbol, timeframe: Timeframe): Promise<boolean> {
+  if (timeframe === '1H' || timeframe === '4H') return dataFileExists(`${asset}_${timeframe}.json`);
+  return Promise.resolve(true);
+}
+
+/** Whether a funding-rate history has been generated for an asset. */
+export function hasFundingRates(asset: AssetSymbol): Promise<boolean> {
+  return dataFileExists(`${asset}_FUNDING.json`);
+}
+
 /** Synchronous cache lookup — returns undefined if not yet fetched. */
-export function getCachedCandles(asset: AssetSymbol): Candle[] | undefined {
-  return cache.get(asset);
+export function getCachedCandles(asset: AssetSymbol, timeframe: Timeframe = '1D'): Candle[] | undefined {
+  if (timeframe === '1D') return cache.get(asset);
+
+  const key = `${asset}_${timeframe}`;
+  const cachedBars = resampledCache.get(key);
+  if (cachedBars || timeframe === '1H' || timeframe === '4H') return cachedBars;
+  const daily = cache.get(asset);
+  if (!daily) return undefined;
+  const bars = resampleCandles(daily, timeframe);
+  resampledCache.set(key, bars);
+  return bars;
 }
 
 /** Fire-and-forget: prefetch OHLCV data for all 8 assets into cache. */
@@ -33,4 +111,7 @@ export function prefetchAllCandles(): void {
 
 export function clearCandleCache(): void {
   cache.clear();
+  resampledCache.clear();
+  fundingCache.clear();
+  fileExistsCache.clear();
 }
@@ -113,30 +113,9 @@ export const PRESETS: StrategyRuleSet[] = [
     },
     exit: {
       op: 'OR',
-      conditions: [
-        {
-          id: 'dip-exit-tp',
-          label: 'Take profit: pnl_pct >= 20%',
-          scope: 'position',
-          left: {
-            kind: 'indicator',
-            indicator: { type: 'pnl_pct' },
-          },
-          op: 'gte',
-          right: { kind: 'number', value: 20 },
-        },
-        {
-          id: 'dip-exit-sl',
-          label: 'Stop loss: pnl_pct <= -5%',
-          scope: 'position',
-          left: {
-            kind: 'indicator',
-            indicator: { type: 'pnl_pct' },
-          },
-          op: 'lte',
-          right: { kind: 'number', value: -5 },
-        },
-      ],
+      conditions: [],
+      stopLossPct: 5,
+      takeProfitPct: 20,
     },
     sizing: { type: 'percent_equity', valuePct: 100 },
   },
@@ -271,6 +250,30 @@ export const PRESETS: StrategyRuleSet[] = [
     },
     sizing: { type: 'percent_equity', valuePct: 100 },
   },
+
+  {
+    id: 'preset-btc-eth-rebalance',
+    name: '60/40 BTC-ETH Rebalance',
+    description:
+      'Hold 60% BTC and 40% ETH, trading back to target weights every 30 days',
+    mode: {
+      type: 'rebalance',
+      targets: [
+        { asset: 'BTC', weightPct: 60 },
+        { asset: 'ETH', weightPct: 40 },
+      ],
+      trigger: { type: 'calendar', intervalDays: 30 },
+    },
+    entry: {
+      op: 'AND',
+      conditions: [],
+    },
+    exit: {
+      op: 'AND',
+      conditions: [],
+    },
+    sizing: { type: 'percent_equity', valuePct: 100 },
+  },
 ];
 
 export function getPresetById(id: string): StrategyRuleSet | undefined {
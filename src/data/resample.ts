@@ -0,0 +1,115 @@
+import type { Candle } from '@/types/results';
+import type { Timeframe } from '@/types/strategy';
+import { formatTimestamp, parseTimestamp } from '@/lib/time';
+
+const MS_PER_HOUR = 3_600_000;
+
+const TIMEFRAME_RANK: Record<Timeframe, number> = { '1H': 0, '4H': 1, '1D': 2, '1W': 3, '1M': 4 };
+
+/** True when `timeframe` spans more than one bar of the `base` timeframe. */
+export function isHigherTimeframe(
+  timeframe: Timeframe | undefined,
+  base: Timeframe,
+): timeframe is Exclude<Timeframe, '1H'> {
+  return timeframe !== undefined && TIMEFRAME_RANK[timeframe] > TIMEFRAME_RANK[base];
+}
+
+/**
+ * Start timestamp of the period a candle falls in. 4-hour periods start on
+ * UTC hours divisible by 4, days at UTC midnight, weeks on Monday, months on
+ * the 1st. Daily and longer periods are dated "YYYY-MM-DD".
+ */
+function periodStart(t: string, timeframe: Exclude<Timeframe, '1H'>): string {
+  if (timeframe === '4H') {
+    const ms = parseTimestamp(t);
+    return formatTimestamp(ms - (ms % (4 * MS_PER_HOUR)));
+  }
+  const date = t.slice(0, 10);
+  if (timeframe === '1D') return date;
+  if (timeframe === '1M') {
+    return `${date.slice(0, 7)}-01`;
+  }
+  const d = new Date(date + 'T00:00:00Z');
+  const daysSinceMonday = (d.getUTCDay() + 6) % 7;
+  d.setUTCDate(d.getUTCDate() - daysSinceMonday);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Aggregate candles into longer bars: open of the first candle, highest
+ * high, lowest low, close of the last candle and summed volume. Each bar is
+ * dated by its period start. The first and last bars can cover only part of
+ * their period when the history starts or ends mid-period. Candles already
+ * at or above the target timeframe are returned unchanged.
+ */
+export function resampleCandles(
+  candles: Candle[],
+  timeframe: Timeframe,
+  from: Timeframe = '1D',
+): Candle[] {
+  if (timeframe === '1H' || !isHigherTimeframe(timeframe, from)) return candles;
+
+  const bars: Candle[] = [];
+  let current: Candle | null = null;
+
+  for (const c of candles) {
+    const t = periodStart(c.t, timeframe);
+    if (current === null || current.t !== t) {
+      current = { t, o: c.o, h: c.h, l: c.l, c: c.c, v: c.v };
+      bars.push(current);
+      continue;
+    }
+    current.h = Math.max(current.h, c.h);
+    current.l = Math.min(current.l, c.l);
+    current.c = c.c;
+    current.v += c.v;
+  }
+
+  return bars;
+}
+
+/** Calendar start of the bar that follows the one stamped `t`. */
+function nextBarStart(t: string, timeframe: Timeframe): string {
+  if (timeframe === '1H' || timeframe === '4H') {
+    const hours = timeframe === '1H' ? 1 : 4;
+    return formatTimestamp(parseTimestamp(t) + hours * MS_PER_HOUR);
+  }
+  const d = new Date(t.slice(0, 10) + 'T00:00:00Z');
+  if (timeframe === '1M') {
+    d.setUTCMonth(d.getUTCMonth() + 1, 1);
+  } else {
+    d.setUTCDate(d.getUTCDate() + (timeframe === '1W' ? 7 : 1));
+  }
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * For each candle of the `base` timeframe, the index into
+ * resampleCandles(candles, timeframe, base) of the latest longer bar that
+ * has fully closed by that candle's close, or null before the first one
+ * closes. A bar closes on the base candle whose successor falls in the next
+ * period, judged by the calendar rather than by the data, so a still-forming
+ * bar is never visible.
+ */
+export function closedBarIndex(
+  candles: Candle[],
+  timeframe: Exclude<Timeframe, '1H'>,
+  base: Timeframe,
+): (number | null)[] {
+  const result: (number | null)[] = [];
+  let barIndex = -1;
+  let currentStart: string | null = null;
+
+  for (const c of candles) {
+    const start = periodStart(c.t, timeframe);
+    if (start !== currentStart) {
+      currentStart = start;
+      barIndex++;
+    }
+    const closed = periodStart(nextBarStart(c.t, base), timeframe) !== start;
+    const index = closed ? barIndex : barIndex - 1;
+    result.push(index >= 0 ? index : null);
+  }
+
+  return result;
+}
@@ -1,21 +1,35 @@
 import type {
+  AssetBreakdown,
   BacktestConfig,
   BacktestResult,
   Candle,
+  CarryCost,
+  FillModel,
+  FundingPoint,
   Trade,
+  UnfilledOrder,
   EquityPoint,
   PerformanceMetrics,
 } from '@/types/results';
 import type {
+  AssetSymbol,
   StrategyRuleSet,
-  Condition,
+  ConditionGroup,
+  ExitGroup,
+  IndicatorOperand,
   IndicatorSpec,
-  Operand,
+  PositionSide,
+  PositionSizing,
+  ReentryRules,
+  Timeframe,
+  TrailingStop,
 } from '@/types/strategy';
-import type { IndicatorCache, OpenPosition } from './types';
-import { evaluateGroup, indicatorKey } from './evaluator';
-import { computeBenchmark } from './benchmark';
-import { computeMetrics, buildAuditInfo } from '@/metrics/compute';
+import { flattenConditions, indicatorOperands } from '@/types/strategy';
+import type { IndicatorCache, OpenPosition, PendingEntryOrder, PositionLot } from './types';
+import { evaluateExitSignal, evaluateGroup, indicatorKey } from './evaluator';
+import { computeBenchmark, computePortfolioBenchmark } from './benchmark';
+import { DEFAULT_FILL_MODEL, fillBarPrice, fillLag, fillsAtOpen } from './fills';
+import { computeMetrics, buildAuditInfo, groupRoundTrips, barLengthDays, isWin } from '@/metrics/compute';
 import {
   computeSMA,
   computeEMA,
@@ -24,12 +38,42 @@ import {
   computeBollinger,
   computeATR,
   computePctChange,
+  computeHighest,
+  computeLowest,
+  computeStochastic,
+  computeWilliamsR,
+  computeCCI,
+  computeMFI,
+  computeADX,
+  computePSAR,
+  computeSupertrend,
+  computeOBV,
+  computeVWAP,
+  computeRelativeVolume,
+  computeWMA,
+  computeHMA,
+  computeDEMA,
+  computeTEMA,
+  computeKAMA,
+  computeKeltner,
+  computeDonchian,
 } from '@/indicators/index';
+import { closedBarIndex, isHigherTimeframe, resampleCandles } from '@/data/resample';
+import { daysBetween, inDateRange, parseTimestamp } from '@/lib/time';
+
+/** Maintenance margin for levered positions when the config leaves it unset (% of notional) */
+const DEFAULT_MAINTENANCE_MARGIN_PCT = 0.5;
+
+/** Daily interest on borrowed notional when the config leaves it unset (~11% a year) */
+const DEFAULT_BORROW_COST_BPS_PER_DAY = 3;
+
+/** Bars a limit / stop entry order rests when its time-in-force is unset */
+const DEFAULT_ORDER_TIF_BARS = 1;
 
 /** Position-scope indicator types that are computed at runtime, not pre-cached */
 const POSITION_SCOPE_TYPES = new Set(['pnl_pct', 'bars_in_trade']);
 
-/** Price/volume types read directly from candle data, not pre-cached */
+/** Price/volume types read directly from candle data, not pre-cached unless on a higher timeframe */
 const CANDLE_DIRECT_TYPES = new Set([
   'price_close',
   'price_open',
@@ -38,51 +82,102 @@ const CANDLE_DIRECT_TYPES = new Set([
   'volume',
 ]);
 
+/** Indicator operands in the entry, exit and scaling triggers, including those inside expressions. */
+function ruleIndicatorOperands(rules: StrategyRuleSet): IndicatorOperand[] {
+  const groups = [
+    rules.entry,
+    rules.exit,
+    ...(rules.scaleIn ? [rules.scaleIn.trigger] : []),
+    ...(rules.scaleOut ?? []).map((step) => step.trigger),
+  ];
+  return groups
+    .flatMap(flattenConditions)
+    .flatMap((cond) => [cond.left, cond.right])
+    .flatMap(indicatorOperands);
+}
+
 function collectIndicators(rules: StrategyRuleSet): IndicatorSpec[] {
   const seen = new Set<string>();
   const specs: IndicatorSpec[] = [];
 
   function addSpec(spec: IndicatorSpec): void {
     if (POSITION_SCOPE_TYPES.has(spec.type)) return;
-    if (CANDLE_DIRECT_TYPES.has(spec.type)) return;
+    if (CANDLE_DIRECT_TYPES.has(spec.type) && spec.timeframe === undefined) return;
     const key = indicatorKey(spec);
     if (seen.has(key)) return;
     seen.add(key);
     specs.push(spec);
   }
 
-  function walkOperand(operand: Operand): void {
-    if (operand.kind === 'indicator') {
-      addSpec(operand.indicator);
-    }
+  for (const operand of ruleIndicatorOperands(rules)) {
+    addSpec(operand.indicator);
   }
 
-  function walkConditions(conditions: Condition[]): void {
-    for (const cond of conditions) {
-      walkOperand(cond.left);
-      walkOperand(cond.right);
-    }
+  const trailingStop = rules.exit.trailingStop;
+  if (trailingStop?.type === 'atr') {
+    addSpec(trailingAtrSpec(trailingStop));
+  }
+  if (rules.sizing.type === 'atr_volatility') {
+    addSpec(sizingAtrSpec(rules.sizing));
   }
-
-  walkConditions(rules.entry.conditions);
-  walkConditions(rules.exit.conditions);
 
   return specs;
 }
 
-function computeWarmup(specs: IndicatorSpec[]): number {
+/**
+ * Candles to skip before every indicator has a value. Higher-timeframe
+ * indicators are read off the aligned cache: their first value only appears
+ * once enough higher-timeframe bars have closed. Operands read N bars back
+ * need their indicator's warmup plus N.
+ */
+function computeWarmup(
+  specs: IndicatorSpec[],
+  cache: IndicatorCache = {},
+  timeframe: Timeframe = '1D',
+  operands: IndicatorOperand[] = [],
+): number {
   let maxWarmup = 0;
 
   for (const spec of specs) {
     let warmup = 0;
 
+    if (isHigherTimeframe(spec.timeframe, timeframe)) {
+      const values = cache[indicatorKey(spec)] ?? [];
+      const first = values.findIndex((v) => v !== null);
+      warmup = first === -1 ? values.length : first;
+      if (warmup > maxWarmup) maxWarmup = warmup;
+      continue;
+    }
+
     switch (spec.type) {
       case 'sma':
       case 'ema':
+      case 'wma':
         // First valid value at index period-1, so need period-1 warmup candles
         warmup = (spec.period ?? 14) - 1;
         break;
 
+      case 'hma': {
+        // WMA(period), then a WMA(sqrt(period)) over it
+        const period = spec.period ?? 14;
+        warmup = (period - 1) + (Math.floor(Math.sqrt(period)) - 1);
+        break;
+      }
+
+      case 'dema':
+        // Each EMA pass adds period-1
+        warmup = 2 * ((spec.period ?? 14) - 1);
+        break;
+
+      case 'tema':
+        warmup = 3 * ((spec.period ?? 14) - 1);
+        break;
+
+      case 'kama':
+        // Efficiency ratio needs period changes
+        warmup = spec.period ?? 10;
+        break;
+
       case 'rsi':
         // RSI needs period+1 data points, first value at index period
         warmup = spec.period ?? 14;
@@ -104,6 +199,22 @@ function computeWarmup(specs: IndicatorSpec[]): number {
         warmup = (spec.period ?? 20) - 1;
         break;
 
+      case 'kc_upper':
+      case 'kc_lower':
+        // Bands wait for the ATR, one bar after the EMA midline
+        warmup = spec.period ?? 20;
+        break;
+
+      case 'kc_middle':
+        warmup = (spec.period ?? 20) - 1;
+        break;
+
+      case 'dc_upper':
+      case 'dc_middle':
+      case 'dc_lower':
+        warmup = (spec.period ?? 20) - 1;
+        break;
+
       case 'atr':
         // ATR first value at index period (needs period+1 data for TR)
         warmup = spec.period ?? 14;
@@ -114,6 +225,58 @@ function computeWarmup(specs: IndicatorSpec[]): number {
         warmup = spec.period ?? 1;
         break;
 
+      case 'highest':
+      case 'lowest':
+        warmup = (spec.period ?? 20) - 1;
+        break;
+
+      case 'stoch_k':
+        warmup = (spec.period ?? 14) - 1;
+        break;
+
+      case 'stoch_d':
+        // %D averages signalPeriod values of %K
+        warmup = (spec.period ?? 14) - 1 + (spec.signalPeriod ?? 3) - 1;
+        break;
+
+      case 'williams_r':
+        warmup = (spec.period ?? 14) - 1;
+        break;
+
+      case 'cci':
+        warmup = (spec.period ?? 20) - 1;
+        break;
+
+      case 'mfi':
+        // Money flow direction needs the previous bar, like RSI
+        warmup = spec.period ?? 14;
+        break;
+
+      case 'plus_di':
+      case 'minus_di':
+        warmup = spec.period ?? 14;
+        break;
+
+      case 'adx':
+        // DX available at index period, ADX averages period DX values
+        warmup = 2 * (spec.period ?? 14) - 1;
+        break;
+
+      case 'psar':
+        warmup = 1;
+        break;
+
+      case 'supertrend':
+        // First value with the first ATR
+        warmup = spec.period ?? 10;
+        break;
+
+      case 'volume_sma':
+      case 'vwap':
+      case 'rel_volume':
+        warmup = (spec.period ?? 20) - 1;
+        break;
+
       default:
         warmup = 0;
     }
@@ -123,6 +286,16 @@ function computeWarmup(specs: IndicatorSpec[]): number {
     }
   }
 
+  for (const operand of operands) {
+    const offset = operand.offset ?? 0;
+    // Position-scope values count from the entry, not from the start of data
+    if (offset === 0 || POSITION_SCOPE_TYPES.has(operand.indicator.type)) continue;
+    const warmup = computeWarmup([operand.indicator], cache, timeframe) + offset;
+    if (warmup > maxWarmup) {
+      maxWarmup = warmup;
+    }
+  }
+
   return Math.max(maxWarmup, 0);
 }
 
@@ -140,9 +313,51 @@ function getSourceData(candles: Candle[], source?: string): number[] {
   }
 }
 
+function withoutTimeframe(spec: IndicatorSpec): IndicatorSpec {
+  const rest = { ...spec };
+  delete rest.timeframe;
+  return rest;
+}
+
+/**
+ * Precompute every indicator series, aligned to `candles`. Specs on a higher
+ * timeframe than the backtest are computed on resampled bars and each candle
+ * sees the value of the latest fully closed higher-timeframe bar. Specs on the
+ * backtest timeframe or lower are computed on the candles themselves.
+ */
 function precomputeIndicators(
   candles: Candle[],
   specs: IndicatorSpec[],
+  timeframe: Timeframe = '1D',
+): IndicatorCache {
+  const baseSpecs = specs.filter((s) => !isHigherTimeframe(s.timeframe, timeframe));
+  const cache = computeIndicatorSeries(candles, baseSpecs.map(withoutTimeframe));
+  for (const spec of baseSpecs) {
+    if (spec.timeframe === undefined) continue;
+    const values = cache[indicatorKey(withoutTimeframe(spec))];
+    if (values) cache[indicatorKey(spec)] = values;
+  }
+
+  const higher = new Set(
+    specs.flatMap((s) => (s.timeframe && isHigherTimeframe(s.timeframe, timeframe) ? [s.timeframe] : [])),
+  );
+  for (const tf of higher) {
+    const tfSpecs = specs.filter((s) => s.timeframe === tf);
+    const barCache = computeIndicatorSeries(resampleCandles(candles, tf, timeframe), tfSpecs.map(withoutTimeframe));
+    const closed = closedBarIndex(candles, tf, timeframe);
+    for (const spec of tfSpecs) {
+      const values = barCache[indicatorKey(withoutTimeframe(spec))];
+      if (!values) continue;
+      cache[indicatorKey(spec)] = closed.map((k) => (k === null ? null : values[k] ?? null));
+    }
+  }
+
+  return cache;
+}
+
+function computeIndicatorSeries(
+  candles: Candle[],
+  specs: IndicatorSpec[],
 ): IndicatorCache {
   const cache: IndicatorCache = {};
 
@@ -150,6 +365,22 @@ function precomputeIndicators(
     const src = getSourceData(candles, spec.source);
 
     switch (spec.type) {
+      case 'price_close':
+        cache[indicatorKey(spec)] = candles.map((c) => c.c);
+        break;
+      case 'price_open':
+        cache[indicatorKey(spec)] = candles.map((c) => c.o);
+        break;
+      case 'price_high':
+        cache[indicatorKey(spec)] = candles.map((c) => c.h);
+        break;
+      case 'price_low':
+        cache[indicatorKey(spec)] = candles.map((c) => c.l);
+        break;
+      case 'volume':
+        cache[indicatorKey(spec)] = candles.map((c) => c.v);
+        break;
+
       case 'sma': {
         const period = spec.period ?? 14;
         cache[indicatorKey(spec)] = computeSMA(src, period);
@@ -162,6 +393,36 @@ function precomputeIndicators(
         break;
       }
 
+      case 'wma': {
+        const period = spec.period ?? 14;
+        cache[indicatorKey(spec)] = computeWMA(src, period);
+        break;
+      }
+
+      case 'hma': {
+        const period = spec.period ?? 14;
+        cache[indicatorKey(spec)] = computeHMA(src, period);
+        break;
+      }
+
+      case 'dema': {
+        const period = spec.period ?? 14;
+        cache[indicatorKey(spec)] = computeDEMA(src, period);
+        break;
+      }
+
+      case 'tema': {
+        const period = spec.period ?? 14;
+        cache[indicatorKey(spec)] = computeTEMA(src, period);
+        break;
+      }
+
+      case 'kama': {
+        const period = spec.period ?? 10;
+        cache[indicatorKey(spec)] = computeKAMA(src, period, spec.fastPeriod ?? 2, spec.slowPeriod ?? 30);
+        break;
+      }
+
       case 'rsi': {
         const period = spec.period ?? 14;
         cache[indicatorKey(spec)] = computeRSI(src, period);
@@ -202,6 +463,39 @@ function precomputeIndicators(
         break;
       }
 
+      case 'kc_upper':
+      case 'kc_middle':
+      case 'kc_lower': {
+        const period = spec.period ?? 20;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        const kc = computeKeltner(highs, lows, closes, period, spec.multiplier ?? 2);
+        const upperKey = indicatorKey({ ...spec, type: 'kc_upper' });
+        const middleKey = indicatorKey({ ...spec, type: 'kc_middle' });
+        const lowerKey = indicatorKey({ ...spec, type: 'kc_lower' });
+        if (!(upperKey in cache)) cache[upperKey] = kc.upper;
+        if (!(middleKey in cache)) cache[middleKey] = kc.middle;
+        if (!(lowerKey in cache)) cache[lowerKey] = kc.lower;
+        break;
+      }
+
+      case 'dc_upper':
+      case 'dc_middle':
+      case 'dc_lower': {
+        const period = spec.period ?? 20;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const dc = computeDonchian(highs, lows, period);
+        const upperKey = indicatorKey({ ...spec, type: 'dc_upper' });
+        const middleKey = indicatorKey({ ...spec, type: 'dc_middle' });
+        const lowerKey = indicatorKey({ ...spec, type: 'dc_lower' });
+        if (!(upperKey in cache)) cache[upperKey] = dc.upper;
+        if (!(middleKey in cache)) cache[middleKey] = dc.middle;
+        if (!(lowerKey in cache)) cache[lowerKey] = dc.lower;
+        break;
+      }
+
       case 'atr': {
         const period = spec.period ?? 14;
         const highs = candles.map((c) => c.h);
@@ -216,6 +510,127 @@ function precomputeIndicators(
         cache[indicatorKey(spec)] = computePctChange(src, period);
         break;
       }
+
+      case 'highest': {
+        // Channel bounds track highs and lows unless a source is given
+        const period = spec.period ?? 20;
+        cache[indicatorKey(spec)] = computeHighest(getSourceData(candles, spec.source ?? 'high'), period);
+        break;
+      }
+
+      case 'lowest': {
+        const period = spec.period ?? 20;
+        cache[indicatorKey(spec)] = computeLowest(getSourceData(candles, spec.source ?? 'low'), period);
+        break;
+      }
+
+      case 'stoch_k':
+      case 'stoch_d': {
+        const period = spec.period ?? 14;
+        const dPeriod = spec.signalPeriod ?? 3;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        // Store both lines; the other one may be asked for with the same params
+        const stoch = computeStochastic(highs, lows, closes, period, dPeriod);
+        const kKey = indicatorKey({ ...spec, type: 'stoch_k' });
+        const dKey = indicatorKey({ ...spec, type: 'stoch_d' });
+        if (!(kKey in cache)) cache[kKey] = stoch.k;
+        if (!(dKey in cache)) cache[dKey] = stoch.d;
+        break;
+      }
+
+      case 'williams_r': {
+        const period = spec.period ?? 14;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        cache[indicatorKey(spec)] = computeWilliamsR(highs, lows, closes, period);
+        break;
+      }
+
+      case 'cci': {
+        const period = spec.period ?? 20;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        cache[indicatorKey(spec)] = computeCCI(highs, lows, closes, period);
+        break;
+      }
+
+      case 'mfi': {
+        const period = spec.period ?? 14;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        const volumes = candles.map((c) => c.v);
+        cache[indicatorKey(spec)] = computeMFI(highs, lows, closes, volumes, period);
+        break;
+      }
+
+      case 'adx':
+      case 'plus_di':
+      case 'minus_di': {
+        const period = spec.period ?? 14;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        // Store all three lines from the one smoothing pass
+        const dmi = computeADX(highs, lows, closes, period);
+        const adxKey = indicatorKey({ ...spec, type: 'adx' });
+        const plusKey = indicatorKey({ ...spec, type: 'plus_di' });
+        const minusKey = indicatorKey({ ...spec, type: 'minus_di' });
+        if (!(adxKey in cache)) cache[adxKey] = dmi.adx;
+        if (!(plusKey in cache)) cache[plusKey] = dmi.plusDI;
+        if (!(minusKey in cache)) cache[minusKey] = dmi.minusDI;
+        break;
+      }
+
+      case 'psar': {
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        cache[indicatorKey(spec)] = computePSAR(highs, lows, closes, spec.step ?? 0.02, spec.maxStep ?? 0.2);
+        break;
+      }
+
+      case 'supertrend': {
+        const period = spec.period ?? 10;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        cache[indicatorKey(spec)] = computeSupertrend(highs, lows, closes, period, spec.multiplier ?? 3).line;
+        break;
+      }
+
+      case 'obv': {
+        const closes = candles.map((c) => c.c);
+        const volumes = candles.map((c) => c.v);
+        cache[indicatorKey(spec)] = computeOBV(closes, volumes);
+        break;
+      }
+
+      case 'volume_sma': {
+        const period = spec.period ?? 20;
+        cache[indicatorKey(spec)] = computeSMA(candles.map((c) => c.v), period);
+        break;
+      }
+
+      case 'vwap': {
+        const period = spec.period ?? 20;
+        const highs = candles.map((c) => c.h);
+        const lows = candles.map((c) => c.l);
+        const closes = candles.map((c) => c.c);
+        const volumes = candles.map((c) => c.v);
+        cache[indicatorKey(spec)] = computeVWAP(highs, lows, closes, volumes, period);
+        break;
+      }
+
+      case 'rel_volume': {
+        const period = spec.period ?? 20;
+        cache[indicatorKey(spec)] = computeRelativeVolume(candles.map((c) => c.v), period);
+        break;
+      }
     }
   }
 
@@ -239,6 +654,8 @@ function emptyMetrics(): PerformanceMetrics {
     worstTradePct: 0,
     avgHoldingDays: 0,
     exposureTimePct: 0,
+    liquidations: 0,
+    maxEffectiveLeverage: 0,
   };
 }
 
@@ -252,6 +669,7 @@ function emptyResult(config: BacktestConfig): BacktestResult {
     indicatorData: {},
     audit: buildAuditInfo({
       feeBps: config.feeBps,
+      timeframe: config.timeframe,
       slippageBps: config.slippageBps,
       warmupCandles: 0,
       startDate: config.startDate,
@@ -262,90 +680,699 @@ function emptyResult(config: BacktestConfig): BacktestResult {
   };
 }
 
-function daysBetween(a: string, b: string): number {
-  const msPerDay = 86_400_000;
-  const da = new Date(a + 'T00:00:00Z');
-  const db = new Date(b + 'T00:00:00Z');
-  return Math.round(Math.abs(db.getTime() - da.getTime()) / msPerDay);
+/**
+ * Mark-to-market value of an open position at a given price.
+ * A short is valued as its collateral plus the gain from the price falling
+ * below entry, so it loses value as price rises. Borrowed notional (levered
+ * positions) and accrued carry are owed back pro rata to the units valued.
+ */
+function positionValue(
+  position: OpenPosition,
+  price: number,
+  units: number = position.units,
+): number {
+  const debt = (position.borrowed + position.carryAccrued) * (units / position.units);
+  if (position.side === 'short') {
+    return units * (2 * position.entryPrice - price) - debt;
+  }
+  return units * price - debt;
 }
 
-export function runBacktest(
-  config: BacktestConfig,
-  allCandles: Candle[],
-): BacktestResult {
-  const candles = allCandles.filter(
-    (c) => c.t >= config.startDate && c.t <= config.endDate,
-  );
+/**
+ * Net cash returned when closing `units` of a position at fillPrice, after the
+ * exit fee. A levered position is isolated margin: it can lose its margin but
+ * never more.
+ */
+function closeProceeds(
+  position: OpenPosition,
+  fillPrice: number,
+  feeFrac: number,
+  units: number = position.units,
+): number {
+  const exitFee = units * fillPrice * feeFrac;
+  const proceeds = positionValue(position, fillPrice, units) - exitFee;
+  return position.borrowed > 0 ? Math.max(0, proceeds) : proceeds;
+}
 
-  if (candles.length === 0) {
-    return emptyResult(config);
+/**
+ * The resting order price reaches first when moving against the position:
+ * the highest of the fixed stop, trailing stop and liquidation level for a
+ * long, the lowest for a short. Ties go to the fixed stop.
+ */
+function nearestStop(position: OpenPosition): { level: number; reason: string } | null {
+  const candidates: { level: number; reason: string }[] = [];
+  if (position.stopPrice !== undefined) {
+    candidates.push({ level: position.stopPrice, reason: 'Stop loss' });
   }
-
-  if (config.rules.mode.type === 'dca') {
-    return runDCABacktest(config, candles);
+  if (position.trailingStopPrice !== undefined) {
+    candidates.push({ level: position.trailingStopPrice, reason: 'Trailing stop' });
+  }
+  if (position.liquidationPrice !== undefined) {
+    candidates.push({ level: position.liquidationPrice, reason: 'Liquidated' });
   }
+  if (candidates.length === 0) return null;
 
-  return runStandardBacktest(config, candles);
+  const isShort = position.side === 'short';
+  return candidates.reduce((nearest, c) =>
+    (isShort ? c.level < nearest.level : c.level > nearest.level) ? c : nearest,
+  );
 }
 
-function runStandardBacktest(
-  config: BacktestConfig,
-  candles: Candle[],
-): BacktestResult {
-  const { rules, initialCapital, feeBps, slippageBps } = config;
-  const slippageFrac = slippageBps / 10_000;
-  const feeFrac = feeBps / 10_000;
+/**
+ * Price at which a levered position's equity falls to `maintenanceFrac` of its
+ * notional. Undefined for unlevered positions, which are never liquidated.
+ */
+function liquidationPrice(position: OpenPosition, maintenanceFrac: number): number | undefined {
+  const { units, borrowed, entryPrice } = position;
+  if (borrowed <= 0 || units <= 0) return undefined;
+  if (position.side === 'short') {
+    // units × (2 × entry − p) − borrowed = m × units × p
+    return (2 * entryPrice * units - borrowed) / (units * (1 + maintenanceFrac));
+  }
+  // units × p − borrowed = m × units × p
+  return borrowed / (units * (1 - maintenanceFrac));
+}
 
-  const specs = collectIndicators(rules);
-  const warmup = computeWarmup(specs);
-  const cache = precomputeIndicators(candles, specs);
+/**
+ * Check whether a candle trades through the position's stop (fixed,
+ * trailing or liquidation level) or take-profit. Returns the raw fill price — the order price, or
+ * the open if the bar gapped through it — and the exit reason. When a stop and
+ * the target both sit inside the same bar the stop is assumed to fill first.
+ */
+function checkProtectiveExit(
+  position: OpenPosition,
+  candle: Candle,
+): { price: number; reason: string } | null {
+  const stop = nearestStop(position);
+  const { takeProfitPrice } = position;
+
+  if (position.side === 'short') {
+    if (stop && candle.h >= stop.level) {
+      return { price: Math.max(candle.o, stop.level), reason: stop.reason };
+    }
+    if (takeProfitPrice !== undefined && candle.l <= takeProfitPrice) {
+      return { price: Math.min(candle.o, takeProfitPrice), reason: 'Take profit' };
+    }
+    return null;
+  }
 
-  if (warmup >= candles.length) {
-    return {
-      config,
-      trades: [],
-      equityCurve: [],
-      metrics: emptyMetrics(),
-      benchmark: { totalReturn: 0, equityCurve: [], description: 'Warmup exceeds data range' },
-      indicatorData: cache,
-      audit: buildAuditInfo({
-        feeBps,
-        slippageBps,
-        warmupCandles: warmup,
-        startDate: candles[0].t,
-        endDate: candles[candles.length - 1].t,
-        totalCandles: candles.length,
-        tradableCandles: 0,
-      }),
-    };
+  if (stop && candle.l <= stop.level) {
+    return { price: Math.min(candle.o, stop.level), reason: stop.reason };
+  }
+  if (takeProfitPrice !== undefined && candle.h >= takeProfitPrice) {
+    return { price: Math.max(candle.o, takeProfitPrice), reason: 'Take profit' };
   }
+  return null;
+}
 
-  const tradableCandles = candles.slice(warmup);
-  const benchmark = computeBenchmark(
-    tradableCandles,
-    initialCapital,
-    feeBps,
-    slippageBps,
-  );
+/**
+ * Check whether a candle trades through a resting entry order. Returns the raw
+ * fill price — the order level, or the open if the bar gapped through it —
+ * or null when the order is not reached.
+ */
+function checkEntryOrder(
+  order: PendingEntryOrder,
+  side: PositionSide,
+  candle: Candle,
+): number | null {
+  // A buy limit or a short-sale stop fills when price trades down to it
+  const fillsOnDip = (order.type === 'limit') === (side === 'long');
+  if (fillsOnDip) {
+    return candle.l <= order.price ? Math.min(candle.o, order.price) : null;
+  }
+  return candle.h >= order.price ? Math.max(candle.o, order.price) : null;
+}
 
-  const benchmarkByDate = new Map<string, number>();
-  const benchmarkDrawdownByDate = new Map<string, number>();
-  for (const pt of benchmark.equityCurve) {
-    benchmarkByDate.set(pt.date, pt.benchmarkEquity);
-    benchmarkDrawdownByDate.set(pt.date, pt.benchmarkDrawdownPct);
+/**
+ * Distance of the trailing stop from the extreme price, or null while the
+ * ATR it depends on is still warming up.
+ */
+function trailingDistance(
+  trailingStop: TrailingStop,
+  extreme: number,
+  i: number,
+  cache: IndicatorCache,
+): number | null {
+  if (trailingStop.type === 'percent') {
+    return extreme * (trailingStop.valuePct / 100);
   }
+  const atr = cache[indicatorKey(trailingAtrSpec(trailingStop))]?.[i] ?? null;
+  return atr === null ? null : atr * trailingStop.multiple;
+}
 
-  let capital = initialCapital;
-  let position: OpenPosition | null = null;
+function trailingAtrSpec(trailingStop: Extract<TrailingStop, { type: 'atr' }>): IndicatorSpec {
+  return { type: 'atr', period: trailingStop.period ?? 14 };
+}
+
+/**
+ * Fold candle i into the trailing stop: track the best price since entry and
+ * ratchet the stop behind it. The stop never loosens.
+ */
+function updateTrailingStop(
+  position: OpenPosition,
+  trailingStop: TrailingStop,
+  candle: Candle,
+  i: number,
+  cache: IndicatorCache,
+): void {
+  const isShort = position.side === 'short';
+  const prevExtreme = position.trailExtreme ?? position.entryPrice;
+  const extreme = isShort ? Math.min(prevExtreme, candle.l) : Math.max(prevExtreme, candle.h);
+  position.trailExtreme = extreme;
+
+  const distance = trailingDistance(trailingStop, extreme, i, cache);
+  if (distance === null) return;
+
+  const level = isShort ? extreme + distance : extreme - distance;
+  const current = position.trailingStopPrice;
+  if (current === undefined || (isShort ? level < current : level > current)) {
+    position.trailingStopPrice = level;
+  }
+}
+
+/** Side, costs and leverage shared by every entry fill in a run. */
+interface EntryTerms {
+  side: PositionSide;
+  fillModel: FillModel;
+  leverage: number;
+  maintenanceFrac: number;
+  feeFrac: number;
+  slippageFrac: number;
+}
+
+/**
+ * Buy (or short) `size` dollars of margin, levered to size × leverage of
+ * notional, on candle fillIndex at `price` (its fill-model price by default)
+ * with `slippage` applied adversely and the entry fee on the notional. The
+ * caller pays `size` out of its cash.
+ */
+function fillLot(
+  candles: Candle[],
+  fillIndex: number,
+  size: number,
+  terms: EntryTerms,
+  price: number = fillBarPrice(terms.fillModel, candles[fillIndex]),
+  slippage: number = terms.slippageFrac,
+): PositionLot {
+  const direction = terms.side === 'short' ? -1 : 1;
+  const fillPrice = price * (1 + direction * slippage);
+  const notional = size * terms.leverage;
+  const fee = notional * terms.feeFrac;
+  const units = (notional - fee) / fillPrice;
+  return {
+    entryPrice: fillPrice,
+    entryIndex: fillIndex,
+    entryDate: candles[fillIndex].t,
+    units,
+    positionSize: size,
+  };
+}
+
+/** Anchor fixed stop-loss / take-profit levels on the average entry price. */
+function anchorExitLevels(open: OpenPosition, exit: ExitGroup): void {
+  const direction = open.side === 'short' ? -1 : 1;
+  const { stopLossPct, takeProfitPct } = exit;
+  if (stopLossPct !== undefined) {
+    open.stopPrice = open.entryPrice * (1 - direction * (stopLossPct / 100));
+  }
+  if (takeProfitPct !== undefined) {
+    open.takeProfitPrice = open.entryPrice * (1 + direction * (takeProfitPct / 100));
+  }
+}
+
+/**
+ * Open a position from its first lot and set its resting exit levels. The
+ * trailing stop's ATR distance is read at atrIndex, the last closed candle.
+ */
+function newPosition(
+  id: number,
+  lot: PositionLot,
+  exit: ExitGroup,
+  terms: EntryTerms,
+  atrIndex: number,
+  cache: IndicatorCache,
+  scaleOutSteps = 0,
+): OpenPosition {
+  const open: OpenPosition = {
+    id,
+    side: terms.side,
+    entryPrice: lot.entryPrice,
+    entryIndex: lot.entryIndex,
+    entryDate: lot.entryDate,
+    units: lot.units,
+    positionSize: lot.positionSize,
+    borrowed: lot.positionSize * (terms.leverage - 1),
+    carryAccrued: 0,
+    lots: [lot],
+    scaleOutsFilled: Array.from({ length: scaleOutSteps }, () => false),
+    scaleInTriggered: false,
+  };
+  anchorExitLevels(open, exit);
+  open.liquidationPrice = liquidationPrice(open, terms.maintenanceFrac);
+
+  // Trailing stop starts from the fill; each bar's range is folded in after it is checked
+  if (exit.trailingStop) {
+    const distance = trailingDistance(exit.trailingStop, lot.entryPrice, atrIndex, cache);
+    if (distance !== null) {
+      const direction = terms.side === 'short' ? -1 : 1;
+      open.trailingStopPrice = lot.entryPrice - direction * distance;
+    }
+  }
+  return open;
+}
+
+/** Per-asset round trips, win rate and P&L share of a multi-asset run. */
+function buildAssetBreakdown(
+  assets: AssetSymbol[],
+  trades: Trade[],
+  initialCapital: number,
+): AssetBreakdown[] {
+  return assets.map((asset) => {
+    const roundTrips = groupRoundTrips(trades.filter((t) => t.asset === asset));
+    const wins = roundTrips.filter(isWin).length;
+    const pnlAbs = roundTrips.reduce((s, t) => s + t.pnlAbs, 0);
+    return {
+      asset,
+      totalTrades: roundTrips.length,
+      winRate: roundTrips.length > 0 ? (wins / roundTrips.length) * 100 : 0,
+      pnlAbs,
+      contributionPct: (pnlAbs / initialCapital) * 100,
+    };
+  });
+}
+
+function sizingAtrSpec(sizing: Extract<PositionSizing, { type: 'atr_volatility' }>): IndicatorSpec {
+  return { type: 'atr', period: sizing.period ?? 14 };
+}
+
+/**
+ * Kelly bet f* = W − (1 − W) / R over the last `lookback` round trips, where W
+ * is the win rate (breakeven counts as a win, as in the metrics) and R the
+ * average win over the average loss. Null until that many round trips have
+ * closed.
+ */
+function kellyBetFraction(trades: Trade[], lookback: number): number | null {
+  const recent = groupRoundTrips(trades).slice(-lookback);
+  if (recent.length < lookback) return null;
+
+  const wins = recent.filter(isWin);
+  const losses = recent.filter((t) => !isWin(t));
+  const winRate = wins.length / recent.length;
+  if (losses.length === 0) return 1;
+  if (wins.length === 0) return 0;
+
+  const avgWin = wins.reduce((s, t) => s + t.pnlPct, 0) / wins.length;
+  const avgLoss = Math.abs(losses.reduce((s, t) => s + t.pnlPct, 0) / losses.length);
+  if (avgLoss === 0) return 1;
+  return winRate - (1 - winRate) / (avgWin / avgLoss);
+}
+
+/**
+ * Dollar size of a new entry signalled on candle i, capped at available cash.
+ * Risk-based types measure against close[i], the last price known at signal
+ * time. Returns 0 when the sizing rule says not to trade (no stop distance
+ * yet, or a non-positive Kelly bet).
+ *
+ * The result is margin. Risk-based types size the notional that puts riskPct
+ * of equity at risk and commit notional / leverage, so leverage never scales
+ * the risk they cap.
+ */
+function entrySize(
+  sizing: PositionSizing,
+  ctx: {
+    equity: number;
+    cash: number;
+    price: number;
+    i: number;
+    cache: IndicatorCache;
+    exit: ExitGroup;
+    trades: Trade[];
+    leverage?: number;
+  },
+): number {
+  const { equity, cash, price, i, cache, exit } = ctx;
+  const leverage = ctx.leverage ?? 1;
+  let size: number;
+
+  switch (sizing.type) {
+    case 'percent_equity':
+      size = equity * (sizing.valuePct / 100);
+      break;
+    case 'fixed_amount':
+      size = sizing.valueUsd;
+      break;
+    case 'risk_percent': {
+      // The nearest stop bounds the loss
+      const distances: number[] = [];
+      if (exit.stopLossPct !== undefined) distances.push(exit.stopLossPct / 100);
+      if (exit.trailingStop) {
+        const distance = trailingDistance(exit.trailingStop, price, i, cache);
+        if (distance !== null) distances.push(distance / price);
+      }
+      if (distances.length === 0) return 0;
+      size = (equity * (sizing.riskPct / 100)) / Math.min(...distances) / leverage;
+      break;
+    }
+    case 'atr_volatility': {
+      const atr = cache[indicatorKey(sizingAtrSpec(sizing))]?.[i] ?? null;
+      if (atr === null || atr <= 0) return 0;
+      size = (equity * (sizing.riskPct / 100) * price) / atr / leverage;
+      break;
+    }
+    case 'kelly_fraction': {
+      const bet = kellyBetFraction(ctx.trades, sizing.lookbackTrades ?? 20);
+      size = bet === null
+        ? equity * ((sizing.fallbackPct ?? 10) / 100)
+        : equity * Math.min(1, Math.max(0, bet * sizing.fraction));
+      break;
+    }
+  }
+
+  return Math.min(size, cash);
+}
+
+/**
+ * Sum a daily funding series into the bars it falls in: each point counts
+ * toward the last candle dated on or before it, if within that candle's span.
+ */
+function fundingPerBar(points: FundingPoint[], candles: Candle[], barDays: number): number[] {
+  const perBar = candles.map(() => 0);
+  const sorted = [...points].sort((a, b) => a.t.localeCompare(b.t));
+  let k = -1;
+  for (const point of sorted) {
+    const pointMs = parseTimestamp(point.t);
+    while (k + 1 < candles.length && parseTimestamp(candles[k + 1].t) <= pointMs) k++;
+    if (k >= 0 && daysBetween(candles[k].t, point.t) < barDays) {
+      perBar[k] += point.bps;
+    }
+  }
+  return perBar;
+}
+
+/**
+ * Carry rate in bps of notional for holding `side` through one bar of
+ * barDays days. Positive is a cost. Funding series follow perp convention
+ * (shorts receive what longs pay); days missing from the series cost nothing.
+ */
+function carryRateBps(
+  carry: CarryCost,
+  barFundingBps: number,
+  side: PositionSide,
+  barDays: number,
+): number {
+  if (carry.type === 'fixed') return carry.bpsPerDay * barDays;
+  return side === 'short' ? -barFundingBps : barFundingBps;
+}
+
+/** Plain-language statement of the carry source and the net amount paid, for the audit. */
+function describeCarry(carry: CarryCost, assets: AssetSymbol[], carryTotal: number): string {
+  const source = carry.type === 'fixed'
+    ? `${carry.bpsPerDay} bps/day of notional, paid by either side`
+    : `daily funding series (${assets.map((a) => `${a} ${carry.rates[a]?.length ?? 0} days`).join(', ')}), longs pay / shorts receive`;
+  const net = carryTotal >= 0
+    ? `$${carryTotal.toFixed(2)} paid`
+    : `$${(-carryTotal).toFixed(2)} received`;
+  return `${source}; ${net}`;
+}
+
+/** Plain-language statement of the leverage, borrow interest and liquidation terms, for the audit. */
+function describeLeverage(
+  leverage: number,
+  borrowFrac: number,
+  maintenanceFrac: number,
+  side: PositionSide,
+): string {
+  return (
+    `${leverage}x notional per $ of margin, entry/exit fees on notional; ` +
+    `${(borrowFrac * 10_000).toFixed(1)} bps/day interest on the borrowed part; ` +
+    `liquidated at ${(maintenanceFrac * 100).toFixed(2)}% maintenance margin, checked against intrabar ${side === 'short' ? 'highs' : 'lows'}`
+  );
+}
+
+/** Plain-language statement of the cooldown and trade cap, for the audit. */
+function describeReentry(reentry: ReentryRules): string {
+  const parts: string[] = [];
+  if (reentry.cooldownBars !== undefined) {
+    const after = reentry.cooldownAfterLossOnly ? 'a losing exit' : 'each exit';
+    parts.push(`entries skipped for ${reentry.cooldownBars} bars after ${after}`);
+  }
+  if (reentry.maxTrades) {
+    parts.push(`at most ${reentry.maxTrades.count} entries per ${reentry.maxTrades.periodDays} days`);
+  }
+  return parts.length > 0 ? parts.join('; ') : 'No re-entry limits';
+}
+
+export function runBacktest(
+  config: BacktestConfig,
+  allCandles: Candle[],
+): BacktestResult {
+  const candles = allCandles.filter(
+    (c) => inDateRange(c.t, config.startDate, config.endDate),
+  );
+
+  if (candles.length === 0) {
+    return emptyResult(config);
+  }
+
+  if (config.rules.mode.type === 'dca') {
+    return runDCABacktest(config, candles);
+  }
+
+  if (config.rules.mode.type === 'rebalance') {
+    throw new Error('Rebalance mode needs candles for every target asset; use runRebalanceBacktest');
+  }
+
+  return runStandardBacktest(config, candles);
+}
+
+function runStandardBacktest(
+  config: BacktestConfig,
+  candles: Candle[],
+): BacktestResult {
+  const { rules, initialCapital, feeBps, slippageBps } = config;
+  const slippageFrac = slippageBps / 10_000;
+  const feeFrac = feeBps / 10_000;
+  const side = rules.side ?? 'long';
+  // +1 for long, -1 for short: slippage is always adverse to the trade direction
+  const direction = side === 'short' ? -1 : 1;
+  const leverage = config.leverage ?? 1;
+  const maintenanceFrac = (config.maintenanceMarginPct ?? DEFAULT_MAINTENANCE_MARGIN_PCT) / 100;
+  const barDays = barLengthDays(config.timeframe);
+  const borrowFrac = (config.borrowCostBpsPerDay ?? DEFAULT_BORROW_COST_BPS_PER_DAY) / 10_000;
+  // Daily interest compounds over the days each bar spans
+  const borrowFracPerBar = Math.pow(1 + borrowFrac, barDays) - 1;
+  const carry = config.carryCost;
+  const fundingByBar = carry?.type === 'series'
+    ? fundingPerBar(carry.rates[config.asset] ?? [], candles, barDays)
+    : [];
+  const entryOrder = rules.entryOrder?.type === 'market' ? undefined : rules.entryOrder;
+  const fillModel = config.fillModel ?? DEFAULT_FILL_MODEL;
+  const lag = fillLag(fillModel);
+  const terms: EntryTerms = { side, fillModel, leverage, maintenanceFrac, feeFrac, slippageFrac };
+  const reentry = rules.reentry;
+
+  const specs = collectIndicators(rules);
+  const cache = precomputeIndicators(candles, specs, config.timeframe);
+  const warmup = computeWarmup(specs, cache, config.timeframe, ruleIndicatorOperands(rules));
+
+  if (warmup >= candles.length) {
+    return {
+      config,
+      trades: [],
+      equityCurve: [],
+      metrics: emptyMetrics(),
+      benchmark: { totalReturn: 0, equityCurve: [], description: 'Warmup exceeds data range' },
+      indicatorData: cache,
+      audit: buildAuditInfo({
+        feeBps,
+        timeframe: config.timeframe,
+        slippageBps,
+        warmupCandles: warmup,
+        startDate: candles[0].t,
+        endDate: candles[candles.length - 1].t,
+        totalCandles: candles.length,
+        tradableCandles: 0,
+        side,
+        sizing: rules.sizing,
+        entryOrder,
+        fillModel,
+      }),
+    };
+  }
+
+  const tradableCandles = candles.slice(warmup);
+  const benchmark = computeBenchmark(
+    tradableCandles,
+    initialCapital,
+    feeBps,
+    slippageBps,
+    fillModel,
+  );
+
+  const benchmarkByDate = new Map<string, number>();
+  const benchmarkDrawdownByDate = new Map<string, number>();
+  for (const pt of benchmark.equityCurve) {
+    benchmarkByDate.set(pt.date, pt.benchmarkEquity);
+    benchmarkDrawdownByDate.set(pt.date, pt.benchmarkDrawdownPct);
+  }
+
+  let capital = initialCapital;
+  let position: OpenPosition | null = null;
   const trades: Trade[] = [];
   const equityCurve: EquityPoint[] = [];
   let peak = initialCapital;
   let tradeId = 1;
+  let positionId = 1;
+  const grossExposure: number[] = [];
+  let borrowCostTotal = 0;
+  let carryTotal = 0;
+  let pendingOrder: PendingEntryOrder | null = null;
+  let ordersPlaced = 0;
+  let ordersFilled = 0;
+  const unfilledOrders: UnfilledOrder[] = [];
+  let lastExit: { index: number; loss: boolean } | null = null;
+  const entryDates: string[] = [];
+  const skippedSignals = { cooldown: 0, tradeCap: 0 };
+
+  /** Fill a lot (see fillLot), paying for it out of capital. */
+  function takeLot(fillIndex: number, size: number, price?: number, slippage?: number): PositionLot {
+    capital -= size;
+    return fillLot(candles, fillIndex, size, terms, price, slippage);
+  }
+
+  /** Record an entry order that rested through candle lastIndex without filling. */
+  function expireOrder(order: PendingEntryOrder, lastIndex: number): void {
+    unfilledOrders.push({
+      type: order.type,
+      side,
+      signalDate: candles[order.signalIndex].t,
+      price: order.price,
+      expiredDate: candles[lastIndex].t,
+    });
+  }
+
+  /** Open a position from its first lot (see newPosition) and log its entry date. */
+  function openPosition(lot: PositionLot, atrIndex: number): OpenPosition {
+    entryDates.push(lot.entryDate);
+    const scaleOutSteps = (rules.scaleOut ?? []).length;
+    return newPosition(positionId++, lot, rules.exit, terms, atrIndex, cache, scaleOutSteps);
+  }
+
+  /**
+   * Close `fraction` of `open` at fillPrice on candle exitIndex, recording the
+   * fill as a trade and returning the cash. Lots shrink pro rata, so the
+   * average entry price of what remains is unchanged.
+   */
+  function closePosition(
+    open: OpenPosition,
+    exitIndex: number,
+    fillPrice: number,
+    exitReason: string,
+    fraction: number = 1,
+  ): void {
+    const units = open.units * fraction;
+    const costBasis = open.positionSize * fraction;
+    const netProceeds = closeProceeds(open, fillPrice, feeFrac, units);
+    const pnlAbs = netProceeds - costBasis;
+    const pnlPct = (pnlAbs / costBasis) * 100;
+
+    const holdingDays = daysBetween(open.entryDate, candles[exitIndex].t);
+
+    trades.push({
+      id: tradeId++,
+      positionId: open.id,
+      side: open.side,
+      entryDate: open.entryDate,
+      entryPrice: open.entryPrice,
+      exitDate: candles[exitIndex].t,
+      exitPrice: fillPrice,
+      pnlAbs,
+      pnlPct,
+      holdingDays,
+      exitReason,
+      positionSize: costBasis,
+    });
+
+    capital += netProceeds;
+    open.units -= units;
+    open.positionSize -= costBasis;
+    open.borrowed -= open.borrowed * fraction;
+    open.carryAccrued -= open.carryAccrued * fraction;
+    for (const lot of open.lots) {
+      lot.units *= 1 - fraction;
+      lot.positionSize *= 1 - fraction;
+    }
+
+    // A full close starts any re-entry cooldown, judged on the whole position's P&L
+    if (open.units <= 0) {
+      const positionPnl = trades
+        .filter((t) => t.positionId === open.id)
+        .reduce((sum, t) => sum + t.pnlAbs, 0);
+      lastExit = { index: exitIndex, loss: positionPnl < 0 };
+    }
+  }
 
-  let positionCostBasis = 0;
+  /** The re-entry rule, if any, that suppresses an entry signal on candle i. */
+  function reentryBlock(i: number): keyof typeof skippedSignals | null {
+    if (!reentry) return null;
+    const { cooldownBars, cooldownAfterLossOnly, maxTrades } = reentry;
+    if (
+      cooldownBars !== undefined &&
+      lastExit !== null &&
+      i - lastExit.index < cooldownBars &&
+      (!cooldownAfterLossOnly || lastExit.loss)
+    ) {
+      return 'cooldown';
+    }
+    if (maxTrades) {
+      const recent = entryDates.filter(
+        (date) => daysBetween(date, candles[i].t) < maxTrades.periodDays,
+      ).length;
+      if (recent >= maxTrades.count) return 'tradeCap';
+    }
+    return null;
+  }
 
   for (let i = warmup; i < candles.length; i++) {
-    if (position === null) {
+    // A resting entry order fills against this bar's range. Where in the bar it
+    // filled is unknown, so its protective exits are first checked on the next bar.
+    let filledIntrabar = false;
+    if (pendingOrder !== null) {
+      const price = checkEntryOrder(pendingOrder, side, candles[i]);
+      if (price !== null) {
+        // Stops fill as market orders (adverse slippage); limits fill at their price
+        const slip = pendingOrder.type === 'stop' ? slippageFrac : 0;
+        const size = Math.min(pendingOrder.size, capital);
+        position = openPosition(takeLot(i, size, price, slip), i - 1);
+        pendingOrder = null;
+        ordersFilled++;
+        filledIntrabar = true;
+      } else if (i >= pendingOrder.expiresIndex) {
+        expireOrder(pendingOrder, i);
+        pendingOrder = null;
+      }
+    }
+
+    // Stop-loss / take-profit orders rest in the market from the fill on, so
+    // they are checked against this bar's range before any close-based signal.
+    // A fill after the open only sees the range from the next bar.
+    if (
+      position !== null &&
+      !filledIntrabar &&
+      (fillsAtOpen(fillModel) || i > position.entryIndex)
+    ) {
+      const hit = checkProtectiveExit(position, candles[i]);
+      if (hit) {
+        // Stops fill as market orders (adverse slippage); take-profits are limits
+        const slip = hit.reason === 'Take profit' ? 0 : direction * slippageFrac;
+        closePosition(position, i, hit.price * (1 - slip), hit.reason);
+        position = null;
+      } else if (rules.exit.trailingStop) {
+        updateTrailingStop(position, rules.exit.trailingStop, candles[i], i, cache);
+      }
+    }
+
+    if (position === null && pendingOrder === null) {
       const entryFires = evaluateGroup(
         rules.entry,
         i,
@@ -354,40 +1381,47 @@ function runStandardBacktest(
         null,
       );
 
-      if (entryFires && i + 1 < candles.length) {
-        let positionSize: number;
-        if (rules.sizing.type === 'percent_equity') {
-          positionSize = capital * (rules.sizing.valuePct / 100);
-        } else {
-          // fixed_amount
-          positionSize = Math.min(rules.sizing.valueUsd, capital);
-        }
-
-        // Fill at open[i+1] with adverse slippage (price goes up for a buy)
-        const fillPrice = candles[i + 1].o * (1 + slippageFrac);
-
-        const fee = positionSize * feeFrac;
-        const netInvestable = positionSize - fee;
-        const units = netInvestable / fillPrice;
-        positionCostBasis = positionSize;
-
-        position = {
-          entryPrice: fillPrice,
-          entryIndex: i + 1,
-          entryDate: candles[i + 1].t,
-          units,
-          positionSize,
+      // Cooldown / trade-cap rules can veto the signal; vetoes are counted for the audit
+      const blockedBy = entryFires ? reentryBlock(i) : null;
+      if (blockedBy) skippedSignals[blockedBy]++;
+
+      // Flat, so equity is all cash
+      const positionSize = entryFires && !blockedBy && i + lag < candles.length
+        ? entrySize(rules.sizing, {
+          equity: capital,
+          cash: capital,
+          price: candles[i].c,
+          i,
+          cache,
+          exit: rules.exit,
+          trades,
+          leverage,
+        })
+        : 0;
+
+      if (positionSize > 0 && entryOrder) {
+        // Limits rest on the favourable side of the close, stops on the breakout side
+        const sign = entryOrder.type === 'limit' ? -direction : direction;
+        pendingOrder = {
+          type: entryOrder.type,
+          price: candles[i].c * (1 + sign * (entryOrder.offsetPct / 100)),
+          size: positionSize,
+          signalIndex: i,
+          expiresIndex: i + (entryOrder.timeInForceBars ?? DEFAULT_ORDER_TIF_BARS),
         };
-
-        capital -= positionSize;
+        ordersPlaced++;
+      } else if (positionSize > 0) {
+        // Fill per the fill model with adverse slippage (up for a buy, down for a short sale)
+        position = openPosition(takeLot(i + lag, positionSize), i);
       }
-    } else {
+    } else if (position !== null) {
       const evalPosition = {
         entryPrice: position.entryPrice,
         entryIndex: position.entryIndex,
+        side: position.side,
       };
 
-      const exitFires = evaluateGroup(
+      const exitFires = evaluateExitSignal(
         rules.exit,
         i,
         candles,
@@ -395,42 +1429,83 @@ function runStandardBacktest(
         evalPosition,
       );
 
-      if (exitFires && i + 1 < candles.length) {
-        // Fill at open[i+1] with adverse slippage (price goes down for a sell)
-        const fillPrice = candles[i + 1].o * (1 - slippageFrac);
-
-        const grossProceeds = fillPrice * position.units;
-        const exitFee = grossProceeds * feeFrac;
-        const netProceeds = grossProceeds - exitFee;
-        const pnlAbs = netProceeds - positionCostBasis;
-        const pnlPct = (pnlAbs / positionCostBasis) * 100;
-
-        const holdingDays = daysBetween(position.entryDate, candles[i + 1].t);
-
-        trades.push({
-          id: tradeId++,
-          entryDate: position.entryDate,
-          entryPrice: position.entryPrice,
-          exitDate: candles[i + 1].t,
-          exitPrice: fillPrice,
-          pnlAbs,
-          pnlPct,
-          holdingDays,
-          exitReason: 'Exit signal',
-          positionSize: position.positionSize,
-        });
+      // Fill per the fill model with adverse slippage (down for a sell, up for a short cover)
+      const exitFillPrice = i + lag < candles.length
+        ? fillBarPrice(fillModel, candles[i + lag]) * (1 - direction * slippageFrac)
+        : null;
 
-        capital += netProceeds;
+      if (exitFires && exitFillPrice !== null) {
+        closePosition(position, i + lag, exitFillPrice, 'Exit signal');
         position = null;
-        positionCostBasis = 0;
+      } else if (exitFillPrice !== null) {
+        // Each scale-out step sells its fraction of the remaining units, once per position
+        const steps = rules.scaleOut ?? [];
+        let scaledOut = false;
+        for (let k = 0; k < steps.length && position !== null; k++) {
+          if (position.scaleOutsFilled[k]) continue;
+          if (!evaluateGroup(steps[k].trigger, i, candles, cache, evalPosition)) continue;
+          closePosition(
+            position,
+            i + lag,
+            exitFillPrice,
+            `Scale-out (${steps[k].id})`,
+            steps[k].fractionPct / 100,
+          );
+          position.scaleOutsFilled[k] = true;
+          scaledOut = true;
+          if (position.units <= 0) position = null;
+        }
+
+        // Pyramid into the position at most maxLots - 1 times, once each time
+        // the trigger turns true: a trigger that stays true adds a single lot
+        const scaleIn = rules.scaleIn;
+        if (position !== null && scaleIn) {
+          const triggered = evaluateGroup(scaleIn.trigger, i, candles, cache, evalPosition);
+          const turnedTrue = triggered && !position.scaleInTriggered;
+          position.scaleInTriggered = triggered;
+          if (turnedTrue && !scaledOut && position.lots.length < scaleIn.maxLots) {
+            const equityNow = capital + positionValue(position, candles[i].c);
+            const addSize = Math.min(equityNow * (scaleIn.sizePct / 100), capital);
+            if (addSize > 0) {
+              const lot = takeLot(i + lag, addSize);
+              const totalUnits = position.units + lot.units;
+              position.entryPrice =
+                (position.entryPrice * position.units + lot.entryPrice * lot.units) / totalUnits;
+              position.units = totalUnits;
+              position.positionSize += lot.positionSize;
+              position.borrowed += lot.positionSize * (leverage - 1);
+              position.lots.push(lot);
+              anchorExitLevels(position, rules.exit);
+              position.liquidationPrice = liquidationPrice(position, maintenanceFrac);
+            }
+          }
+        }
       }
     }
 
+    // Interest on the borrowed notional accrues for each candle held after the fill
+    if (position !== null && position.borrowed > 0 && i >= position.entryIndex) {
+      const interest = position.borrowed * borrowFracPerBar;
+      position.borrowed += interest;
+      borrowCostTotal += interest;
+      position.liquidationPrice = liquidationPrice(position, maintenanceFrac);
+    }
+
+    // Funding / holding cost on the notional held through this candle
+    if (position !== null && carry && i >= position.entryIndex) {
+      const rateBps = carryRateBps(carry, fundingByBar[i] ?? 0, position.side, barDays);
+      const cost = position.units * candles[i].c * (rateBps / 10_000);
+      position.carryAccrued += cost;
+      carryTotal += cost;
+    }
+
     let equity: number;
     if (position !== null) {
-      equity = capital + position.units * candles[i].c;
+      equity = capital + positionValue(position, candles[i].c);
+      grossExposure.push(position.units * candles[i].c);
     } else {
       equity = capital;
+      grossExposure.push(0);
     }
 
     if (equity > peak) {
@@ -450,32 +1525,15 @@ function runStandardBacktest(
     });
   }
 
-  if (position !== null) {
-    const lastCandle = candles[candles.length - 1];
-    const fillPrice = lastCandle.c * (1 - slippageFrac);
-    const grossProceeds = fillPrice * position.units;
-    const exitFee = grossProceeds * feeFrac;
-    const netProceeds = grossProceeds - exitFee;
-
-    const pnlAbs = netProceeds - positionCostBasis;
-    const pnlPct = (pnlAbs / positionCostBasis) * 100;
-
-    const holdingDays = daysBetween(position.entryDate, lastCandle.t);
-
-    trades.push({
-      id: tradeId++,
-      entryDate: position.entryDate,
-      entryPrice: position.entryPrice,
-      exitDate: lastCandle.t,
-      exitPrice: fillPrice,
-      pnlAbs,
-      pnlPct,
-      holdingDays,
-      exitReason: 'Force-close at end of data',
-      positionSize: position.positionSize,
-    });
+  if (pendingOrder !== null) {
+    expireOrder(pendingOrder, candles.length - 1);
+    pendingOrder = null;
+  }
 
-    capital += netProceeds;
+  if (position !== null) {
+    const lastIndex = candles.length - 1;
+    const fillPrice = candles[lastIndex].c * (1 - direction * slippageFrac);
+    closePosition(position, lastIndex, fillPrice, 'Force-close at end of data');
     position = null;
 
     if (equityCurve.length > 0) {
@@ -489,17 +1547,40 @@ function runStandardBacktest(
   }
 
   const tradableCount = candles.length - warmup;
-  const metrics = computeMetrics(trades, equityCurve, initialCapital, tradableCount);
+  const metrics = computeMetrics(trades, equityCurve, initialCapital, tradableCount, grossExposure, config.timeframe);
 
   const audit = buildAuditInfo({
     feeBps,
+    timeframe: config.timeframe,
     slippageBps,
     warmupCandles: warmup,
     startDate: candles[0].t,
     endDate: candles[candles.length - 1].t,
     totalCandles: candles.length,
     tradableCandles: tradableCount,
+    side,
+    maxLots: rules.scaleIn?.maxLots,
+    partialExits: (rules.scaleOut ?? []).length > 0,
+    sizing: rules.sizing,
+    leverage,
+    entryOrder,
+    fillModel,
   });
+  if (leverage > 1) {
+    audit.leverageModel = describeLeverage(leverage, borrowFrac, maintenanceFrac, side);
+    audit.borrowCostTotal = borrowCostTotal;
+  }
+  if (carry) {
+    audit.funding = describeCarry(carry, [config.asset], carryTotal);
+  }
+  if (reentry) {
+    audit.reentryModel = describeReentry(reentry);
+    audit.skippedSignals = skippedSignals;
+  }
+  if (entryOrder) {
+    audit.entryOrders =
+      `${ordersPlaced} ${entryOrder.type} orders placed, ${ordersFilled} filled, ${unfilledOrders.length} unfilled`;
+  }
 
   return {
     config,
@@ -509,6 +1590,348 @@ function runStandardBacktest(
     benchmark,
     indicatorData: cache,
     audit,
+    ...(entryOrder && { unfilledOrders }),
+  };
+}
+
+/**
+ * Run one rule set (or per-asset overrides) across several assets on a shared
+ * cash balance. Each asset holds at most one position, and no more than
+ * `maxOpenPositions` are open at once. On each date exits are processed
+ * before entries, and competing entry signals are filled in the order the
+ * assets are listed.
+ */
+export function runPortfolioBacktest(
+  config: BacktestConfig,
+  candlesByAsset: Partial<Record<AssetSymbol, Candle[]>>,
+): BacktestResult {
+  const { rules, initialCapital, feeBps, slippageBps } = config;
+  const portfolio = rules.portfolio;
+
+  if (!portfolio) {
+    throw new Error('runPortfolioBacktest called without a portfolio');
+  }
+
+  const slippageFrac = slippageBps / 10_000;
+  const feeFrac = feeBps / 10_000;
+  const side = rules.side ?? 'long';
+  const direction = side === 'short' ? -1 : 1;
+  const fillModel = config.fillModel ?? DEFAULT_FILL_MODEL;
+  const lag = fillLag(fillModel);
+  const leverage = config.leverage ?? 1;
+  const maintenanceFrac = (config.maintenanceMarginPct ?? DEFAULT_MAINTENANCE_MARGIN_PCT) / 100;
+  const barDays = barLengthDays(config.timeframe);
+  const borrowFrac = (config.borrowCostBpsPerDay ?? DEFAULT_BORROW_COST_BPS_PER_DAY) / 10_000;
+  const borrowFracPerBar = Math.pow(1 + borrowFrac, barDays) - 1;
+  const carry = config.carryCost;
+  const terms: EntryTerms = { side, fillModel, leverage, maintenanceFrac, feeFrac, slippageFrac };
+
+  interface AssetBook {
+    asset: AssetSymbol;
+    candles: Candle[];
+    indexByDate: Map<string, number>;
+    entry: ConditionGroup;
+    exit: ExitGroup;
+    cache: IndicatorCache;
+    warmup: number;
+    fundingByBar: number[]; // funding series bps per candle; empty without one
+    position: OpenPosition | null;
+    lastClose: number | null;
+  }
+
+  const books: AssetBook[] = [];
+  for (const asset of portfolio.assets) {
+    const candles = (candlesByAsset[asset] ?? []).filter(
+      (c) => inDateRange(c.t, config.startDate, config.endDate),
+    );
+    if (candles.length === 0) continue;
+
+    const override = portfolio.overrides?.find((o) => o.asset === asset);
+    const entry = override?.entry ?? rules.entry;
+    const exit = override?.exit ?? rules.exit;
+    const bookRules = { ...rules, entry, exit };
+    const specs = collectIndicators(bookRules);
+    const cache = precomputeIndicators(candles, specs, config.timeframe);
+
+    books.push({
+      asset,
+      candles,
+      indexByDate: new Map(candles.map((c, i) => [c.t, i])),
+      entry,
+      exit,
+      cache,
+      warmup: computeWarmup(specs, cache, config.timeframe, ruleIndicatorOperands(bookRules)),
+      fundingByBar: carry?.type === 'series' ? fundingPerBar(carry.rates[asset] ?? [], candles, barDays) : [],
+      position: null,
+      lastClose: null,
+    });
+  }
+
+  const tradableBooks = books.filter((b) => b.warmup < b.candles.length);
+  if (tradableBooks.length === 0) {
+    return emptyResult(config);
+  }
+
+  // Equity curve starts once the first asset is past its warmup
+  const firstTradableDate = tradableBooks
+    .map((b) => b.candles[b.warmup].t)
+    .reduce((a, b) => (a < b ? a : b));
+  const dates = Array.from(
+    new Set(books.flatMap((b) => b.candles.map((c) => c.t))),
+  ).sort();
+  const curveDates = dates.filter((d) => d >= firstTradableDate);
+
+  const benchmark = computePortfolioBenchmark(
+    tradableBooks.map((b) => b.candles.slice(b.warmup)),
+    curveDates,
+    initialCapital,
+    feeBps,
+    slippageBps,
+    undefined,
+    fillModel,
+  );
+  const benchmarkByDate = new Map<string, number>();
+  const benchmarkDrawdownByDate = new Map<string, number>();
+  for (const pt of benchmark.equityCurve) {
+    benchmarkByDate.set(pt.date, pt.benchmarkEquity);
+    benchmarkDrawdownByDate.set(pt.date, pt.benchmarkDrawdownPct);
+  }
+
+  let cash = initialCapital;
+  const trades: Trade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let peak = initialCapital;
+  let tradeId = 1;
+  let positionId = 1;
+  let borrowCostTotal = 0;
+  let carryTotal = 0;
+  const grossExposure: number[] = [];
+
+  function markedEquity(): number {
+    let equity = cash;
+    for (const book of books) {
+      if (book.position && book.lastClose !== null) {
+        equity += positionValue(book.position, book.lastClose);
+      }
+    }
+    return equity;
+  }
+
+  function closeBookPosition(
+    book: AssetBook,
+    exitIndex: number,
+    fillPrice: number,
+    exitReason: string,
+  ): void {
+    const open = book.position;
+    if (!open) return;
+    const netProceeds = closeProceeds(open, fillPrice, feeFrac);
+    const pnlAbs = netProceeds - open.positionSize;
+
+    trades.push({
+      id: tradeId++,
+      positionId: open.id,
+      asset: book.asset,
+      side: open.side,
+      entryDate: open.entryDate,
+      entryPrice: open.entryPrice,
+      exitDate: book.candles[exitIndex].t,
+      exitPrice: fillPrice,
+      pnlAbs,
+      pnlPct: (pnlAbs / open.positionSize) * 100,
+      holdingDays: daysBetween(open.entryDate, book.candles[exitIndex].t),
+      exitReason,
+      positionSize: open.positionSize,
+    });
+
+    cash += netProceeds;
+    book.position = null;
+  }
+
+  for (const date of dates) {
+    // Assets that exit on this bar's signal don't re-enter on the same bar
+    const exitedOnSignal = new Set<AssetSymbol>();
+
+    // 1. Exits: resting stop orders first, then close-based exit signals
+    for (const book of books) {
+      const i = book.indexByDate.get(date);
+      if (i === undefined || book.position === null) continue;
+
+      // A fill after the open only sees the range from the next bar
+      const rangeAfterFill = fillsAtOpen(fillModel) || i > book.position.entryIndex;
+      const hit = rangeAfterFill ? checkProtectiveExit(book.position, book.candles[i]) : null;
+      if (hit) {
+        const slip = hit.reason === 'Take profit' ? 0 : direction * slippageFrac;
+        closeBookPosition(book, i, hit.price * (1 - slip), hit.reason);
+        continue;
+      }
+      if (rangeAfterFill && book.exit.trailingStop) {
+        updateTrailingStop(book.position, book.exit.trailingStop, book.candles[i], i, book.cache);
+      }
+
+      const evalPosition = {
+        entryPrice: book.position.entryPrice,
+        entryIndex: book.position.entryIndex,
+        side: book.position.side,
+      };
+      if (
+        i + lag < book.candles.length &&
+        evaluateExitSignal(book.exit, i, book.candles, book.cache, evalPosition)
+      ) {
+        const fillPrice = fillBarPrice(fillModel, book.candles[i + lag]) * (1 - direction * slippageFrac);
+        closeBookPosition(book, i + lag, fillPrice, 'Exit signal');
+        exitedOnSignal.add(book.asset);
+      }
+    }
+
+    for (const book of books) {
+      const i = book.indexByDate.get(date);
+      if (i !== undefined) book.lastClose = book.candles[i].c;
+    }
+
+    // 2. Entries, in portfolio asset order, while slots and cash remain.
+    // All entries on a bar are sized from the equity before any of them fill.
+    let openCount = books.filter((b) => b.position !== null).length;
+    const equityBeforeEntries = markedEquity();
+    for (const book of books) {
+      if (openCount >= portfolio.maxOpenPositions) break;
+      const i = book.indexByDate.get(date);
+      if (i === undefined || i < book.warmup || book.position !== null) continue;
+      if (i + lag >= book.candles.length || exitedOnSignal.has(book.asset)) continue;
+      if (!evaluateGroup(book.entry, i, book.candles, book.cache, null)) continue;
+
+      const positionSize = portfolio.allocation === 'equal_split'
+        ? Math.min(equityBeforeEntries / portfolio.maxOpenPositions, cash)
+        : entrySize(rules.sizing, {
+          equity: equityBeforeEntries,
+          cash,
+          price: book.candles[i].c,
+          i,
+          cache: book.cache,
+          exit: book.exit,
+          trades,
+          leverage,
+        });
+      if (positionSize <= 0) continue;
+
+      const lot = fillLot(book.candles, i + lag, positionSize, terms);
+      book.position = newPosition(positionId++, lot, book.exit, terms, i, book.cache);
+      cash -= positionSize;
+      openCount++;
+    }
+
+    // 3. Borrow interest and carry on every position held through this candle
+    for (const book of books) {
+      const i = book.indexByDate.get(date);
+      const position = book.position;
+      if (i === undefined || position === null || i < position.entryIndex) continue;
+      if (position.borrowed > 0) {
+        const interest = position.borrowed * borrowFracPerBar;
+        position.borrowed += interest;
+        borrowCostTotal += interest;
+        position.liquidationPrice = liquidationPrice(position, maintenanceFrac);
+      }
+      if (carry) {
+        const rateBps = carryRateBps(carry, book.fundingByBar[i] ?? 0, position.side, barDays);
+        const cost = position.units * book.candles[i].c * (rateBps / 10_000);
+        position.carryAccrued += cost;
+        carryTotal += cost;
+      }
+    }
+
+    // 4. Mark to market
+    if (date < firstTradableDate) continue;
+
+    const equity = markedEquity();
+    grossExposure.push(
+      books.reduce((sum, b) => sum + (b.position && b.lastClose !== null ? b.position.units * b.lastClose : 0), 0),
+    );
+    if (equity > peak) {
+      peak = equity;
+    }
+
+    equityCurve.push({
+      date,
+      equity,
+      benchmarkEquity: benchmarkByDate.get(date) ?? initialCapital,
+      drawdownPct: peak > 0 ? ((equity - peak) / peak) * 100 : 0,
+      benchmarkDrawdownPct: benchmarkDrawdownByDate.get(date) ?? 0,
+    });
+  }
+
+  // Force-close whatever is still open at each asset's last candle
+  for (const book of books) {
+    if (book.position === null) continue;
+    const lastIndex = book.candles.length - 1;
+    const fillPrice = book.candles[lastIndex].c * (1 - direction * slippageFrac);
+    closeBookPosition(book, lastIndex, fillPrice, 'Force-close at end of data');
+  }
+
+  if (equityCurve.length > 0) {
+    const lastEq = equityCurve[equityCurve.length - 1];
+    lastEq.equity = cash;
+    if (cash > peak) {
+      peak = cash;
+    }
+    lastEq.drawdownPct = peak > 0 ? ((cash - peak) / peak) * 100 : 0;
+  }
+
+  const metrics = computeMetrics(trades, equityCurve, initialCapital, equityCurve.length, grossExposure, config.timeframe);
+
+  const audit = buildAuditInfo({
+    feeBps,
+    timeframe: config.timeframe,
+    slippageBps,
+    warmupCandles: Math.max(...books.map((b) => b.warmup)),
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    totalCandles: dates.length,
+    tradableCandles: equityCurve.length,
+    side,
+    sizing: portfolio.allocation === 'rule_sizing' ? rules.sizing : undefined,
+    leverage,
+    fillModel,
+  });
+  audit.positionModel =
+    `${side === 'short' ? 'Short-only' : 'Long-only'} portfolio of ${books.map((b) => b.asset).join('/')}, ` +
+    `up to ${portfolio.maxOpenPositions} open positions, ` +
+    (portfolio.allocation === 'equal_split' ? 'equal split of equity' : 'rule-set sizing on total equity');
+  audit.benchmarkModel = benchmark.description;
+  if (leverage > 1) {
+    audit.leverageModel = describeLeverage(leverage, borrowFrac, maintenanceFrac, side);
+    audit.borrowCostTotal = borrowCostTotal;
+  }
+  if (carry) {
+    audit.funding = describeCarry(carry, books.map((b) => b.asset), carryTotal);
+  }
+
+  const chartBook = books.find((b) => b.asset === config.asset) ?? books[0];
+
+  return {
+    config,
+    trades,
+    equityCurve,
+    metrics,
+    benchmark,
+    indicatorData: chartBook.cache,
+    audit,
+    assetBreakdown: buildAssetBreakdown(books.map((b) => b.asset), trades, initialCapital),
+  };
+}
+
+/**
+ * Calendar cadence for DCA buys and calendar rebalances. Due on the first
+ * candle and then on the first candle of each later `intervalDays` window
+ * counted from it, so the interval means days on every timeframe; bars longer
+ * than the interval are due every bar.
+ */
+function calendarSchedule(startT: string, intervalDays: number): (t: string) => boolean {
+  let lastWindow = -1;
+  return (t) => {
+    const window = Math.floor(daysBetween(startT, t) / intervalDays + 1e-9);
+    if (window <= lastWindow) return false;
+    lastWindow = window;
+    return true;
   };
 }
 
@@ -537,6 +1960,7 @@ function runDCABacktest(
 
   let remainingCash = initialCapital;
   let totalUnits = 0;
+  const grossExposure: number[] = [];
   const trades: Trade[] = [];
   const equityCurve: EquityPoint[] = [];
   let peak = initialCapital;
@@ -549,9 +1973,10 @@ function runDCABacktest(
     invested: number; // amount invested (before fee, but the total outflow)
   }
   const dcaEntries: DCAEntry[] = [];
+  const buyDue = calendarSchedule(candles[0].t, intervalDays);
 
   for (let i = 0; i < candles.length; i++) {
-    if (i % intervalDays === 0) {
+    if (buyDue(candles[i].t)) {
       const fillPrice = candles[i].c * (1 + slippageFrac);
       const fee = amountUsd * feeFrac;
       const totalCost = amountUsd + fee;
@@ -587,6 +2012,7 @@ function runDCABacktest(
     }
 
     const equity = totalUnits * candles[i].c + remainingCash;
+    grossExposure.push(totalUnits * candles[i].c);
 
     if (equity > peak) {
       peak = equity;
@@ -615,6 +2041,7 @@ function runDCABacktest(
 
     trades.push({
       id: tradeId++,
+      side: 'long',
       entryDate: entry.date,
       entryPrice: entry.fillPrice,
       exitDate: lastCandle.t,
@@ -627,9 +2054,10 @@ function runDCABacktest(
     });
   }
 
-  const metrics = computeMetrics(trades, equityCurve, initialCapital, candles.length);
+  const metrics = computeMetrics(trades, equityCurve, initialCapital, candles.length, grossExposure, config.timeframe);
   const audit = buildAuditInfo({
     feeBps,
+    timeframe: config.timeframe,
     slippageBps,
     warmupCandles: 0,
     startDate: candles[0].t,
@@ -654,3 +2082,239 @@ function runDCABacktest(
     audit,
   };
 }
+
+/**
+ * Hold a basket at target weights, trading back to them at each candle close
+ * when the trigger fires (every `intervalDays` calendar days, or when any weight has
+ * drifted more than `thresholdPct` points). The initial allocation is the
+ * first rebalance. Sells fill before buys so their proceeds fund the buys, and
+ * every rebalance trade pays slippage and the fee.
+ *
+ * Each asset is one average-cost holding: sells are recorded as partial
+ * closes of it, and whatever is left is marked at the last close.
+ */
+export function runRebalanceBacktest(
+  config: BacktestConfig,
+  candlesByAsset: Partial<Record<AssetSymbol, Candle[]>>,
+): BacktestResult {
+  const { rules, initialCapital, feeBps, slippageBps } = config;
+  const mode = rules.mode;
+
+  if (mode.type !== 'rebalance') {
+    throw new Error('runRebalanceBacktest called with non-rebalance mode');
+  }
+
+  const slippageFrac = slippageBps / 10_000;
+  const feeFrac = feeBps / 10_000;
+  const { targets, trigger } = mode;
+  const assets = targets.map((t) => t.asset);
+
+  // Only dates on which every asset has a candle can be rebalanced
+  const closesByAsset = assets.map((asset) => {
+    const closes = new Map<string, number>();
+    for (const c of candlesByAsset[asset] ?? []) {
+      if (inDateRange(c.t, config.startDate, config.endDate)) closes.set(c.t, c.c);
+    }
+    return closes;
+  });
+  const dates = Array.from(closesByAsset[0].keys())
+    .filter((d) => closesByAsset.every((closes) => closes.has(d)))
+    .sort();
+
+  if (dates.length === 0) {
+    return emptyResult(config);
+  }
+
+  const benchmark = computePortfolioBenchmark(
+    assets.map((asset) =>
+      (candlesByAsset[asset] ?? []).filter((c) => c.t >= dates[0] && c.t <= dates[dates.length - 1]),
+    ),
+    dates,
+    initialCapital,
+    feeBps,
+    slippageBps,
+    targets.map((t) => t.weightPct / 100),
+  );
+  const benchmarkByDate = new Map<string, number>();
+  const benchmarkDrawdownByDate = new Map<string, number>();
+  for (const pt of benchmark.equityCurve) {
+    benchmarkByDate.set(pt.date, pt.benchmarkEquity);
+    benchmarkDrawdownByDate.set(pt.date, pt.benchmarkDrawdownPct);
+  }
+
+  let cash = initialCapital;
+  const trades: Trade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let peak = initialCapital;
+  let tradeId = 1;
+  let rebalanceCount = 0;
+  let tradedNotional = 0;
+  const grossExposure: number[] = [];
+
+  interface Holding {
+    positionId: number;
+    entryDate: string;
+    units: number;
+    costBasis: number; // total outflow for the units still held, fees included
+  }
+  const holdings: Holding[] = assets.map((_, k) => ({
+    positionId: k + 1,
+    entryDate: '',
+    units: 0,
+    costBasis: 0,
+  }));
+
+  function recordSale(k: number, date: string, fillPrice: number, units: number, reason: string): number {
+    const holding = holdings[k];
+    const fraction = units / holding.units;
+    const costBasis = holding.costBasis * fraction;
+    const netProceeds = units * fillPrice * (1 - feeFrac);
+    const pnlAbs = netProceeds - costBasis;
+
+    trades.push({
+      id: tradeId++,
+      positionId: holding.positionId,
+      asset: assets[k],
+      side: 'long',
+      entryDate: holding.entryDate,
+      entryPrice: holding.costBasis / holding.units,
+      exitDate: date,
+      exitPrice: fillPrice,
+      pnlAbs,
+      pnlPct: costBasis > 0 ? (pnlAbs / costBasis) * 100 : 0,
+      holdingDays: daysBetween(holding.entryDate, date),
+      exitReason: reason,
+      positionSize: costBasis,
+    });
+
+    holding.units -= units;
+    holding.costBasis -= costBasis;
+    return netProceeds;
+  }
+
+  const calendarDue = trigger.type === 'calendar' ? calendarSchedule(dates[0], trigger.intervalDays) : () => false;
+
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i];
+    const closes = closesByAsset.map((c) => c.get(date) as number);
+    const values = holdings.map((h, k) => h.units * closes[k]);
+    const preEquity = cash + values.reduce((sum, v) => sum + v, 0);
+
+    let rebalanceDue: boolean;
+    if (trigger.type === 'calendar') {
+      rebalanceDue = calendarDue(date);
+    } else if (i === 0) {
+      rebalanceDue = true;
+    } else {
+      rebalanceDue = values.some(
+        (v, k) => Math.abs((v / preEquity) * 100 - targets[k].weightPct) > trigger.thresholdPct,
+      );
+    }
+
+    if (rebalanceDue) {
+      rebalanceCount++;
+      const deltas = values.map((v, k) => preEquity * (targets[k].weightPct / 100) - v);
+
+      // Sells first: their proceeds fund the buys
+      for (let k = 0; k < assets.length; k++) {
+        if (deltas[k] >= 0) continue;
+        const units = Math.min(-deltas[k] / closes[k], holdings[k].units);
+        if (units <= 0) continue;
+        const fillPrice = closes[k] * (1 - slippageFrac);
+        tradedNotional += units * fillPrice;
+        cash += recordSale(k, date, fillPrice, units, 'Rebalance');
+      }
+
+      // Buys are scaled down pro rata if costs leave too little cash for all of them
+      const wanted = deltas.reduce((sum, d) => sum + Math.max(d, 0), 0);
+      const scale = wanted > cash ? cash / wanted : 1;
+      for (let k = 0; k < assets.length; k++) {
+        if (deltas[k] <= 0) continue;
+        const spend = deltas[k] * scale;
+        const fillPrice = closes[k] * (1 + slippageFrac);
+        const holding = holdings[k];
+        if (holding.units === 0) holding.entryDate = date;
+        holding.units += (spend - spend * feeFrac) / fillPrice;
+        holding.costBasis += spend;
+        tradedNotional += spend;
+        cash -= spend;
+      }
+    }
+
+    const exposure = holdings.reduce((sum, h, k) => sum + h.units * closes[k], 0);
+    const equity = cash + exposure;
+    grossExposure.push(exposure);
+
+    if (equity > peak) {
+      peak = equity;
+    }
+
+    const drawdownPct = peak > 0 ? ((equity - peak) / peak) * 100 : 0;
+    const benchmarkEquity = benchmarkByDate.get(date) ?? initialCapital;
+    const benchmarkDrawdownPct = benchmarkDrawdownByDate.get(date) ?? 0;
+
+    equityCurve.push({
+      date,
+      equity,
+      benchmarkEquity,
+      drawdownPct,
+      benchmarkDrawdownPct,
+    });
+  }
+
+  // Like DCA, remaining holdings are marked at the last close without exit costs
+  const lastDate = dates[dates.length - 1];
+  for (let k = 0; k < assets.length; k++) {
+    const holding = holdings[k];
+    if (holding.units <= 0) continue;
+    const exitPrice = closesByAsset[k].get(lastDate) as number;
+    const pnlAbs = holding.units * exitPrice - holding.costBasis;
+
+    trades.push({
+      id: tradeId++,
+      positionId: holding.positionId,
+      asset: assets[k],
+      side: 'long',
+      entryDate: holding.entryDate,
+      entryPrice: holding.costBasis / holding.units,
+      exitDate: lastDate,
+      exitPrice,
+      pnlAbs,
+      pnlPct: holding.costBasis > 0 ? (pnlAbs / holding.costBasis) * 100 : 0,
+      holdingDays: daysBetween(holding.entryDate, lastDate),
+      exitReason: 'Rebalance hold',
+      positionSize: holding.costBasis,
+    });
+  }
+
+  const metrics = computeMetrics(trades, equityCurve, initialCapital, dates.length, grossExposure, config.timeframe);
+  const audit = buildAuditInfo({
+    feeBps,
+    timeframe: config.timeframe,
+    slippageBps,
+    warmupCandles: 0,
+    startDate: dates[0],
+    endDate: lastDate,
+    totalCandles: dates.length,
+    tradableCandles: dates.length,
+  });
+  const weights = targets.map((t) => `${t.weightPct}% ${t.asset}`).join(' / ');
+  audit.positionModel = trigger.type === 'calendar'
+    ? `Rebalance to ${weights} every ${trigger.intervalDays} days`
+    : `Rebalance to ${weights} when any weight drifts > ${trigger.thresholdPct} pts`;
+  audit.benchmarkModel = benchmark.description;
+  audit.rebalanceCount = rebalanceCount;
+  const avgEquity = equityCurve.reduce((sum, pt) => sum + pt.equity, 0) / equityCurve.length;
+  audit.turnoverPct = avgEquity > 0 ? (tradedNotional / avgEquity) * 100 : 0;
+
+  return {
+    config,
+    trades,
+    equityCurve,
+    metrics,
+    benchmark,
+    indicatorData: {},
+    audit,
+    assetBreakdown: buildAssetBreakdown(assets, trades, initialCapital),
+  };
+}
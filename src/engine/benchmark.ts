@@ -1,11 +1,13 @@
-import type { Candle, EquityPoint, BenchmarkResult } from '@/types/results';
+import type { Candle, EquityPoint, BenchmarkResult, FillModel } from '@/types/results';
+import { DEFAULT_FILL_MODEL, fillBarPrice, fillPriceLabel } from './fills';
 
 /**
  * Compute buy-and-hold benchmark with the same fee and slippage assumptions
  * as the strategy under test.
  *
  * Model:
- *  - Buy at first candle open with adverse slippage (price goes up for a buy).
+ *  - Buy at the first candle's fill-model price (its open by default) with
+ *    adverse slippage (price goes up for a buy).
  *  - Pay entry fee on the notional.
  *  - Mark-to-market each candle close.
  *  - At the final candle close, apply exit slippage (price goes down) and exit fee.
@@ -15,20 +17,18 @@ export function computeBenchmark(
   initialCapital: number,
   feeBps: number,
   slippageBps: number,
+  fillModel: FillModel = DEFAULT_FILL_MODEL,
 ): BenchmarkResult {
+  const description = `Buy & Hold: entered at first tradable candle ${fillPriceLabel(fillModel)}, same fees`;
   if (candles.length === 0) {
-    return {
-      totalReturn: 0,
-      equityCurve: [],
-      description: 'Buy & Hold: entered at first tradable candle open, same fees',
-    };
+    return { totalReturn: 0, equityCurve: [], description };
   }
 
   const slippageFrac = slippageBps / 10_000;
   const feeFrac = feeBps / 10_000;
 
   // Entry: adverse slippage means we pay more (price * (1 + slippage))
-  const rawEntryPrice = candles[0].o;
+  const rawEntryPrice = fillBarPrice(fillModel, candles[0]);
   const entryPriceWithSlippage = rawEntryPrice * (1 + slippageFrac);
 
   const entryFee = initialCapital * feeFrac;
@@ -72,6 +72,74 @@ export function computeBenchmark(
   return {
     totalReturn,
     equityCurve,
-    description: 'Buy & Hold: entered at first tradable candle open, same fees',
+    description,
+  };
+}
+
+/**
+ * Buy-and-hold across several assets: initial capital is split by `weights`
+ * (fractions summing to 1, equal split if omitted), each slice follows
+ * computeBenchmark on its own candles, and the slices are summed on each date.
+ * A slice carries its last value forward on dates its asset has no candle
+ * (and holds cash before its first candle). The basket is never rebalanced.
+ */
+export function computePortfolioBenchmark(
+  candleSets: Candle[][],
+  dates: string[],
+  initialCapital: number,
+  feeBps: number,
+  slippageBps: number,
+  weights?: number[],
+  fillModel: FillModel = DEFAULT_FILL_MODEL,
+): BenchmarkResult {
+  const price = fillPriceLabel(fillModel);
+  const description = weights
+    ? `Buy & Hold: basket at target weights entered at first candle ${price}, never rebalanced, same fees`
+    : `Buy & Hold: equal-weight basket entered at each asset's first tradable candle ${price}, same fees`;
+  if (candleSets.every((c) => c.length === 0) || dates.length === 0) {
+    return { totalReturn: 0, equityCurve: [], description };
+  }
+
+  const slices = candleSets.map((_, k) =>
+    initialCapital * (weights ? weights[k] : 1 / candleSets.length),
+  );
+  const sliceCurves = candleSets.map((candles, k) => {
+    const byDate = new Map<string, number>();
+    if (candles.length === 0) return byDate;
+    for (const pt of computeBenchmark(candles, slices[k], feeBps, slippageBps, fillModel).equityCurve) {
+      byDate.set(pt.date, pt.benchmarkEquity);
+    }
+    return byDate;
+  });
+
+  const lastValues = [...slices];
+  let peak = initialCapital;
+  const equityCurve: EquityPoint[] = [];
+
+  for (const date of dates) {
+    let equity = 0;
+    for (let k = 0; k < sliceCurves.length; k++) {
+      lastValues[k] = sliceCurves[k].get(date) ?? lastValues[k];
+      equity += lastValues[k];
+    }
+
+    if (equity > peak) {
+      peak = equity;
+    }
+
+    equityCurve.push({
+      date,
+      equity: 0,
+      benchmarkEquity: equity,
+      drawdownPct: 0,
+      benchmarkDrawdownPct: peak > 0 ? ((equity - peak) / peak) * 100 : 0,
+    });
+  }
+
+  const finalEquity = equityCurve[equityCurve.length - 1].benchmarkEquity;
+  return {
+    totalReturn: ((finalEquity - initialCapital) / initialCapital) * 100,
+    equityCurve,
+    description,
   };
 }
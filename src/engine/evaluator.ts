@@ -1,9 +1,18 @@
-import type { Condition, ConditionGroup, Operand, IndicatorSpec } from '@/types/strategy';
+import type {
+  Condition,
+  ConditionGroup,
+  ConditionNode,
+  Operand,
+  IndicatorSpec,
+  PositionSide,
+} from '@/types/strategy';
+import { isConditionGroup, operandIndicators } from '@/types/strategy';
 import type { Candle } from '@/types/results';
 
 export interface OpenPosition {
   entryPrice: number;
   entryIndex: number;
+  side?: PositionSide; // defaults to long
 }
 
 export function indicatorKey(spec: IndicatorSpec): string {
@@ -13,8 +22,12 @@ export function indicatorKey(spec: IndicatorSpec): string {
   if (spec.slowPeriod !== undefined) parts.push(String(spec.slowPeriod));
   if (spec.signalPeriod !== undefined) parts.push(String(spec.signalPeriod));
   if (spec.stdDev !== undefined) parts.push(String(spec.stdDev));
+  if (spec.multiplier !== undefined) parts.push(String(spec.multiplier));
+  if (spec.step !== undefined) parts.push(String(spec.step));
+  if (spec.maxStep !== undefined) parts.push(String(spec.maxStep));
   if (spec.source !== undefined) parts.push(spec.source);
-  return parts.join('_');
+  const key = parts.join('_');
+  return spec.timeframe !== undefined ? `${key}@${spec.timeframe}` : key;
 }
 
 export function resolveOperand(
@@ -28,27 +41,103 @@ export function resolveOperand(
     return operand.value;
   }
 
+  if (operand.kind === 'expression') {
+    const left = resolveOperand(operand.left, i, candles, indicatorCache, position);
+    const right = resolveOperand(operand.right, i, candles, indicatorCache, position);
+    // Any missing side (warmup, no position) or a zero divisor leaves the expression undefined
+    if (left === null || right === null) return null;
+    switch (operand.op) {
+      case 'add': return left + right;
+      case 'sub': return left - right;
+      case 'mul': return left * right;
+      case 'div': return right === 0 ? null : left / right;
+    }
+  }
+
   const spec = operand.indicator;
+  // Offsets only ever look back; a negative one would read a future bar. They
+  // count backtest bars, higher-timeframe operands included
+  const offset = operand.offset ?? 0;
+  if (offset < 0) return null;
+  const bar = i - offset;
+  if (bar < 0) return null;
 
   if (spec.type === 'pnl_pct') {
-    if (!position) return null;
-    return ((candles[i].c - position.entryPrice) / position.entryPrice) * 100;
+    if (!position || bar < position.entryIndex) return null;
+    const changePct = ((candles[bar].c - position.entryPrice) / position.entryPrice) * 100;
+    // Shorts profit when price falls
+    return position.side === 'short' ? -changePct : changePct;
   }
   if (spec.type === 'bars_in_trade') {
-    if (!position) return null;
-    return i - position.entryIndex;
+    if (!position || bar < position.entryIndex) return null;
+    return bar - position.entryIndex;
   }
 
-  if (spec.type === 'price_close') return candles[i].c;
-  if (spec.type === 'price_open') return candles[i].o;
-  if (spec.type === 'price_high') return candles[i].h;
-  if (spec.type === 'price_low') return candles[i].l;
-  if (spec.type === 'volume') return candles[i].v;
+  // Higher-timeframe prices are pre-cached from the resampled bars
+  if (spec.timeframe === undefined) {
+    if (spec.type === 'price_close') return candles[bar].c;
+    if (spec.type === 'price_open') return candles[bar].o;
+    if (spec.type === 'price_high') return candles[bar].h;
+    if (spec.type === 'price_low') return candles[bar].l;
+    if (spec.type === 'volume') return candles[bar].v;
+  }
 
   const key = indicatorKey(spec);
   const values = indicatorCache[key];
   if (!values) return null;
-  return values[i] ?? null;
+  return values[bar] ?? null;
+}
+
+function readsPosition(condition: Condition): boolean {
+  return [condition.left, condition.right]
+    .flatMap(operandIndicators)
+    .some((spec) => spec.type === 'pnl_pct' || spec.type === 'bars_in_trade');
+}
+
+/** Per-bar run lengths of a condition: true bars ending here, and bars since it was last true */
+interface Streaks {
+  runs: number[];
+  since: number[];
+}
+
+// A condition's candle-scope results depend only on the candles and the cache,
+// so each bar is evaluated once per backtest however many windows cover it
+const streakMemo = new WeakMap<
+  Candle[],
+  WeakMap<Record<string, (number | null)[]>, WeakMap<Condition, Streaks>>
+>();
+
+function candleStreaks(
+  condition: Condition,
+  i: number,
+  candles: Candle[],
+  indicatorCache: Record<string, (number | null)[]>,
+): Streaks {
+  let byCache = streakMemo.get(candles);
+  if (!byCache) {
+    byCache = new WeakMap();
+    streakMemo.set(candles, byCache);
+  }
+  let byCondition = byCache.get(indicatorCache);
+  if (!byCondition) {
+    byCondition = new WeakMap();
+    byCache.set(indicatorCache, byCondition);
+  }
+  let streaks = byCondition.get(condition);
+  if (!streaks) {
+    streaks = { runs: [], since: [] };
+    byCondition.set(condition, streaks);
+  }
+
+  const { runs, since } = streaks;
+  for (let j = runs.length; j <= i; j++) {
+    const hit = compareAt(condition, j, candles, indicatorCache, null);
+    const prevRun = j > 0 ? runs[j - 1] : 0;
+    const prevSince = j > 0 ? since[j - 1] : Infinity;
+    runs.push(hit ? prevRun + 1 : 0);
+    since.push(hit ? 0 : prevSince + 1);
+  }
+  return streaks;
 }
 
 export function evaluateCondition(
@@ -63,6 +152,45 @@ export function evaluateCondition(
     return false;
   }
 
+  const persistence = condition.persistence;
+  if (!persistence || persistence.bars <= 1) {
+    return compareAt(condition, i, candles, indicatorCache, position);
+  }
+
+  if (!readsPosition(condition)) {
+    const { runs, since } = candleStreaks(condition, i, candles, indicatorCache);
+    return persistence.type === 'consecutive'
+      ? runs[i] >= persistence.bars
+      : since[i] < persistence.bars;
+  }
+
+  // Position values change with every trade, so walk the window directly,
+  // counting bars before the entry as false
+  const first = i - persistence.bars + 1;
+  const hitAt = (j: number) =>
+    j >= 0 && position !== null && j >= position.entryIndex &&
+    compareAt(condition, j, candles, indicatorCache, position);
+  if (persistence.type === 'consecutive') {
+    for (let j = i; j >= first; j--) {
+      if (!hitAt(j)) return false;
+    }
+    return true;
+  }
+  for (let j = i; j >= first; j--) {
+    if (hitAt(j)) return true;
+  }
+  return false;
+}
+
+/** The condition's comparison on bar i alone, ignoring persistence */
+function compareAt(
+  condition: Condition,
+  i: number,
+  candles: Candle[],
+  indicatorCache: Record<string, (number | null)[]>,
+  position: OpenPosition | null,
+): boolean {
+
   const leftVal = resolveOperand(condition.left, i, candles, indicatorCache, position);
   const rightVal = resolveOperand(condition.right, i, candles, indicatorCache, position);
 
@@ -105,9 +233,32 @@ export function evaluateGroup(
     return group.op === 'AND';
   }
 
+  const evaluate = (node: ConditionNode): boolean =>
+    isConditionGroup(node)
+      ? evaluateGroup(node, i, candles, indicatorCache, position)
+      : evaluateCondition(node, i, candles, indicatorCache, position);
+
   if (group.op === 'AND') {
-    return group.conditions.every(c => evaluateCondition(c, i, candles, indicatorCache, position));
+    return group.conditions.every(evaluate);
+  } else if (group.op === 'OR') {
+    return group.conditions.some(evaluate);
   } else {
-    return group.conditions.some(c => evaluateCondition(c, i, candles, indicatorCache, position));
+    // NOT holds one child; should it hold several, it negates their AND
+    return !group.conditions.every(evaluate);
   }
 }
+
+/**
+ * Whether the exit rules signal an exit on candle i. An exit group with no
+ * conditions never does, whatever its op: such positions close only on their
+ * stop, target, trailing stop or at the end of the data.
+ */
+export function evaluateExitSignal(
+  exit: ConditionGroup,
+  i: number,
+  candles: Candle[],
+  indicatorCache: Record<string, (number | null)[]>,
+  position: OpenPosition | null,
+): boolean {
+  return exit.conditions.length > 0 && evaluateGroup(exit, i, candles, indicatorCache, position);
+}
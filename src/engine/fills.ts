@@ -0,0 +1,37 @@
+import type { Candle, FillModel } from '@/types/results';
+
+/** Fill model when the config leaves it unset */
+export const DEFAULT_FILL_MODEL: FillModel = 'next_open';
+
+/** Candles between the signal candle and the candle a market order fills on. */
+export function fillLag(model: FillModel): number {
+  return model === 'same_close' ? 0 : 1;
+}
+
+/** Raw price, before slippage, that a market order fills at on its fill candle. */
+export function fillBarPrice(model: FillModel, candle: Candle): number {
+  switch (model) {
+    case 'next_open':
+      return candle.o;
+    case 'same_close':
+    case 'next_close':
+      return candle.c;
+    case 'ohlc_avg':
+      return (candle.o + candle.h + candle.l + candle.c) / 4;
+  }
+}
+
+/**
+ * Whether the fill happens before any of the fill candle's range trades, so
+ * resting stops and targets can trigger on that same candle. Fills at the
+ * close or an intrabar average are only exposed to the range from the next
+ * candle on.
+ */
+export function fillsAtOpen(model: FillModel): boolean {
+  return model === 'next_open';
+}
+
+/** Which price of its fill candle a market order takes, for audit text. */
+export function fillPriceLabel(model: FillModel): string {
+  return model === 'ohlc_avg' ? 'OHLC average' : model === 'next_open' ? 'open' : 'close';
+}
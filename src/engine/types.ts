@@ -1,11 +1,42 @@
 import type { Candle } from '@/types/results';
+import type { PositionSide } from '@/types/strategy';
 
-export interface OpenPosition {
+/** One fill that opened or added to a position */
+export interface PositionLot {
   entryPrice: number;   // fill price after slippage
-  entryIndex: number;   // candle index where entered
+  entryIndex: number;
+  entryDate: string;
+  units: number;        // units still open from this lot
+  positionSize: number; // $ cost basis still open from this lot
+}
+
+export interface OpenPosition {
+  id: number;           // shared by every Trade closed out of this position
+  side: PositionSide;
+  entryPrice: number;   // unit-weighted average fill price across lots
+  entryIndex: number;   // candle index of the first entry
   entryDate: string;
   units: number;        // crypto units held
-  positionSize: number; // $ value invested (before fees)
+  positionSize: number; // $ cost basis of the open units (before fees) — the margin when levered
+  borrowed: number;     // $ borrowed to lever the open units, plus accrued interest
+  carryAccrued: number; // $ funding / holding cost owed on the open units (negative = received)
+  lots: PositionLot[];
+  scaleOutsFilled: boolean[]; // per ScaleOutStep, each fires at most once
+  scaleInTriggered: boolean;  // scale-in trigger held on the last candle checked; adds fire when it turns true
+  stopPrice?: number;       // resting stop-loss level, checked against candle range
+  takeProfitPrice?: number; // resting take-profit level, checked against candle range
+  trailExtreme?: number;      // highest high (long) / lowest low (short) since entry
+  trailingStopPrice?: number; // current trailing stop level, only ever tightens
+  liquidationPrice?: number;  // price at which equity falls to maintenance margin (levered only)
+}
+
+/** A limit / stop entry order resting in the market until it fills or expires */
+export interface PendingEntryOrder {
+  type: 'limit' | 'stop';
+  price: number;        // order level set from the signal close
+  size: number;         // $ margin committed on fill, sized at the signal
+  signalIndex: number;
+  expiresIndex: number; // last candle index the order can fill on
 }
 
 export type IndicatorCache = Record<string, (number | null)[]>;
@@ -6,16 +6,31 @@ import type {
   AppState,
   BacktestConfig,
   BacktestResult,
+  CarryCost,
   DemoSnapshot,
   RunSnapshot,
 } from '@/types/results';
-import { runBacktest } from '@/engine/backtest';
-import { loadCandles } from '@/data/loader';
+import { runBacktest, runPortfolioBacktest, runRebalanceBacktest } from '@/engine/backtest';
+import { loadCandles, loadFundingRates } from '@/data/loader';
 import { getPresetById } from '@/data/presets';
 import type { ParseResponse } from '@/lib/parser';
 import type { AppAction } from '@/app/state';
 import type { StrategyConfig } from '@/components/StrategyInput';
 
+/** Carry for a run: each asset's perp funding history, or the fixed daily rate. */
+async function loadCarryCost(
+  config: AppState['config'],
+  assets: AssetSymbol[],
+): Promise<CarryCost | undefined> {
+  if (config.carrySource === 'funding') {
+    const series = await Promise.all(assets.map((asset) => loadFundingRates(asset)));
+    return { type: 'series', rates: Object.fromEntries(assets.map((asset, k) => [asset, series[k]])) };
+  }
+  return config.carryBpsPerDay
+    ? { type: 'fixed', bpsPerDay: config.carryBpsPerDay }
+    : undefined;
+}
+
 export function useBacktestActions(
   state: AppState,
   dispatch: Dispatch<AppAction>,
@@ -28,17 +43,40 @@ export function useBacktestActions(
 
   const executeBacktest = useCallback(
     async (rules: StrategyRuleSet, config: AppState['config']): Promise<BacktestResult> => {
-      const candles = await loadCandles(config.asset);
+      // A multi-asset run charts the selected asset if it is in the basket, else the first one
+      const basketAssets = rules.mode.type === 'rebalance'
+        ? rules.mode.targets.map((t) => t.asset)
+        : rules.portfolio?.assets;
+      const chartAsset = basketAssets && !basketAssets.includes(config.asset)
+        ? basketAssets[0]
+        : config.asset;
       const backtestConfig: BacktestConfig = {
-        asset: config.asset,
-        timeframe: '1D',
+        asset: chartAsset,
+        timeframe: config.timeframe ?? '1D',
         startDate: config.startDate,
         endDate: config.endDate,
         initialCapital: config.initialCapital,
         feeBps: config.feeBps,
         slippageBps: config.slippageBps,
+        leverage: config.leverage,
+        fillModel: config.fillModel,
+        carryCost: await loadCarryCost(config, basketAssets ?? [config.asset]),
         rules,
       };
+
+      if (basketAssets) {
+        const candleSets = await Promise.all(
+          basketAssets.map((asset) => loadCandles(asset, backtestConfig.timeframe)),
+        );
+        const candlesByAsset = Object.fromEntries(
+          basketAssets.map((asset, k) => [asset, candleSets[k]]),
+        );
+        return rules.mode.type === 'rebalance'
+          ? runRebalanceBacktest(backtestConfig, candlesByAsset)
+          : runPortfolioBacktest(backtestConfig, candlesByAsset);
+      }
+
+      const candles = await loadCandles(config.asset, backtestConfig.timeframe);
       return runBacktest(backtestConfig, candles);
     },
     [],
@@ -74,7 +112,7 @@ export function useBacktestActions(
         const res = await fetch('/api/parse', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt, asset: config.asset, timeframe: '1D' }),
+          body: JSON.stringify({ prompt, asset: config.asset, timeframe: config.timeframe ?? '1D' }),
         });
         const data = await res.json();
 
@@ -235,7 +273,11 @@ export function useBacktestActions(
         const res = await fetch('/api/parse', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt, asset: state.config.asset, timeframe: '1D' }),
+          body: JSON.stringify({
+            prompt,
+            asset: state.config.asset,
+            timeframe: state.config.timeframe ?? '1D',
+          }),
         });
         const data = await res.json();
         setIsComparing(false);
@@ -260,7 +302,7 @@ export function useBacktestActions(
         });
       }
     },
-    [state.config.asset, dispatch, handleCompare, rateLimitControls],
+    [state.config.asset, state.config.timeframe, dispatch, handleCompare, rateLimitControls],
   );
 
   return {
@@ -37,6 +37,11 @@ export function useShareURL(
       initialCapital: decoded.initialCapital,
       feeBps: decoded.feeBps,
       slippageBps: decoded.slippageBps,
+      timeframe: decoded.timeframe,
+      leverage: decoded.leverage,
+      carryBpsPerDay: decoded.carryBpsPerDay,
+      carrySource: decoded.carrySource,
+      fillModel: decoded.fillModel,
     };
 
     // Set config and rules, then auto-run the backtest
@@ -0,0 +1,87 @@
+export interface ADXResult {
+  adx: (number | null)[];     // trend strength, 0..100
+  plusDI: (number | null)[];  // +DI, upward directional movement as % of true range
+  minusDI: (number | null)[]; // -DI, downward directional movement as % of true range
+}
+
+/**
+ * Average Directional Index with the Directional Movement lines (Wilder)
+ *
+ * +DM = high - prevHigh when that beats prevLow - low (else 0); -DM the reverse
+ * +DI / -DI = 100 * Wilder-smoothed DM / Wilder-smoothed true range
+ * DX  = 100 * |+DI - -DI| / (+DI + -DI)
+ * ADX = Wilder average of DX: first value is the mean of the first `period` DX values
+ *
+ * Returns arrays aligned with input length.
+ * +DI / -DI warmup nulls = period; ADX warmup nulls = 2 * period - 1.
+ */
+export function computeADX(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14,
+): ADXResult {
+  const len = highs.length;
+  const adx: (number | null)[] = new Array(len).fill(null);
+  const plusDI: (number | null)[] = new Array(len).fill(null);
+  const minusDI: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period + 1) return { adx, plusDI, minusDI };
+
+  // Per-bar true range and directional movement, from index 1
+  const tr: number[] = new Array(len).fill(0);
+  const plusDM: number[] = new Array(len).fill(0);
+  const minusDM: number[] = new Array(len).fill(0);
+  for (let i = 1; i < len; i++) {
+    tr[i] = Math.max(
+      highs[i] - lows[i],
+      Math.abs(highs[i] - closes[i - 1]),
+      Math.abs(lows[i] - closes[i - 1]),
+    );
+    const up = highs[i] - highs[i - 1];
+    const down = lows[i - 1] - lows[i];
+    if (up > down && up > 0) plusDM[i] = up;
+    if (down > up && down > 0) minusDM[i] = down;
+  }
+
+  // Wilder smoothing starts from the sum of the first `period` values
+  let smoothTR = 0;
+  let smoothPlus = 0;
+  let smoothMinus = 0;
+  for (let i = 1; i <= period; i++) {
+    smoothTR += tr[i];
+    smoothPlus += plusDM[i];
+    smoothMinus += minusDM[i];
+  }
+
+  const dx: number[] = new Array(len).fill(0);
+  for (let i = period; i < len; i++) {
+    if (i > period) {
+      smoothTR = smoothTR - smoothTR / period + tr[i];
+      smoothPlus = smoothPlus - smoothPlus / period + plusDM[i];
+      smoothMinus = smoothMinus - smoothMinus / period + minusDM[i];
+    }
+    const pdi = smoothTR === 0 ? 0 : (100 * smoothPlus) / smoothTR;
+    const mdi = smoothTR === 0 ? 0 : (100 * smoothMinus) / smoothTR;
+    plusDI[i] = pdi;
+    minusDI[i] = mdi;
+    dx[i] = pdi + mdi === 0 ? 0 : (100 * Math.abs(pdi - mdi)) / (pdi + mdi);
+  }
+
+  const first = 2 * period - 1;
+  if (len <= first) return { adx, plusDI, minusDI };
+
+  let sum = 0;
+  for (let i = period; i <= first; i++) {
+    sum += dx[i];
+  }
+  let value = sum / period;
+  adx[first] = value;
+
+  for (let i = first + 1; i < len; i++) {
+    value = (value * (period - 1) + dx[i]) / period;
+    adx[i] = value;
+  }
+
+  return { adx, plusDI, minusDI };
+}
@@ -0,0 +1,39 @@
+import { computeSMA } from './sma';
+
+/**
+ * Commodity Channel Index (CCI)
+ *
+ * typical price TP = (high + low + close) / 3
+ * CCI = (TP - SMA(TP)) / (0.015 * mean absolute deviation of TP from its SMA)
+ *
+ * A zero mean deviation (flat typical price) gives 0.
+ *
+ * Returns an array aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeCCI(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 20,
+): (number | null)[] {
+  const len = closes.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period) return result;
+
+  const tp = closes.map((c, i) => (highs[i] + lows[i] + c) / 3);
+  const mean = computeSMA(tp, period);
+
+  for (let i = period - 1; i < len; i++) {
+    const m = mean[i] as number;
+    let deviation = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      deviation += Math.abs(tp[j] - m);
+    }
+    deviation /= period;
+    result[i] = deviation === 0 ? 0 : (tp[i] - m) / (0.015 * deviation);
+  }
+
+  return result;
+}
@@ -0,0 +1,23 @@
+import { computeEMA } from './ema';
+import { onDefined } from './series';
+
+/**
+ * Double Exponential Moving Average (DEMA)
+ *
+ * DEMA = 2 * EMA - EMA(EMA), each EMA over `period`
+ *
+ * Returns an array aligned with input length.
+ * First `2 * (period - 1)` values are null (warmup).
+ */
+export function computeDEMA(
+  data: number[],
+  period: number,
+): (number | null)[] {
+  const ema1 = computeEMA(data, period);
+  const ema2 = onDefined(ema1, (values) => computeEMA(values, period));
+
+  return ema1.map((e1, i) => {
+    const e2 = ema2[i];
+    return e1 === null || e2 === null ? null : 2 * e1 - e2;
+  });
+}
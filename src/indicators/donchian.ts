@@ -0,0 +1,32 @@
+import { computeHighest, computeLowest } from './highestLowest';
+
+export interface DonchianResult {
+  upper: (number | null)[];
+  middle: (number | null)[];
+  lower: (number | null)[];
+}
+
+/**
+ * Donchian Channels
+ *
+ * upper  = highest high over `period`
+ * lower  = lowest low over `period`
+ * middle = (upper + lower) / 2
+ *
+ * Returns arrays aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeDonchian(
+  highs: number[],
+  lows: number[],
+  period: number = 20,
+): DonchianResult {
+  const upper = computeHighest(highs, period);
+  const lower = computeLowest(lows, period);
+  const middle = upper.map((u, i) => {
+    const l = lower[i];
+    return u === null || l === null ? null : (u + l) / 2;
+  });
+
+  return { upper, middle, lower };
+}
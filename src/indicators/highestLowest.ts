@@ -0,0 +1,46 @@
+/**
+ * Rolling Highest / Lowest (Donchian-style channel bounds)
+ *
+ * highest[i] = max(data[i - period + 1 .. i])
+ * lowest[i]  = min(data[i - period + 1 .. i])
+ *
+ * The window includes the current value, so a breakout above the prior
+ * N-bar high compares against the value one bar back.
+ *
+ * Returns an array aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeHighest(
+  data: number[],
+  period: number = 20,
+): (number | null)[] {
+  return rollingExtreme(data, period, (a, b) => a > b);
+}
+
+export function computeLowest(
+  data: number[],
+  period: number = 20,
+): (number | null)[] {
+  return rollingExtreme(data, period, (a, b) => a < b);
+}
+
+function rollingExtreme(
+  data: number[],
+  period: number,
+  beats: (a: number, b: number) => boolean,
+): (number | null)[] {
+  const len = data.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period) return result;
+
+  for (let i = period - 1; i < len; i++) {
+    let extreme = data[i - period + 1];
+    for (let j = i - period + 2; j <= i; j++) {
+      if (beats(data[j], extreme)) extreme = data[j];
+    }
+    result[i] = extreme;
+  }
+
+  return result;
+}
@@ -0,0 +1,28 @@
+import { computeWMA } from './wma';
+import { onDefined } from './series';
+
+/**
+ * Hull Moving Average (HMA)
+ *
+ * HMA = WMA(2 * WMA(period / 2) - WMA(period), sqrt(period))
+ * with period / 2 and sqrt(period) rounded down.
+ *
+ * Returns an array aligned with input length.
+ * First `(period - 1) + (floor(sqrt(period)) - 1)` values are null (warmup).
+ */
+export function computeHMA(
+  data: number[],
+  period: number,
+): (number | null)[] {
+  const len = data.length;
+  if (period <= 1) return new Array(len).fill(null);
+
+  const half = computeWMA(data, Math.floor(period / 2));
+  const full = computeWMA(data, period);
+  const raw = full.map((f, i) => {
+    const h = half[i];
+    return f === null || h === null ? null : 2 * h - f;
+  });
+
+  return onDefined(raw, (values) => computeWMA(values, Math.floor(Math.sqrt(period))));
+}
@@ -5,3 +5,21 @@ export { computeMACD, type MACDResult } from './macd';
 export { computeBollinger, type BollingerResult } from './bollinger';
 export { computeATR } from './atr';
 export { computePctChange } from './pctChange';
+export { computeHighest, computeLowest } from './highestLowest';
+export { computeStochastic, type StochasticResult } from './stochastic';
+export { computeWilliamsR } from './williamsR';
+export { computeCCI } from './cci';
+export { computeMFI } from './mfi';
+export { computeADX, type ADXResult } from './adx';
+export { computePSAR } from './psar';
+export { computeSupertrend, type SupertrendResult } from './supertrend';
+export { computeOBV } from './obv';
+export { computeVWAP } from './vwap';
+export { computeRelativeVolume } from './relativeVolume';
+export { computeWMA } from './wma';
+export { computeHMA } from './hma';
+export { computeDEMA } from './dema';
+export { computeTEMA } from './tema';
+export { computeKAMA } from './kama';
+export { computeKeltner, type KeltnerResult } from './keltner';
+export { computeDonchian, type DonchianResult } from './donchian';
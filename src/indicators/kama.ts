@@ -0,0 +1,43 @@
+/**
+ * Kaufman Adaptive Moving Average (KAMA)
+ *
+ * efficiency ratio ER = |data[i] - data[i - period]| / sum(|data[j] - data[j - 1]|) over `period`
+ * smoothing SC = (ER * (2 / (fast + 1) - 2 / (slow + 1)) + 2 / (slow + 1))^2
+ * KAMA[i] = KAMA[i - 1] + SC * (data[i] - KAMA[i - 1])
+ *
+ * Follows the EMA toward price quickly in a trend (ER near 1) and barely moves
+ * in chop (ER near 0). Seeded with data[period - 1], as TA-Lib does.
+ *
+ * Returns an array aligned with input length.
+ * First `period` values are null (warmup).
+ */
+export function computeKAMA(
+  data: number[],
+  period: number = 10,
+  fastPeriod: number = 2,
+  slowPeriod: number = 30,
+): (number | null)[] {
+  const len = data.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period + 1) return result;
+
+  const fast = 2 / (fastPeriod + 1);
+  const slow = 2 / (slowPeriod + 1);
+
+  let kama = data[period - 1];
+  for (let i = period; i < len; i++) {
+    const change = Math.abs(data[i] - data[i - period]);
+    let volatility = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      volatility += Math.abs(data[j] - data[j - 1]);
+    }
+    // No movement at all: treat as pure chop
+    const er = volatility === 0 ? 0 : change / volatility;
+    const sc = (er * (fast - slow) + slow) ** 2;
+    kama += sc * (data[i] - kama);
+    result[i] = kama;
+  }
+
+  return result;
+}
@@ -0,0 +1,43 @@
+import { computeEMA } from './ema';
+import { computeATR } from './atr';
+
+export interface KeltnerResult {
+  upper: (number | null)[];
+  middle: (number | null)[];
+  lower: (number | null)[];
+}
+
+/**
+ * Keltner Channels
+ *
+ * middle = EMA(close, period)
+ * upper  = middle + multiplier * ATR(period)
+ * lower  = middle - multiplier * ATR(period)
+ *
+ * Returns arrays aligned with input length.
+ * middle warmup nulls = period - 1; upper / lower warmup nulls = period (ATR).
+ */
+export function computeKeltner(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 20,
+  multiplier: number = 2,
+): KeltnerResult {
+  const len = closes.length;
+  const upper: (number | null)[] = new Array(len).fill(null);
+  const lower: (number | null)[] = new Array(len).fill(null);
+
+  const middle = computeEMA(closes, period);
+  const atr = computeATR(highs, lows, closes, period);
+
+  for (let i = 0; i < len; i++) {
+    const mid = middle[i];
+    const range = atr[i];
+    if (mid === null || range === null) continue;
+    upper[i] = mid + multiplier * range;
+    lower[i] = mid - multiplier * range;
+  }
+
+  return { upper, middle, lower };
+}
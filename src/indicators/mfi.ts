@@ -0,0 +1,51 @@
+/**
+ * Money Flow Index (MFI) — a volume-weighted RSI
+ *
+ * typical price TP = (high + low + close) / 3, raw flow = TP * volume
+ * A bar's flow is positive when TP rose from the previous bar, negative when it fell.
+ * MFI = 100 - 100 / (1 + positive flow / negative flow) over the last `period` bars
+ *
+ * No negative flow gives 100; no flow either way gives 50.
+ *
+ * Returns an array aligned with input length.
+ * First `period` values are null (warmup).
+ */
+export function computeMFI(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[],
+  period: number = 14,
+): (number | null)[] {
+  const len = closes.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period + 1) return result;
+
+  const tp = closes.map((c, i) => (highs[i] + lows[i] + c) / 3);
+  const positive: number[] = new Array(len).fill(0);
+  const negative: number[] = new Array(len).fill(0);
+  for (let i = 1; i < len; i++) {
+    const flow = tp[i] * volumes[i];
+    if (tp[i] > tp[i - 1]) positive[i] = flow;
+    else if (tp[i] < tp[i - 1]) negative[i] = flow;
+  }
+
+  for (let i = period; i < len; i++) {
+    // Summed per window rather than rolled, so a flow-free window is exactly 0
+    let posSum = 0;
+    let negSum = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      posSum += positive[j];
+      negSum += negative[j];
+    }
+
+    if (negSum === 0) {
+      result[i] = posSum === 0 ? 50 : 100;
+    } else {
+      result[i] = 100 - 100 / (1 + posSum / negSum);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,30 @@
+/**
+ * On-Balance Volume (OBV)
+ *
+ * OBV[0] = 0
+ * OBV[i] = OBV[i-1] + volume[i] if close rose, - volume[i] if it fell, unchanged otherwise
+ *
+ * Only its direction and crossings carry meaning; the level depends on where
+ * the data starts.
+ *
+ * Returns an array aligned with input length, with no warmup.
+ */
+export function computeOBV(
+  closes: number[],
+  volumes: number[],
+): (number | null)[] {
+  const len = closes.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (len === 0) return result;
+
+  let obv = 0;
+  result[0] = obv;
+  for (let i = 1; i < len; i++) {
+    if (closes[i] > closes[i - 1]) obv += volumes[i];
+    else if (closes[i] < closes[i - 1]) obv -= volumes[i];
+    result[i] = obv;
+  }
+
+  return result;
+}
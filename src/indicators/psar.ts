@@ -0,0 +1,63 @@
+/**
+ * Parabolic SAR (stop and reverse)
+ *
+ * In an uptrend SAR trails below price: SAR += af * (extreme high - SAR), where
+ * af starts at `step` and grows by `step` on every new extreme, up to `maxStep`.
+ * It never rises above the prior two lows. When a low pierces it the trend
+ * reverses: SAR jumps to the extreme high and trails above price the same way.
+ *
+ * The first trend follows the direction of the first two closes.
+ *
+ * Returns an array aligned with input length.
+ * First value is null (warmup).
+ */
+export function computePSAR(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  step: number = 0.02,
+  maxStep: number = 0.2,
+): (number | null)[] {
+  const len = highs.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (step <= 0 || len < 2) return result;
+
+  let up = closes[1] >= closes[0];
+  let sar = up ? lows[0] : highs[0];
+  let ep = up ? highs[0] : lows[0];
+  let af = step;
+
+  for (let i = 1; i < len; i++) {
+    sar += af * (ep - sar);
+
+    if (up) {
+      // Never above the lows the SAR is trailing
+      sar = Math.min(sar, lows[i - 1], i >= 2 ? lows[i - 2] : lows[i - 1]);
+      if (lows[i] < sar) {
+        up = false;
+        sar = ep;
+        ep = lows[i];
+        af = step;
+      } else if (highs[i] > ep) {
+        ep = highs[i];
+        af = Math.min(af + step, maxStep);
+      }
+    } else {
+      sar = Math.max(sar, highs[i - 1], i >= 2 ? highs[i - 2] : highs[i - 1]);
+      if (highs[i] > sar) {
+        up = true;
+        sar = ep;
+        ep = highs[i];
+        af = step;
+      } else if (lows[i] < ep) {
+        ep = lows[i];
+        af = Math.min(af + step, maxStep);
+      }
+    }
+
+    result[i] = sar;
+  }
+
+  return result;
+}
@@ -0,0 +1,23 @@
+import { computeSMA } from './sma';
+
+/**
+ * Relative Volume
+ *
+ * relVolume[i] = volume[i] / SMA(volume, period)[i]
+ *
+ * The average includes the current bar, so 2 means twice the average of the
+ * last `period` bars. An average of zero gives null.
+ *
+ * Returns an array aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeRelativeVolume(
+  volumes: number[],
+  period: number = 20,
+): (number | null)[] {
+  const average = computeSMA(volumes, period);
+  return volumes.map((v, i) => {
+    const avg = average[i];
+    return avg === null || avg === 0 ? null : v / avg;
+  });
+}
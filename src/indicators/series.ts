@@ -0,0 +1,15 @@
+/**
+ * Apply `fn` to the values of a null-padded series (nulls only at the start,
+ * as every indicator here returns) and pad its result back to full length.
+ * Lets a smoothing step run on another indicator's output, e.g. EMA of an EMA.
+ */
+export function onDefined(
+  series: (number | null)[],
+  fn: (values: number[]) => (number | null)[],
+): (number | null)[] {
+  const first = series.findIndex((v) => v !== null);
+  if (first === -1) return new Array(series.length).fill(null);
+
+  const tail = fn(series.slice(first) as number[]);
+  return [...new Array(first).fill(null), ...tail];
+}
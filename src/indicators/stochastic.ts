@@ -0,0 +1,51 @@
+import { computeSMA } from './sma';
+import { computeHighest, computeLowest } from './highestLowest';
+
+export interface StochasticResult {
+  k: (number | null)[]; // where the close sits in the period's high-low range, 0..100
+  d: (number | null)[]; // SMA of %K
+}
+
+/**
+ * Stochastic Oscillator (fast %K with %D signal)
+ *
+ * %K = 100 * (close - lowest low) / (highest high - lowest low) over `period`
+ * %D = SMA(%K, dPeriod)
+ *
+ * A flat range (highest == lowest) gives %K = 50.
+ *
+ * Returns arrays aligned with input length.
+ * %K warmup nulls = period - 1; %D warmup nulls = (period - 1) + (dPeriod - 1).
+ */
+export function computeStochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14,
+  dPeriod: number = 3,
+): StochasticResult {
+  const len = closes.length;
+  const k: (number | null)[] = new Array(len).fill(null);
+  const d: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period) return { k, d };
+
+  const highest = computeHighest(highs, period);
+  const lowest = computeLowest(lows, period);
+
+  for (let i = period - 1; i < len; i++) {
+    const hh = highest[i] as number;
+    const ll = lowest[i] as number;
+    const range = hh - ll;
+    k[i] = range === 0 ? 50 : (100 * (closes[i] - ll)) / range;
+  }
+
+  // %D over the non-null %K values, mapped back to their indices
+  const kValues = k.slice(period - 1) as number[];
+  const dValues = computeSMA(kValues, dPeriod);
+  for (let j = 0; j < dValues.length; j++) {
+    d[period - 1 + j] = dValues[j];
+  }
+
+  return { k, d };
+}
@@ -0,0 +1,63 @@
+import { computeATR } from './atr';
+
+export interface SupertrendResult {
+  line: (number | null)[];      // lower band in an uptrend, upper band in a downtrend
+  direction: (1 | -1 | null)[]; // 1 = uptrend, -1 = downtrend
+}
+
+/**
+ * Supertrend
+ *
+ * basic bands = (high + low) / 2 ± multiplier * ATR(period)
+ * The lower band only rises and the upper band only falls while price stays
+ * inside them. The trend flips up when the close breaks above the upper band
+ * and down when it breaks below the lower band; the line then switches bands.
+ *
+ * Because the line sits under price in an uptrend and over it in a downtrend,
+ * close crossing above / below the line marks exactly the flips.
+ *
+ * Returns arrays aligned with input length.
+ * First `period` values are null (warmup, as for ATR).
+ */
+export function computeSupertrend(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 10,
+  multiplier: number = 3,
+): SupertrendResult {
+  const len = highs.length;
+  const line: (number | null)[] = new Array(len).fill(null);
+  const direction: (1 | -1 | null)[] = new Array(len).fill(null);
+
+  const atr = computeATR(highs, lows, closes, period);
+  if (period <= 0 || len < period + 1) return { line, direction };
+
+  let upper = 0;
+  let lower = 0;
+  let trend: 1 | -1 = 1;
+
+  for (let i = period; i < len; i++) {
+    const mid = (highs[i] + lows[i]) / 2;
+    const band = multiplier * (atr[i] as number);
+    const basicUpper = mid + band;
+    const basicLower = mid - band;
+
+    if (i === period) {
+      upper = basicUpper;
+      lower = basicLower;
+      trend = closes[i] >= mid ? 1 : -1;
+    } else {
+      const prevClose = closes[i - 1];
+      upper = basicUpper < upper || prevClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || prevClose < lower ? basicLower : lower;
+      if (trend === 1 && closes[i] < lower) trend = -1;
+      else if (trend === -1 && closes[i] > upper) trend = 1;
+    }
+
+    line[i] = trend === 1 ? lower : upper;
+    direction[i] = trend;
+  }
+
+  return { line, direction };
+}
@@ -0,0 +1,25 @@
+import { computeEMA } from './ema';
+import { onDefined } from './series';
+
+/**
+ * Triple Exponential Moving Average (TEMA)
+ *
+ * TEMA = 3 * EMA - 3 * EMA(EMA) + EMA(EMA(EMA)), each EMA over `period`
+ *
+ * Returns an array aligned with input length.
+ * First `3 * (period - 1)` values are null (warmup).
+ */
+export function computeTEMA(
+  data: number[],
+  period: number,
+): (number | null)[] {
+  const ema1 = computeEMA(data, period);
+  const ema2 = onDefined(ema1, (values) => computeEMA(values, period));
+  const ema3 = onDefined(ema2, (values) => computeEMA(values, period));
+
+  return ema1.map((e1, i) => {
+    const e2 = ema2[i];
+    const e3 = ema3[i];
+    return e1 === null || e2 === null || e3 === null ? null : 3 * e1 - 3 * e2 + e3;
+  });
+}
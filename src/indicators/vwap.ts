@@ -0,0 +1,37 @@
+/**
+ * Rolling Volume-Weighted Average Price (VWAP)
+ *
+ * typical price TP = (high + low + close) / 3
+ * VWAP = sum(TP * volume) / sum(volume) over the last `period` bars
+ *
+ * Crypto trades around the clock with no session open to anchor to, so the
+ * window rolls instead of resetting daily. A window without volume gives null.
+ *
+ * Returns an array aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeVWAP(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[],
+  period: number = 20,
+): (number | null)[] {
+  const len = closes.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period) return result;
+
+  for (let i = period - 1; i < len; i++) {
+    let priceVolume = 0;
+    let volume = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const tp = (highs[j] + lows[j] + closes[j]) / 3;
+      priceVolume += tp * volumes[j];
+      volume += volumes[j];
+    }
+    result[i] = volume === 0 ? null : priceVolume / volume;
+  }
+
+  return result;
+}
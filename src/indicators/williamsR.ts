@@ -0,0 +1,36 @@
+import { computeHighest, computeLowest } from './highestLowest';
+
+/**
+ * Williams %R
+ *
+ * %R = -100 * (highest high - close) / (highest high - lowest low) over `period`
+ *
+ * Ranges from -100 (close at the low) to 0 (close at the high).
+ * A flat range (highest == lowest) gives -50.
+ *
+ * Returns an array aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeWilliamsR(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14,
+): (number | null)[] {
+  const len = closes.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period) return result;
+
+  const highest = computeHighest(highs, period);
+  const lowest = computeLowest(lows, period);
+
+  for (let i = period - 1; i < len; i++) {
+    const hh = highest[i] as number;
+    const ll = lowest[i] as number;
+    const range = hh - ll;
+    result[i] = range === 0 ? -50 : (-100 * (hh - closes[i])) / range;
+  }
+
+  return result;
+}
@@ -0,0 +1,29 @@
+/**
+ * Weighted Moving Average (WMA)
+ *
+ * Linear weights: the newest value counts `period` times, the oldest once.
+ * WMA = sum(data[i - period + 1 + j] * (j + 1)) / (period * (period + 1) / 2)
+ *
+ * Returns an array aligned with input length.
+ * First `period - 1` values are null (warmup).
+ */
+export function computeWMA(
+  data: number[],
+  period: number,
+): (number | null)[] {
+  const len = data.length;
+  const result: (number | null)[] = new Array(len).fill(null);
+
+  if (period <= 0 || len < period) return result;
+
+  const denominator = (period * (period + 1)) / 2;
+  for (let i = period - 1; i < len; i++) {
+    let sum = 0;
+    for (let j = 0; j < period; j++) {
+      sum += data[i - period + 1 + j] * (j + 1);
+    }
+    result[i] = sum / denominator;
+  }
+
+  return result;
+}
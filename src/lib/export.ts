@@ -1,11 +1,14 @@
-import type { BacktestResult, Trade } from '@/types/results';
+import type { BacktestResult, FillModel, Trade } from '@/types/results';
+import type { Timeframe } from '@/types/strategy';
 
 export function tradesToCSV(trades: Trade[]): string {
-  const header = 'ID,Entry Date,Entry Price,Exit Date,Exit Price,P&L ($),P&L (%),Holding Days,Exit Reason,Position Size';
+  const header = 'ID,Asset,Side,Entry Date,Entry Price,Exit Date,Exit Price,P&L ($),P&L (%),Holding Days,Exit Reason,Position Size';
 
   const rows = trades.map((t) =>
     [
       t.id,
+      t.asset ?? '',
+      t.side,
       t.entryDate,
       t.entryPrice.toFixed(2),
       t.exitDate,
@@ -34,6 +37,13 @@ export function generateShareURL(result: BacktestResult): string {
     initialCapital: result.config.initialCapital,
     feeBps: result.config.feeBps,
     slippageBps: result.config.slippageBps,
+    timeframe: result.config.timeframe,
+    leverage: result.config.leverage,
+    fillModel: result.config.fillModel,
+    carryBpsPerDay: result.config.carryCost?.type === 'fixed'
+      ? result.config.carryCost.bpsPerDay
+      : undefined,
+    carrySource: result.config.carryCost?.type === 'series' ? 'funding' : undefined,
   };
 
   const json = JSON.stringify(sharePayload);
@@ -50,6 +60,11 @@ export function decodeShareURL(encoded: string): {
   initialCapital: number;
   feeBps: number;
   slippageBps: number;
+  timeframe?: Timeframe;
+  leverage?: number;
+  carryBpsPerDay?: number;
+  carrySource?: 'fixed' | 'funding';
+  fillModel?: FillModel;
 } | null {
   try {
     const json = decodeURIComponent(escape(atob(decodeURIComponent(encoded))));
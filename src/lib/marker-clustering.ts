@@ -1,4 +1,5 @@
 import { getISOWeek, getISOWeekYear } from 'date-fns';
+import { toDisplayDate } from '@/lib/time';
 
 export type Granularity = 'none' | 'weekly' | 'monthly' | 'quarterly';
 
@@ -26,7 +27,7 @@ export function determineBucketGranularity(visibleBarCount: number): Granularity
 export function bucketKey(dateStr: string, granularity: Granularity): string {
   if (granularity === 'none') return dateStr;
 
-  const date = new Date(dateStr + 'T00:00:00');
+  const date = toDisplayDate(dateStr);
 
   if (granularity === 'weekly') {
     const weekYear = getISOWeekYear(date);
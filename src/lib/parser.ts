@@ -1,5 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { StrategyRuleSetSchema, validateRuleSetInvariants, type StrategyRuleSet } from '@/types/strategy';
+import {
+  StrategyRuleSetSchema,
+  validateRuleSetInvariants,
+  type StrategyRuleSet,
+  type Timeframe,
+} from '@/types/strategy';
 
 const SUGGESTIONS = [
   "Buy BTC when RSI drops below 30, sell when it goes above 70",
@@ -8,6 +13,14 @@ const SUGGESTIONS = [
   "Buy when price drops 10% in a week, sell at 20% profit or 5% loss",
 ];
 
+const BAR_NAMES: Record<Timeframe, string> = {
+  '1H': 'hourly',
+  '4H': '4-hour',
+  '1D': 'daily',
+  '1W': 'weekly',
+  '1M': 'monthly',
+};
+
 const SYSTEM_PROMPT = `You are a strict compiler that converts user trading strategy descriptions
 into RuleSet JSON. You respond with ONLY valid JSON. No markdown. No code
 fences. No explanation. No preamble. No trailing text.
@@ -18,16 +31,28 @@ Your output must conform EXACTLY to this schema:
   "id": "string (generate a unique short ID like 'vt_abc123')",
   "name": "string (short descriptive name)",
   "description": "string (1-2 sentence plain English summary)",
-  "mode": { "type": "standard" } OR { "type": "dca", "intervalDays": N, "amountUsd": N },
+  "mode": { "type": "standard" } OR { "type": "dca", "intervalDays": N, "amountUsd": N }
+    OR { "type": "rebalance", "targets": [ { "asset": "BTC", "weightPct": N }, ... ], "trigger": { "type": "calendar", "intervalDays": N } or { "type": "drift", "thresholdPct": N } },
+  "side": "long" (default) or "short",
   "entry": {
     "op": "AND" or "OR",
-    "conditions": [ ...Condition objects... ]
+    "conditions": [ ...Condition objects or nested groups... ]
   },
   "exit": {
     "op": "AND" or "OR" (usually OR for exits),
-    "conditions": [ ...Condition objects... ]
+    "conditions": [ ...Condition objects or nested groups... ],
+    "stopLossPct": N (optional),
+    "takeProfitPct": N (optional),
+    "trailingStop": { "type": "percent", "valuePct": N } or { "type": "atr", "multiple": N, "period": N } (optional)
   },
-  "sizing": { "type": "percent_equity", "valuePct": N } or { "type": "fixed_amount", "valueUsd": N },
+  "sizing": { "type": "percent_equity", "valuePct": N } or { "type": "fixed_amount", "valueUsd": N }
+    or { "type": "risk_percent", "riskPct": N } or { "type": "atr_volatility", "riskPct": N, "period": N }
+    or { "type": "kelly_fraction", "fraction": 0-1, "lookbackTrades": N, "fallbackPct": N },
+  "entryOrder": { "type": "market" } or { "type": "limit" | "stop", "offsetPct": N, "timeInForceBars": N } (optional),
+  "reentry": { "cooldownBars": N, "cooldownAfterLossOnly": true | false, "maxTrades": { "count": N, "periodDays": N } } (optional, every field optional),
+  "scaleIn": { "trigger": { "op": ..., "conditions": [...] }, "sizePct": N, "maxLots": N } (optional),
+  "scaleOut": [ { "id": "string", "trigger": { "op": ..., "conditions": [...] }, "fractionPct": N } ] (optional),
+  "portfolio": { "assets": ["BTC", "ETH", ...], "maxOpenPositions": N, "allocation": "equal_split" | "rule_sizing", "overrides": [ { "asset": "SOL", "entry": {...}, "exit": {...} } ] (optional) } (optional),
   "metadata": {
     "originalPrompt": "the user's original input text",
     "parserConfidence": "low" | "medium" | "high",
@@ -40,51 +65,177 @@ CRITICAL RULES FOR MODE:
 - If the user describes a DCA/dollar-cost-averaging strategy:
   Set mode to { "type": "dca", "intervalDays": N, "amountUsd": N }.
   Set entry.conditions to [] (empty array).
-  Set exit.conditions to [] (empty array).
+  Set exit.conditions to [] (empty array) and omit stopLossPct / takeProfitPct / trailingStop.
   Set sizing to { "type": "fixed_amount", "valueUsd": same as mode.amountUsd }.
+- If the user describes holding fixed weights across assets and rebalancing (e.g. "60/40 BTC ETH, rebalance monthly"):
+  Set mode to { "type": "rebalance", "targets": [...], "trigger": ... }. Weights are percentages and must sum to 100.
+  "monthly" → calendar trigger with intervalDays 30; "quarterly" → 90; "when off by 5%" → { "type": "drift", "thresholdPct": 5 } (percentage points).
+  Set entry.conditions and exit.conditions to [] and omit stopLossPct / takeProfitPct / trailingStop, scaleIn, scaleOut and portfolio.
+  Set sizing to { "type": "percent_equity", "valuePct": 100 }.
 - For ALL other strategies:
   Set mode to { "type": "standard" }.
   entry.conditions MUST have at least 1 condition.
-  exit.conditions may be empty (but add a warning if so).
+  exit.conditions may be empty (but add a warning if there is no stop-loss, take-profit or trailing stop either).
+
+NESTED GROUPS: Any "conditions" array may hold groups as well as conditions. A group is
+{ "op": "AND" | "OR" | "NOT", "conditions": [...] } and nests to any depth.
+- "(RSI < 30 AND close > SMA200) OR MACD crosses above signal" → top-level OR holding an AND group and the MACD condition.
+- NOT negates exactly one condition or group: "not above the 200 SMA" → { "op": "NOT", "conditions": [close > SMA(200)] }.
+  Prefer flipping the operator ("close <= SMA(200)") when that reads as naturally; use NOT for negating a whole group.
+- Nested groups are never empty. Keep it flat when a single AND / OR expresses the rule.
+
+CRITICAL RULES FOR SIDE:
+- "short", "sell short", "bet against", "fade the rally" → set "side": "short".
+  Entry conditions open the short, exit conditions cover (buy back) it.
+- Otherwise set "side": "long" (or omit it).
+- pnl_pct is always measured in the position's favour: for a short, +10 means price fell 10%.
 
 CONDITION SCHEMA:
 {
   "id": "string (unique like 'entry_1', 'exit_2')",
   "label": "string (human-readable like 'RSI(14) < 30')",
   "scope": "candle" (default) or "position",
-  "left": { "kind": "indicator", "indicator": { "type": "...", ...params } } or { "kind": "number", "value": N },
+  "left": { "kind": "indicator", "indicator": { "type": "...", ...params } } or { "kind": "number", "value": N } or an expression,
   "op": "lt" | "lte" | "gt" | "gte" | "eq" | "crosses_above" | "crosses_below",
-  "right": { "kind": "indicator", "indicator": { "type": "...", ...params } } or { "kind": "number", "value": N }
+  "right": { "kind": "indicator", "indicator": { "type": "...", ...params } } or { "kind": "number", "value": N } or an expression
 }
 
 AVAILABLE INDICATOR TYPES:
 - price_close, price_open, price_high, price_low (raw OHLC)
 - sma (params: period) — Simple Moving Average
 - ema (params: period) — Exponential Moving Average
+- wma, hma, dema, tema (params: period) — Weighted, Hull, Double and Triple Exponential Moving Averages
+- kama (params: period=10, fastPeriod=2, slowPeriod=30) — Kaufman Adaptive Moving Average
+  Use these only when the user names them; a plain "moving average" stays SMA.
 - rsi (params: period, default 14) — Relative Strength Index
 - macd_line (params: fastPeriod=12, slowPeriod=26, signalPeriod=9)
 - macd_signal (same params as macd_line)
 - macd_hist (same params as macd_line)
 - bb_upper, bb_middle, bb_lower (params: period=20, stdDev=2) — Bollinger Bands
+- kc_upper, kc_middle, kc_lower (params: period=20, multiplier=2) — Keltner Channels: EMA(period) ± multiplier × ATR(period)
+- dc_upper, dc_middle, dc_lower (params: period=20) — Donchian Channels: highest high, midpoint, lowest low over N candles
+  (dc_upper(N) equals highest(N) on highs; compare the close against it with "offset": 1 for breakouts)
 - atr (params: period) — Average True Range
 - pct_change (params: period) — % change over N candles
+- stoch_k, stoch_d (params: period=14, signalPeriod=3) — Stochastic %K and its %D signal (SMA of %K), 0..100
+- williams_r (params: period=14) — Williams %R, -100..0 (above -20 overbought, below -80 oversold)
+- cci (params: period=20) — Commodity Channel Index, unbounded (±100 are the usual thresholds)
+- mfi (params: period=14) — Money Flow Index, volume-weighted RSI, 0..100
+- adx, plus_di, minus_di (params: period=14) — Average Directional Index (trend strength, > 25 = trending) and the
+  +DI / -DI lines ("uptrend with strength" → adx > 25 AND plus_di gt minus_di)
+- psar (params: step=0.02, maxStep=0.2) — Parabolic SAR; price above it = uptrend
+- supertrend (params: period=10, multiplier=3) — ATR Supertrend line, under price in an uptrend and over it in a
+  downtrend. "Supertrend turns bullish/bearish" → price_close crosses_above / crosses_below supertrend
+- obv — On-Balance Volume; compare it with itself via "offset" ("OBV rising") rather than with a fixed number
+- volume_sma (params: period=20) — moving average of volume
+- vwap (params: period=20) — rolling volume-weighted average price over N candles (no session resets)
+- rel_volume (params: period=20) — volume / volume_sma(period), 1 = average volume
+  ("breakout on 2x average volume" → price_close gt highest(20) with "offset": 1 AND rel_volume(20) gte 2)
+- highest, lowest (params: period=20, source — default "high" for highest, "low" for lowest) — rolling N-bar high/low (Donchian channel bounds)
 - volume
 - pnl_pct (scope: "position") — current trade P&L as percentage
 - bars_in_trade (scope: "position") — candles since entry
 
-TAKE-PROFIT / STOP-LOSS: Express as position-scope conditions:
-  - Take profit 15%: { "scope": "position", "left": { "kind": "indicator", "indicator": { "type": "pnl_pct" } }, "op": "gte", "right": { "kind": "number", "value": 15 } }
-  - Stop loss 5%: { "scope": "position", "left": { "kind": "indicator", "indicator": { "type": "pnl_pct" } }, "op": "lte", "right": { "kind": "number", "value": -5 } }
+LOOKBACK: An indicator operand may carry "offset": N to read its value N bars ago (0 or omitted = the signal bar).
+- "close higher than 3 days ago" → price_close gt { "kind": "indicator", "indicator": { "type": "price_close" }, "offset": 3 }
+- "RSI rising" / "RSI today above yesterday" → rsi(14) gt rsi(14) with "offset": 1
+Offsets are whole numbers >= 0 and can never point forward in time. They always count bars of the selected
+timeframe, even on an indicator with its own "timeframe": on daily bars, the weekly close one week back is
+{ "type": "price_close", "timeframe": "1W" } with "offset": 7, not 1.
+- "break above the 20-day high" → price_close gt highest(20) with "offset": 1 (the window includes the current bar, so
+  compare against the previous bar's channel; likewise price_close lt lowest(20) with "offset": 1 for breakdowns)
+
+PERSISTENCE: A condition may carry "persistence" to hold over several bars instead of just the signal bar:
+- { "type": "consecutive", "bars": N } — true on each of the last N bars ("RSI below 30 for 3 days in a row")
+- { "type": "within", "bars": N } — true on at least one of the last N bars, the signal bar included
+- "MACD crossed above signal within the last 3 days while RSI < 50" → the crosses_above condition gets
+  "persistence": { "type": "within", "bars": 3 }; the RSI condition has none
+Keep "label" to the bare comparison; the persistence is shown alongside it.
+
+EXPRESSIONS: An operand may also be arithmetic over two operands, nesting freely:
+  { "kind": "expression", "op": "add" | "sub" | "mul" | "div", "left": Operand, "right": Operand }
+- "close is 5% above SMA(50)" → price_close gt { "kind": "expression", "op": "mul", "left": SMA(50), "right": 1.05 }
+- "close more than 2 ATR below EMA(20)" → price_close lt EMA(20) sub (ATR(14) mul 2)
+- "MACD histogram above 1% of price" → macd_hist gt (price_close mul 0.01)
+An expression has no value while any indicator in it is warming up, or when dividing by zero. Averages of an
+indicator ("ATR above its 50-day average") are not expressible — approximate and add a warning.
+
+TAKE-PROFIT / STOP-LOSS: Express as exit order fields, NOT as conditions.
+They fill intrabar when the candle's high/low reaches the level:
+  - Take profit 15%: "exit": { ..., "takeProfitPct": 15 }
+  - Stop loss 5%: "exit": { ..., "stopLossPct": 5 }
+Both are positive percentages measured from the entry fill price.
+Use pnl_pct conditions only for close-based rules the user explicitly describes that way.
+
+TRAILING STOP: Express as exit.trailingStop. It trails the highest high since entry
+(lowest low for shorts) and only ever tightens:
+  - "8% trailing stop": "exit": { ..., "trailingStop": { "type": "percent", "valuePct": 8 } }
+  - "trail by 3 ATR": "exit": { ..., "trailingStop": { "type": "atr", "multiple": 3, "period": 14 } }
+
+PYRAMIDING / PARTIAL EXITS (standard mode only; triggers hold normal Condition objects):
+- "Add 25% more when RSI drops below 25, max 3 buys" → "scaleIn" with trigger RSI(14) < 25, "sizePct": 25, "maxLots": 3.
+  sizePct is % of current equity per add; maxLots counts the initial entry. The trigger is re-checked every bar while the position is open
+  and adds one lot each time it turns true: RSI < 25 staying true adds once, and adds again only after RSI recovers and dips back.
+- "Sell half at +10%, rest on SMA cross" → one "scaleOut" step with trigger pnl_pct >= 10 (scope "position"), "fractionPct": 50,
+  plus the SMA cross as a normal exit condition. fractionPct is % of the units still open; each step fires at most once per position.
+- Relative triggers like "each time RSI drops another 5 points" → approximate with a fixed threshold, add a warning.
+
+POSITION SIZING (standard mode only):
+- "Risk 1% per trade" / "never lose more than 2% of the account on a trade" → { "type": "risk_percent", "riskPct": 1 }.
+  It sizes against the nearest stop, so exit MUST have stopLossPct or trailingStop; if the user gave none, add a stop the user implies or a warning.
+- "Size by volatility" / "smaller positions when ATR is high" → { "type": "atr_volatility", "riskPct": N, "period": 14 }; riskPct is the % of equity a one-ATR move should cost.
+- "Half Kelly" → { "type": "kelly_fraction", "fraction": 0.5 }. lookbackTrades (default 20) round trips feed the estimate; fallbackPct (default 10) is used until then.
+
+ENTRY ORDERS (standard single-asset mode only; omit "entryOrder" for market entries at the next open):
+- "Buy with a limit 2% below the close" → { "type": "limit", "offsetPct": 2 }. Limits rest below the signal close for longs, above it for shorts.
+- "Buy the breakout 1% above today's close" → { "type": "stop", "offsetPct": 1 }. Stops rest above the signal close for longs, below it for shorts.
+- "Good for 3 days" / "cancel if not filled within a week" → "timeInForceBars": 3 / 7 (default 1). Orders that never fill are reported as unfilled.
+- Stop-limit or other order types → use the closest of limit / stop and add a warning.
+
+RE-ENTRY RULES (standard single-asset mode only):
+- "Wait 5 days after selling before buying again" → "reentry": { "cooldownBars": 5 }.
+- "After a losing trade, sit out 10 days" → "reentry": { "cooldownBars": 10, "cooldownAfterLossOnly": true }.
+- "No more than 2 trades a month" → "reentry": { "maxTrades": { "count": 2, "periodDays": 30 } }.
+- Entry signals blocked by these rules are skipped, not queued.
+
+PORTFOLIO (standard mode only; not combined with scaleIn / scaleOut, limit or stop entryOrder, or reentry):
+- "Run RSI < 30 on BTC, ETH and SOL, at most 2 positions" → "portfolio": { "assets": ["BTC", "ETH", "SOL"], "maxOpenPositions": 2, "allocation": "equal_split" }.
+  entry / exit apply to every asset; all assets share one cash balance.
+- "equal_split" sizes each entry at equity / maxOpenPositions. Use "rule_sizing" only if the user gives a per-trade size, which then goes in "sizing".
+- Per-asset rules ("buy ETH on a MACD cross instead") → an "overrides" entry for that asset with its own entry and exit groups.
+- Only the 8 supported assets (BTC, ETH, SOL, BNB, XRP, DOGE, ADA, AVAX); drop others with a warning.
 
 DEFAULTS (when user doesn't specify):
 - RSI period: 14
 - "moving average" without type: SMA
 - MACD: fast=12, slow=26, signal=9
 - Bollinger: period=20, stdDev=2
+- Stochastic: period=14, signalPeriod=3; oversold < 20, overbought > 80
+- ADX: period=14. Parabolic SAR: step=0.02, maxStep=0.2. Supertrend: period=10, multiplier=3
+- Keltner: period=20, multiplier=2 (1.5 when used for a TTM-style squeeze). Donchian: period=20
+- "Squeeze" (Bollinger inside Keltner) → AND of bb_upper lt kc_upper and bb_lower gt kc_lower, same period;
+  "squeeze fires" / "breaks out of the squeeze" → bb_upper crosses_above kc_upper
+- Trailing stop ATR period: 14
 - Position sizing: { "type": "percent_equity", "valuePct": 100 }
 - Entry logic: AND. Exit logic: OR.
 - "buy the dip" with no %: pct_change(7) < -5, add warning.
-- No exit conditions specified (non-DCA): add warning "No exit conditions. Positions held until end."
+- No exit conditions or stop/take-profit/trailing stop specified (non-DCA): add warning "No exit conditions. Positions held until end."
+
+TIMEFRAME: The user message may start with "Timeframe: hourly", "4-hour", "weekly" or "monthly". Indicator periods,
+bars_in_trade and cooldownBars then count bars of that timeframe, not days. Convert day counts the user states
+("50-day MA" on weekly bars → period 10, "20-day high" on 4-hour bars → period 120) and add a warning noting the
+conversion. DCA intervalDays and calendar rebalance intervalDays stay in calendar days on every timeframe
+("buy weekly" on hourly bars → intervalDays 7); never convert them to bars. The timeframe itself is not part of the RuleSet. If the user names a different bar size than the one
+selected (e.g. "on the 1h chart" while daily is selected), keep the rules and add a warning telling them to pick
+that timeframe in the settings. Minute bars are not available: keep the rules and warn that hourly is the shortest timeframe.
+
+MULTI-TIMEFRAME CONDITIONS: Any indicator may carry "timeframe": "4H", "1D", "1W" or "1M" to read it from longer
+bars than the strategy trades; it must be longer than the selected timeframe (never "4H" on daily bars). Its period then counts those bars. Each candle only sees the last fully closed
+longer bar, so a week's value becomes usable on its final day.
+  - "Buy when daily RSI < 30 but only if the weekly trend is up" → entry AND of
+    RSI(14) < 30 and { "type": "price_close", "timeframe": "1W" } gt { "type": "sma", "period": 20, "timeframe": "1W" }
+  - Label these clearly, e.g. "Weekly close > Weekly SMA(20)".
+Only use it when the user names a higher timeframe; omit it otherwise. Never set it on pnl_pct or bars_in_trade.
 
 CONFIDENCE GUIDE:
 - "high" (0.85-1.0): Unambiguous, maps directly to known indicators
@@ -92,12 +243,9 @@ CONFIDENCE GUIDE:
 - "low" (0.0-0.5): Significant ambiguity or not a trading strategy
 
 UNSUPPORTED FEATURES — if the user mentions any of these:
-- Shorting / short-selling → ignore, add warning: "Short selling is not supported. Strategy uses long-only positions."
-- Intraday / hourly / minute timeframes → ignore, add warning: "Only daily timeframe is supported."
-- Trailing stop → approximate as a fixed stop-loss with a warning
-- Multiple simultaneous positions → ignore, add warning: "Only one position at a time is supported."
-- Specific order types (limit, market, stop-limit) → ignore, all orders execute at next open.
-- Portfolio / multiple assets at once → ignore, add warning: "Single-asset backtesting only."
+- Long AND short in the same strategy → keep the side described first, add warning: "Only one side per strategy is supported. Run the opposite side as a separate strategy."
+- Multiple independent simultaneous positions on one asset → ignore, add warning: "Only one position per asset is supported. Use scaleIn to add to it."
+- Leverage / margin ("3x long") → not part of the rule set; parse the rest and add warning: "Set leverage in the backtest settings."
 In ALL cases: output the BEST-EFFORT strategy within MVP constraints, and list every dropped/approximated feature in metadata.warnings. Never refuse to output a RuleSet — always try.
 
 If the input is NOT a trading strategy: return confidenceScore: 0, parserConfidence: "low",
@@ -116,7 +264,11 @@ OUTPUT:
 
 USER: "Buy when MACD crosses above signal line and RSI is below 50. Sell at 15% profit or 8% loss."
 OUTPUT:
-{"id":"vt_macd_rsi","name":"MACD + RSI Confirmation with TP/SL","description":"Enter on MACD bullish crossover confirmed by RSI below 50, exit at TP or SL","mode":{"type":"standard"},"entry":{"op":"AND","conditions":[{"id":"entry_1","label":"MACD crosses above signal","scope":"candle","left":{"kind":"indicator","indicator":{"type":"macd_line","fastPeriod":12,"slowPeriod":26,"signalPeriod":9}},"op":"crosses_above","right":{"kind":"indicator","indicator":{"type":"macd_signal","fastPeriod":12,"slowPeriod":26,"signalPeriod":9}}},{"id":"entry_2","label":"RSI(14) < 50","scope":"candle","left":{"kind":"indicator","indicator":{"type":"rsi","period":14}},"op":"lt","right":{"kind":"number","value":50}}]},"exit":{"op":"OR","conditions":[{"id":"exit_1","label":"Take profit at 15%","scope":"position","left":{"kind":"indicator","indicator":{"type":"pnl_pct"}},"op":"gte","right":{"kind":"number","value":15}},{"id":"exit_2","label":"Stop loss at 8%","scope":"position","left":{"kind":"indicator","indicator":{"type":"pnl_pct"}},"op":"lte","right":{"kind":"number","value":-8}}]},"sizing":{"type":"percent_equity","valuePct":100},"metadata":{"originalPrompt":"Buy when MACD crosses above signal line and RSI is below 50. Sell at 15% profit or 8% loss.","parserConfidence":"high","confidenceScore":0.92,"warnings":[]}}`;
+{"id":"vt_macd_rsi","name":"MACD + RSI Confirmation with TP/SL","description":"Enter on MACD bullish crossover confirmed by RSI below 50, exit at TP or SL","mode":{"type":"standard"},"entry":{"op":"AND","conditions":[{"id":"entry_1","label":"MACD crosses above signal","scope":"candle","left":{"kind":"indicator","indicator":{"type":"macd_line","fastPeriod":12,"slowPeriod":26,"signalPeriod":9}},"op":"crosses_above","right":{"kind":"indicator","indicator":{"type":"macd_signal","fastPeriod":12,"slowPeriod":26,"signalPeriod":9}}},{"id":"entry_2","label":"RSI(14) < 50","scope":"candle","left":{"kind":"indicator","indicator":{"type":"rsi","period":14}},"op":"lt","right":{"kind":"number","value":50}}]},"exit":{"op":"OR","conditions":[],"stopLossPct":8,"takeProfitPct":15},"sizing":{"type":"percent_equity","valuePct":100},"metadata":{"originalPrompt":"Buy when MACD crosses above signal line and RSI is below 50. Sell at 15% profit or 8% loss.","parserConfidence":"high","confidenceScore":0.92,"warnings":[]}}
+
+USER: "Buy when RSI is under 30 and price is above the 200 SMA, or when MACD crosses above its signal. Sell when RSI is over 70."
+OUTPUT:
+{"id":"vt_rsi_trend_or_macd","name":"Oversold in Uptrend or MACD Cross","description":"Buy oversold dips above the 200-day SMA, or any bullish MACD crossover; sell when RSI is overbought","mode":{"type":"standard"},"entry":{"op":"OR","conditions":[{"op":"AND","conditions":[{"id":"entry_1","label":"RSI(14) < 30","scope":"candle","left":{"kind":"indicator","indicator":{"type":"rsi","period":14}},"op":"lt","right":{"kind":"number","value":30}},{"id":"entry_2","label":"Close > SMA(200)","scope":"candle","left":{"kind":"indicator","indicator":{"type":"price_close"}},"op":"gt","right":{"kind":"indicator","indicator":{"type":"sma","period":200}}}]},{"id":"entry_3","label":"MACD crosses above signal","scope":"candle","left":{"kind":"indicator","indicator":{"type":"macd_line","fastPeriod":12,"slowPeriod":26,"signalPeriod":9}},"op":"crosses_above","right":{"kind":"indicator","indicator":{"type":"macd_signal","fastPeriod":12,"slowPeriod":26,"signalPeriod":9}}}]},"exit":{"op":"OR","conditions":[{"id":"exit_1","label":"RSI(14) > 70","scope":"candle","left":{"kind":"indicator","indicator":{"type":"rsi","period":14}},"op":"gt","right":{"kind":"number","value":70}}]},"sizing":{"type":"percent_equity","valuePct":100},"metadata":{"originalPrompt":"Buy when RSI is under 30 and price is above the 200 SMA, or when MACD crosses above its signal. Sell when RSI is over 70.","parserConfidence":"high","confidenceScore":0.9,"warnings":[]}}`;
 
 export interface ParseResult {
   success: true;
@@ -139,7 +291,10 @@ function stripFences(text: string): string {
   return s.trim();
 }
 
-export async function parseStrategy(prompt: string): Promise<ParseResponse> {
+export async function parseStrategy(
+  prompt: string,
+  timeframe: Timeframe = '1D',
+): Promise<ParseResponse> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     return {
@@ -153,9 +308,10 @@ export async function parseStrategy(prompt: string): Promise<ParseResponse> {
 
   for (let attempt = 0; attempt < 2; attempt++) {
     try {
+      const request = timeframe === '1D' ? prompt : `Timeframe: ${BAR_NAMES[timeframe]}\n\n${prompt}`;
       const userMessage = attempt === 0
-        ? prompt
-        : `Your previous response was not valid JSON. Please try again. Convert this trading strategy to the RuleSet JSON format: ${prompt}`;
+        ? request
+        : `Your previous response was not valid JSON. Please try again. Convert this trading strategy to the RuleSet JSON format: ${request}`;
 
       const response = await client.messages.create({
         model: 'claude-sonnet-4-20250514',
@@ -191,7 +347,7 @@ export async function parseStrategy(prompt: string): Promise<ParseResponse> {
 
       const ruleSet = zodResult.data;
 
-      const invariants = validateRuleSetInvariants(ruleSet);
+      const invariants = validateRuleSetInvariants(ruleSet, timeframe);
       if (!invariants.valid) {
         return {
           success: false,
@@ -0,0 +1,56 @@
+/**
+ * Candle timestamps are "YYYY-MM-DD" for daily and longer bars and UTC ISO
+ * strings ("YYYY-MM-DDTHH:mm:ssZ") for intraday bars. Both sort correctly as
+ * strings; these helpers cover everything that needs more than ordering.
+ */
+
+const MS_PER_DAY = 86_400_000;
+
+/** True for intraday timestamps that carry a time of day. */
+export function isIntradayTimestamp(t: string): boolean {
+  return t.length > 10;
+}
+
+/** Calendar date ("YYYY-MM-DD") a timestamp falls on, in UTC. */
+export function candleDate(t: string): string {
+  return t.slice(0, 10);
+}
+
+/** True when the timestamp falls on a calendar day from start to end, inclusive. */
+export function inDateRange(t: string, startDate: string, endDate: string): boolean {
+  const date = candleDate(t);
+  return date >= startDate && date <= endDate;
+}
+
+/** UTC epoch milliseconds; date-only timestamps are UTC midnight. */
+export function parseTimestamp(t: string): number {
+  return Date.parse(isIntradayTimestamp(t) ? t : t + 'T00:00:00Z');
+}
+
+/** Timestamp string for a UTC instant, in the intraday "YYYY-MM-DDTHH:mm:ssZ" form. */
+export function formatTimestamp(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19) + 'Z';
+}
+
+/** Calendar days between two timestamps, fractional for intraday bars. */
+export function daysBetween(a: string, b: string): number {
+  return Math.abs(parseTimestamp(b) - parseTimestamp(a)) / MS_PER_DAY;
+}
+
+/**
+ * Date for display in the viewer's time zone. Date-only timestamps become
+ * local midnight so the calendar day shown never shifts.
+ */
+export function toDisplayDate(t: string): Date {
+  return new Date(isIntradayTimestamp(t) ? t : t + 'T00:00:00');
+}
+
+/** lightweight-charts time: business-day strings for daily bars, UTC seconds for intraday. */
+export function toChartTime(t: string): string | number {
+  return isIntradayTimestamp(t) ? Math.floor(parseTimestamp(t) / 1000) : t;
+}
+
+/** Compact label: the date for daily bars, "YYYY-MM-DD HH:mm" (UTC) for intraday. */
+export function formatCandleTime(t: string): string {
+  return isIntradayTimestamp(t) ? `${t.slice(0, 10)} ${t.slice(11, 16)}` : t;
+}
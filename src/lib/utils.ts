@@ -29,3 +29,9 @@ export function formatNumber(value: number, decimals: number = 0): string {
     maximumFractionDigits: decimals,
   }).format(value);
 }
+
+/** Human-readable holding duration from a (possibly fractional) day count. */
+export function formatDuration(days: number): string {
+  if (days >= 1 || days === 0) return `${Number(days.toFixed(1))}d`;
+  return `${Math.round(days * 24)}h`;
+}
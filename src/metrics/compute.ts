@@ -1,22 +1,53 @@
-import type { Trade, EquityPoint, PerformanceMetrics, AuditInfo } from '@/types/results';
+import type { Trade, EquityPoint, PerformanceMetrics, AuditInfo, FillModel } from '@/types/results';
+import type { EntryOrder, PositionSide, PositionSizing, Timeframe } from '@/types/strategy';
+import { DEFAULT_FILL_MODEL, fillPriceLabel } from '@/engine/fills';
+import { daysBetween } from '@/lib/time';
+
+/** Length of one bar of each timeframe, in calendar days */
+const BAR_DAYS: Record<Timeframe, number> = {
+  '1H': 1 / 24,
+  '4H': 1 / 6,
+  '1D': 1,
+  '1W': 7,
+  '1M': 365 / 12,
+};
+
+/** Calendar days covered by one bar of the timeframe. */
+export function barLengthDays(timeframe: Timeframe = '1D'): number {
+  return BAR_DAYS[timeframe];
+}
+
+/** Bars per year, used to annualize per-bar return statistics. */
+export function periodsPerYear(timeframe: Timeframe = '1D'): number {
+  return 365 / BAR_DAYS[timeframe];
+}
 
 /**
- * Compute all 14 performance metrics from trades and an equity curve.
+ * Compute performance metrics from trades and an equity curve.
  *
  * Conventions
  * -----------
  * - Risk-free rate = 0
- * - Annualization factor = 365 (crypto markets trade every day)
+ * - Annualization factor = bars per year: 365 daily, 365/7 weekly, 12 monthly
+ *   (crypto markets trade every day)
  * - Population standard deviation (divide by N, not N-1)
  * - Breakeven trades (pnlPct === 0) count as wins for winRate / avgWinPct
- * - If there are 0 or 1 equity points, daily-return-based metrics (sharpe, sortino) = 0
+ * - If there are 0 or 1 equity points, per-bar-return-based metrics (sharpe, sortino) = 0
+ * - Exposure compares days held with the days spanned by totalCandles bars
+ * - Partial fills of one position (shared positionId) count as a single round trip
+ * - grossExposure[i] is the open notional at equityCurve[i]; without it
+ *   maxEffectiveLeverage = 0
  */
 export function computeMetrics(
   trades: Trade[],
   equityCurve: EquityPoint[],
   initialCapital: number,
   totalCandles: number,
+  grossExposure: number[] = [],
+  timeframe: Timeframe = '1D',
 ): PerformanceMetrics {
+  const annualization = periodsPerYear(timeframe);
+
   // ---- Total return ----
   const finalEquity =
     equityCurve.length > 0
@@ -32,22 +63,22 @@ export function computeMetrics(
       (Math.pow(finalEquity / initialCapital, 365 / totalDays) - 1) * 100;
   }
 
-  // ---- Daily returns from equity curve ----
-  const dailyReturns: number[] = [];
+  // ---- Per-bar returns from equity curve ----
+  const barReturns: number[] = [];
   for (let i = 1; i < equityCurve.length; i++) {
     const prev = equityCurve[i - 1].equity;
     if (prev !== 0) {
-      dailyReturns.push((equityCurve[i].equity - prev) / prev);
+      barReturns.push((equityCurve[i].equity - prev) / prev);
     } else {
-      dailyReturns.push(0);
+      barReturns.push(0);
     }
   }
 
   // ---- Sharpe ratio (annualized, rf=0, population stdev) ----
-  const sharpeRatio = computeSharpe(dailyReturns);
+  const sharpeRatio = computeSharpe(barReturns, annualization);
 
   // ---- Sortino ratio (annualized, rf=0, downside deviation) ----
-  const sortinoRatio = computeSortino(dailyReturns);
+  const sortinoRatio = computeSortino(barReturns, annualization);
 
   // ---- Max drawdown ----
   let maxDrawdown = 0;
@@ -61,10 +92,11 @@ export function computeMetrics(
   const maxDrawdownDurationDays = computeMaxDrawdownDuration(equityCurve);
 
   // ---- Trade-level metrics ----
-  const wins = trades.filter((t) => t.pnlPct >= 0);
-  const losses = trades.filter((t) => t.pnlPct < 0);
+  const roundTrips = groupRoundTrips(trades);
+  const wins = roundTrips.filter(isWin);
+  const losses = roundTrips.filter((t) => !isWin(t));
 
-  const winRate = trades.length > 0 ? (wins.length / trades.length) * 100 : 0;
+  const winRate = roundTrips.length > 0 ? (wins.length / roundTrips.length) * 100 : 0;
 
   const grossProfit = wins.reduce((sum, t) => sum + t.pnlAbs, 0);
   const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnlAbs, 0));
@@ -78,7 +110,7 @@ export function computeMetrics(
     profitFactor = grossProfit / grossLoss;
   }
 
-  const totalTrades = trades.length;
+  const totalTrades = roundTrips.length;
 
   const avgWinPct =
     wins.length > 0 ? wins.reduce((s, t) => s + t.pnlPct, 0) / wins.length : 0;
@@ -89,20 +121,32 @@ export function computeMetrics(
       : 0;
 
   const bestTradePct =
-    trades.length > 0 ? Math.max(...trades.map((t) => t.pnlPct)) : 0;
+    roundTrips.length > 0 ? Math.max(...roundTrips.map((t) => t.pnlPct)) : 0;
 
   const worstTradePct =
-    trades.length > 0 ? Math.min(...trades.map((t) => t.pnlPct)) : 0;
+    roundTrips.length > 0 ? Math.min(...roundTrips.map((t) => t.pnlPct)) : 0;
 
   const avgHoldingDays =
-    trades.length > 0
-      ? trades.reduce((s, t) => s + t.holdingDays, 0) / trades.length
+    roundTrips.length > 0
+      ? roundTrips.reduce((s, t) => s + t.holdingDays, 0) / roundTrips.length
       : 0;
 
   // ---- Exposure time ----
-  const totalHoldingDays = trades.reduce((s, t) => s + t.holdingDays, 0);
+  const totalHoldingDays = roundTrips.reduce((s, t) => s + t.holdingDays, 0);
+  const totalRangeDays = totalCandles * BAR_DAYS[timeframe];
   const exposureTimePct =
-    totalCandles > 0 ? (totalHoldingDays / totalCandles) * 100 : 0;
+    totalRangeDays > 0 ? (totalHoldingDays / totalRangeDays) * 100 : 0;
+
+  // ---- Leverage ----
+  // A liquidation closes the whole position, so count fills rather than round trips
+  const liquidations = trades.filter((t) => t.exitReason === 'Liquidated').length;
+  let maxEffectiveLeverage = 0;
+  for (let i = 0; i < grossExposure.length && i < equityCurve.length; i++) {
+    const equity = equityCurve[i].equity;
+    if (equity > 0) {
+      maxEffectiveLeverage = Math.max(maxEffectiveLeverage, grossExposure[i] / equity);
+    }
+  }
 
   return {
     totalReturn,
@@ -120,6 +164,8 @@ export function computeMetrics(
     worstTradePct,
     avgHoldingDays,
     exposureTimePct,
+    liquidations,
+    maxEffectiveLeverage,
   };
 }
 
@@ -127,17 +173,55 @@ export function computeMetrics(
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Sharpe ratio: mean(dailyReturns) / stdev(dailyReturns) * sqrt(365), rf=0.
+/** A round trip counts as a win unless it lost money; breakeven is a win. */
+export function isWin(trade: Trade): boolean {
+  return trade.pnlPct >= 0;
+}
+
+/** Combine fills that closed out of the same position into one round trip.
+ *  P&L is summed and pnlPct recomputed on the combined cost basis; the holding
+ *  period runs from the first entry to the last fill. Trades without a
+ *  positionId are already round trips and pass through unchanged.
+ */
+export function groupRoundTrips(trades: Trade[]): Trade[] {
+  const result: Trade[] = [];
+  const byPosition = new Map<number, Trade>();
+
+  for (const t of trades) {
+    if (t.positionId === undefined) {
+      result.push(t);
+      continue;
+    }
+    const existing = byPosition.get(t.positionId);
+    if (!existing) {
+      const copy = { ...t };
+      byPosition.set(t.positionId, copy);
+      result.push(copy);
+      continue;
+    }
+    existing.pnlAbs += t.pnlAbs;
+    existing.positionSize += t.positionSize;
+    existing.pnlPct = (existing.pnlAbs / existing.positionSize) * 100;
+    existing.holdingDays = Math.max(existing.holdingDays, t.holdingDays);
+    existing.exitDate = t.exitDate;
+    existing.exitPrice = t.exitPrice;
+    existing.exitReason = t.exitReason;
+  }
+
+  return result;
+}
+
+/** Sharpe ratio: mean(barReturns) / stdev(barReturns) * sqrt(annualization), rf=0.
  *  Population standard deviation. If stdev is effectively 0 or not enough data, returns 0.
  *  We use a relative epsilon to guard against floating-point noise in constant-return series.
  */
-function computeSharpe(dailyReturns: number[]): number {
-  if (dailyReturns.length < 2) return 0;
+function computeSharpe(barReturns: number[], annualization: number): number {
+  if (barReturns.length < 2) return 0;
 
-  const mean = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
+  const mean = barReturns.reduce((a, b) => a + b, 0) / barReturns.length;
   const variance =
-    dailyReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
-    dailyReturns.length;
+    barReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
+    barReturns.length;
   const stdev = Math.sqrt(variance);
 
   // Treat stdev as zero when it is negligible relative to the mean
@@ -146,32 +230,32 @@ function computeSharpe(dailyReturns: number[]): number {
     return 0;
   }
 
-  return (mean / stdev) * Math.sqrt(365);
+  return (mean / stdev) * Math.sqrt(annualization);
 }
 
-/** Sortino ratio: mean(dailyReturns) / downsideDev * sqrt(365), rf=0.
+/** Sortino ratio: mean(barReturns) / downsideDev * sqrt(annualization), rf=0.
  *  Downside deviation uses only negative returns, population denominator.
  *  If no negative returns and mean >= 0, returns Infinity.
  *  If not enough data, returns 0.
  */
-function computeSortino(dailyReturns: number[]): number {
-  if (dailyReturns.length < 2) return 0;
+function computeSortino(barReturns: number[], annualization: number): number {
+  if (barReturns.length < 2) return 0;
 
-  const mean = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
+  const mean = barReturns.reduce((a, b) => a + b, 0) / barReturns.length;
 
-  const negativeReturns = dailyReturns.filter((r) => r < 0);
+  const negativeReturns = barReturns.filter((r) => r < 0);
 
   if (negativeReturns.length === 0) {
     return mean >= 0 ? Infinity : 0;
   }
 
   const downsideVariance =
-    negativeReturns.reduce((sum, r) => sum + r ** 2, 0) / dailyReturns.length;
+    negativeReturns.reduce((sum, r) => sum + r ** 2, 0) / barReturns.length;
   const downsideDev = Math.sqrt(downsideVariance);
 
   if (downsideDev === 0) return mean >= 0 ? Infinity : 0;
 
-  return (mean / downsideDev) * Math.sqrt(365);
+  return (mean / downsideDev) * Math.sqrt(annualization);
 }
 
 /** Max drawdown duration in calendar days.
@@ -220,18 +304,58 @@ function computeMaxDrawdownDuration(equityCurve: EquityPoint[]): number {
   return maxDurationDays;
 }
 
-/** Calendar days between two YYYY-MM-DD date strings. */
-function daysBetween(a: string, b: string): number {
-  const msPerDay = 86_400_000;
-  const da = new Date(a + 'T00:00:00Z');
-  const db = new Date(b + 'T00:00:00Z');
-  return Math.round(Math.abs(db.getTime() - da.getTime()) / msPerDay);
-}
-
 // ---------------------------------------------------------------------------
 // Audit builder
 // ---------------------------------------------------------------------------
 
+/** Plain-language statement of how each entry is sized. */
+function describeSizing(sizing: PositionSizing): string {
+  switch (sizing.type) {
+    case 'percent_equity':
+      return `${sizing.valuePct}% of equity per entry`;
+    case 'fixed_amount':
+      return `$${sizing.valueUsd.toLocaleString()} per entry, capped at available cash`;
+    case 'risk_percent':
+      return `Risk ${sizing.riskPct}% of equity to the nearest stop: notional = equity × ${sizing.riskPct}% ÷ stop distance at the signal close, margin = notional ÷ leverage, capped at cash`;
+    case 'atr_volatility': {
+      const period = sizing.period ?? 14;
+      return `Volatility-targeted: a 1 × ATR(${period}) move = ${sizing.riskPct}% of equity, i.e. notional = equity × ${sizing.riskPct}% × close ÷ ATR(${period}), margin = notional ÷ leverage, capped at cash`;
+    }
+    case 'kelly_fraction': {
+      const lookback = sizing.lookbackTrades ?? 20;
+      return `${sizing.fraction} × Kelly (W − (1 − W) ÷ avg win/loss) over the last ${lookback} round trips, ` +
+        `clamped to 0–100% of equity; ${sizing.fallbackPct ?? 10}% of equity until ${lookback} trades have closed`;
+    }
+  }
+}
+
+/** Where a market order on the close[i] signal fills. */
+function describeFill(model: FillModel): string {
+  switch (model) {
+    case 'next_open':
+      return 'open[i+1]';
+    case 'same_close':
+      return 'close[i]';
+    case 'next_close':
+      return 'close[i+1]';
+    case 'ohlc_avg':
+      return '(O+H+L+C)/4 of candle i+1';
+  }
+}
+
+/** Execution model for entries placed as resting limit / stop orders. */
+function describeEntryOrder(
+  order: Exclude<EntryOrder, { type: 'market' }>,
+  fillModel: FillModel,
+  side?: PositionSide,
+): string {
+  const tif = order.timeInForceBars ?? 1;
+  const below = (order.type === 'limit') === (side !== 'short');
+  const level = `${order.offsetPct}% ${below ? 'below' : 'above'} close[i]`;
+  return `Signal on close[i], ${order.type} entry ${level} good for ${tif} bar${tif === 1 ? '' : 's'} ` +
+    `and filled against their high/low; exits execute at ${describeFill(fillModel)}`;
+}
+
 /** Build audit information object for the backtest result. */
 export function buildAuditInfo(params: {
   feeBps: number;
@@ -241,18 +365,40 @@ export function buildAuditInfo(params: {
   endDate: string;
   totalCandles: number;
   tradableCandles: number;
+  side?: PositionSide;
+  maxLots?: number;
+  partialExits?: boolean;
+  sizing?: PositionSizing;
+  leverage?: number;
+  entryOrder?: EntryOrder;
+  fillModel?: FillModel;
+  timeframe?: Timeframe;
 }): AuditInfo {
+  const fillModel = params.fillModel ?? DEFAULT_FILL_MODEL;
+  const sideModel = params.side === 'short' ? 'Short-only' : 'Long-only';
+  const lotModel = params.maxLots !== undefined
+    ? `single position, up to ${params.maxLots} lots (one added each time the scale-in trigger turns true)`
+    : 'single position, no pyramiding';
+  const exitModel = params.partialExits ? ', partial exits' : '';
+  const leverageModel = params.leverage !== undefined && params.leverage > 1
+    ? `, ${params.leverage}x leverage`
+    : '';
+
   return {
-    executionModel: 'Signal on close[i], execute at open[i+1]',
+    timeframe: params.timeframe ?? '1D',
+    executionModel: params.entryOrder && params.entryOrder.type !== 'market'
+      ? describeEntryOrder(params.entryOrder, fillModel, params.side)
+      : `Signal on close[i], execute at ${describeFill(fillModel)}`,
     feeBps: params.feeBps,
     slippageBps: params.slippageBps,
     warmupCandles: params.warmupCandles,
     dataRange: `${params.startDate} to ${params.endDate}`,
     totalCandles: params.totalCandles,
     tradableCandles: params.tradableCandles,
-    annualizationFactor: 365,
+    annualizationFactor: periodsPerYear(params.timeframe),
     riskFreeRate: 0,
-    benchmarkModel: 'Buy & Hold: entered at first tradable candle open, same fees',
-    positionModel: 'Long-only, single position, no pyramiding',
+    benchmarkModel: `Buy & Hold: entered at first tradable candle ${fillPriceLabel(fillModel)}, same fees`,
+    positionModel: `${sideModel}, ${lotModel}${exitModel}${leverageModel}`,
+    ...(params.sizing && { sizingModel: describeSizing(params.sizing) }),
   };
 }
@@ -1,10 +1,10 @@
 import { z } from 'zod';
-import { AssetSymbolSchema, StrategyRuleSetSchema } from './strategy';
-import type { AssetSymbol, StrategyRuleSet } from './strategy';
+import { AssetSymbolSchema, StrategyRuleSetSchema, TimeframeSchema } from './strategy';
+import type { AssetSymbol, EntryOrder, PositionSide, StrategyRuleSet, Timeframe } from './strategy';
 
 /** OHLCV candle data */
 export interface Candle {
-  t: string;  // date "YYYY-MM-DD"
+  t: string;  // date "YYYY-MM-DD", or UTC "YYYY-MM-DDTHH:mm:ssZ" for intraday bars
   o: number;  // open
   h: number;  // high
   l: number;  // low
@@ -12,15 +12,53 @@ export interface Candle {
   v: number;  // volume
 }
 
+/** One day's funding rate, stored as public/data/{ASSET}_FUNDING.json */
+export const FundingPointSchema = z.object({
+  t: z.string(),   // date "YYYY-MM-DD"
+  bps: z.number(), // daily funding in bps of notional; positive = longs pay shorts
+});
+export type FundingPoint = z.infer<typeof FundingPointSchema>;
+
+/**
+ * Daily carry on open positions. A fixed rate is a holding cost paid by either
+ * side; funding series, one per asset, follow perp convention, so shorts
+ * receive what longs pay.
+ */
+export const CarryCostSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('fixed'), bpsPerDay: z.number().nonnegative() }),
+  z.object({
+    type: z.literal('series'),
+    rates: z.partialRecord(AssetSymbolSchema, z.array(FundingPointSchema)),
+  }),
+]);
+export type CarryCost = z.infer<typeof CarryCostSchema>;
+
+/**
+ * When and at what price market orders fill relative to the signal candle i:
+ * open[i+1], close[i], close[i+1], or the (O+H+L+C)/4 of candle i+1 as a VWAP proxy.
+ */
+export const FillModelSchema = z.enum(['next_open', 'same_close', 'next_close', 'ohlc_avg']);
+export type FillModel = z.infer<typeof FillModelSchema>;
+
 /** Backtest configuration */
 export const BacktestConfigSchema = z.object({
   asset: AssetSymbolSchema,
-  timeframe: z.literal('1D'),
+  timeframe: TimeframeSchema,
   startDate: z.string(),
   endDate: z.string(),
   initialCapital: z.number().positive().default(10000),
   feeBps: z.number().nonnegative().default(10),
   slippageBps: z.number().nonnegative().default(5),
+  /** Market order fill timing (default next_open); DCA and rebalance runs fill at the scheduled close */
+  fillModel: FillModelSchema.optional(),
+  /** Notional per dollar of margin on each entry; 1 = unlevered. Standard and portfolio runs only. */
+  leverage: z.number().min(1).max(125).optional(),
+  /** Equity as % of notional below which a levered position is liquidated (default 0.5) */
+  maintenanceMarginPct: z.number().positive().max(50).optional(),
+  /** Interest on the borrowed part of a levered position, in bps per day held (default 3) */
+  borrowCostBpsPerDay: z.number().nonnegative().optional(),
+  /** Funding / holding cost on open notional per day held; standard and portfolio runs only */
+  carryCost: CarryCostSchema.optional(),
   rules: StrategyRuleSetSchema,
 });
 export type BacktestConfig = z.infer<typeof BacktestConfigSchema>;
@@ -28,17 +66,29 @@ export type BacktestConfig = z.infer<typeof BacktestConfigSchema>;
 /** A completed trade */
 export interface Trade {
   id: number;
+  positionId?: number; // fills closed out of the same position share this (partial exits)
+  asset?: AssetSymbol;  // set by portfolio backtests
+  side: PositionSide;
   entryDate: string;
   entryPrice: number;
   exitDate: string;
   exitPrice: number;
   pnlAbs: number;
   pnlPct: number;
-  holdingDays: number;
+  holdingDays: number; // calendar days held, fractional for intraday bars
   exitReason: string;
   positionSize: number;
 }
 
+/** A limit or stop entry order that expired without filling */
+export interface UnfilledOrder {
+  type: Exclude<EntryOrder['type'], 'market'>;
+  side: PositionSide;
+  signalDate: string;
+  price: number;        // order level set from the signal close
+  expiredDate: string;  // last candle the order rested through
+}
+
 /** Equity value at a point in time */
 export interface EquityPoint {
   date: string;
@@ -48,7 +98,7 @@ export interface EquityPoint {
   benchmarkDrawdownPct: number;
 }
 
-/** All 14 performance metrics */
+/** Performance metrics */
 export interface PerformanceMetrics {
   totalReturn: number;
   annualizedReturn: number;
@@ -65,6 +115,8 @@ export interface PerformanceMetrics {
   worstTradePct: number;
   avgHoldingDays: number;
   exposureTimePct: number;
+  liquidations: number;
+  maxEffectiveLeverage: number; // peak gross notional ÷ equity at a candle close
 }
 
 /** Benchmark (buy-and-hold) result */
@@ -77,6 +129,8 @@ export interface BenchmarkResult {
 /** Audit information for transparency */
 export interface AuditInfo {
   executionModel: string;
+  /** Bar size the run was simulated on; warmup and tradable counts are in these bars */
+  timeframe?: Timeframe;
   feeBps: number;
   slippageBps: number;
   warmupCandles: number;
@@ -87,7 +141,34 @@ export interface AuditInfo {
   riskFreeRate: number;
   benchmarkModel: string;
   positionModel: string;
+  /** How entries are sized; absent for DCA and rebalance runs */
+  sizingModel?: string;
   dcaBudgetExhaustedDate?: string;
+  /** Rebalance mode: number of rebalances, including the initial allocation */
+  rebalanceCount?: number;
+  /** Rebalance mode: total traded notional as a % of average equity */
+  turnoverPct?: number;
+  /** Levered runs: margin, borrow cost and liquidation assumptions */
+  leverageModel?: string;
+  /** Levered runs: total interest paid on borrowed notional */
+  borrowCostTotal?: number;
+  /** Runs with a carry cost: rate source and net funding paid (negative = received) */
+  funding?: string;
+  /** Limit / stop entries: orders placed, filled and expired */
+  entryOrders?: string;
+  /** Runs with re-entry rules: the cooldown and trade cap applied */
+  reentryModel?: string;
+  /** Runs with re-entry rules: entry signals suppressed by each rule */
+  skippedSignals?: { cooldown: number; tradeCap: number };
+}
+
+/** Per-asset contribution to a portfolio backtest */
+export interface AssetBreakdown {
+  asset: AssetSymbol;
+  totalTrades: number;
+  winRate: number;
+  pnlAbs: number;
+  contributionPct: number; // pnlAbs as % of initial capital
 }
 
 /** Complete backtest result */
@@ -99,6 +180,8 @@ export interface BacktestResult {
   benchmark: BenchmarkResult;
   indicatorData: Record<string, (number | null)[]>;
   audit: AuditInfo;
+  assetBreakdown?: AssetBreakdown[];
+  unfilledOrders?: UnfilledOrder[];
 }
 
 /** Application phase */
@@ -144,6 +227,11 @@ export interface AppState {
     initialCapital: number;
     feeBps: number;
     slippageBps: number;
+    timeframe?: Timeframe;
+    leverage?: number;
+    carryBpsPerDay?: number;
+    carrySource?: 'fixed' | 'funding'; // 'funding' charges each asset's perp funding history
+    fillModel?: FillModel;
   };
   currentPrompt: string;
   currentRules: StrategyRuleSet | null;
@@ -5,7 +5,7 @@ export const AssetSymbolSchema = z.enum([
 ]);
 export type AssetSymbol = z.infer<typeof AssetSymbolSchema>;
 
-export const TimeframeSchema = z.literal('1D');
+export const TimeframeSchema = z.enum(['1H', '4H', '1D', '1W', '1M']);
 export type Timeframe = z.infer<typeof TimeframeSchema>;
 
 export const ComparisonOpSchema = z.enum([
@@ -13,18 +13,27 @@ export const ComparisonOpSchema = z.enum([
 ]);
 export type ComparisonOp = z.infer<typeof ComparisonOpSchema>;
 
-export const LogicOpSchema = z.enum(['AND', 'OR']);
+export const LogicOpSchema = z.enum(['AND', 'OR', 'NOT']);
 export type LogicOp = z.infer<typeof LogicOpSchema>;
 
+export const PositionSideSchema = z.enum(['long', 'short']);
+export type PositionSide = z.infer<typeof PositionSideSchema>;
+
 export const ScopeSchema = z.enum(['candle', 'position']);
 export type Scope = z.infer<typeof ScopeSchema>;
 
 export const IndicatorTypeSchema = z.enum([
   'price_close', 'price_open', 'price_high', 'price_low',
-  'sma', 'ema', 'rsi',
+  'sma', 'ema', 'wma', 'hma', 'dema', 'tema', 'kama', 'rsi',
   'macd_line', 'macd_signal', 'macd_hist',
   'bb_upper', 'bb_middle', 'bb_lower',
+  'kc_upper', 'kc_middle', 'kc_lower',
+  'dc_upper', 'dc_middle', 'dc_lower',
   'atr', 'pct_change', 'volume',
+  'highest', 'lowest',
+  'stoch_k', 'stoch_d', 'williams_r', 'cci', 'mfi',
+  'adx', 'plus_di', 'minus_di', 'psar', 'supertrend',
+  'obv', 'volume_sma', 'vwap', 'rel_volume',
   'pnl_pct', 'bars_in_trade',
 ]);
 export type IndicatorType = z.infer<typeof IndicatorTypeSchema>;
@@ -36,15 +45,68 @@ export const IndicatorSpecSchema = z.object({
   slowPeriod: z.number().int().positive().optional(),
   signalPeriod: z.number().int().positive().optional(),
   stdDev: z.number().positive().optional(),
+  /** ATR multiple for Supertrend and Keltner bands */
+  multiplier: z.number().positive().optional(),
+  /** Parabolic SAR acceleration step and its cap */
+  step: z.number().positive().max(1).optional(),
+  maxStep: z.number().positive().max(1).optional(),
   source: z.enum(['close', 'open', 'high', 'low']).optional(),
+  /** Compute on higher-timeframe bars, read on the backtest bars once each bar has closed */
+  timeframe: TimeframeSchema.optional(),
 });
 export type IndicatorSpec = z.infer<typeof IndicatorSpecSchema>;
 
-export const OperandSchema = z.discriminatedUnion('kind', [
-  z.object({ kind: z.literal('indicator'), indicator: IndicatorSpecSchema }),
+export const ArithmeticOpSchema = z.enum(['add', 'sub', 'mul', 'div']);
+export type ArithmeticOp = z.infer<typeof ArithmeticOpSchema>;
+
+/** An indicator, a constant, or arithmetic over two operands ("SMA(50) × 1.05") */
+export type Operand =
+  | { kind: 'indicator'; indicator: IndicatorSpec; offset?: number }
+  | { kind: 'number'; value: number }
+  | { kind: 'expression'; op: ArithmeticOp; left: Operand; right: Operand };
+
+export const OperandSchema: z.ZodType<Operand> = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('indicator'),
+    indicator: IndicatorSpecSchema,
+    /** Read the value this many bars ago (0 = the signal bar); never negative */
+    offset: z.number().int().nonnegative().max(500).optional(),
+  }),
   z.object({ kind: z.literal('number'), value: z.number() }),
+  z.object({
+    kind: z.literal('expression'),
+    op: ArithmeticOpSchema,
+    get left() {
+      return OperandSchema;
+    },
+    get right() {
+      return OperandSchema;
+    },
+  }),
+]);
+
+export type IndicatorOperand = Extract<Operand, { kind: 'indicator' }>;
+
+/** Every indicator operand inside an operand, including those inside expressions. */
+export function indicatorOperands(operand: Operand): IndicatorOperand[] {
+  if (operand.kind === 'indicator') return [operand];
+  if (operand.kind === 'expression') {
+    return [...indicatorOperands(operand.left), ...indicatorOperands(operand.right)];
+  }
+  return [];
+}
+
+/** Every indicator an operand reads, including those inside expressions. */
+export function operandIndicators(operand: Operand): IndicatorSpec[] {
+  return indicatorOperands(operand).map((o) => o.indicator);
+}
+
+/** Hold a comparison on each of the last N bars, or on at least one of them */
+export const PersistenceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('consecutive'), bars: z.number().int().min(1).max(500) }),
+  z.object({ type: z.literal('within'), bars: z.number().int().min(1).max(500) }),
 ]);
-export type Operand = z.infer<typeof OperandSchema>;
+export type Persistence = z.infer<typeof PersistenceSchema>;
 
 export const ConditionSchema = z.object({
   id: z.string(),
@@ -53,21 +115,118 @@ export const ConditionSchema = z.object({
   left: OperandSchema,
   op: ComparisonOpSchema,
   right: OperandSchema,
+  persistence: PersistenceSchema.optional(),
 });
 export type Condition = z.infer<typeof ConditionSchema>;
 
+/**
+ * Conditions and nested groups combined by AND / OR. NOT negates its single
+ * child, so "(A AND B) OR NOT C" is { OR: [{ AND: [A, B] }, { NOT: [C] }] }.
+ */
 export const ConditionGroupSchema = z.object({
   op: LogicOpSchema,
-  conditions: z.array(ConditionSchema),
+  get conditions() {
+    return z.array(z.union([ConditionSchema, ConditionGroupSchema]));
+  },
 });
 export type ConditionGroup = z.infer<typeof ConditionGroupSchema>;
+export type ConditionNode = ConditionGroup['conditions'][number];
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return 'conditions' in node;
+}
+
+/** Every leaf condition in a group, depth-first. */
+export function flattenConditions(group: ConditionGroup): Condition[] {
+  return group.conditions.flatMap((node) =>
+    isConditionGroup(node) ? flattenConditions(node) : [node],
+  );
+}
+
+/** The group itself and every group nested inside it. */
+function flattenGroups(group: ConditionGroup): ConditionGroup[] {
+  return [group, ...group.conditions.filter(isConditionGroup).flatMap(flattenGroups)];
+}
+
+export const TrailingStopSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('percent'), valuePct: z.number().positive().max(100) }),
+  z.object({
+    type: z.literal('atr'),
+    multiple: z.number().positive(),
+    period: z.number().int().positive().optional(),
+  }),
+]);
+export type TrailingStop = z.infer<typeof TrailingStopSchema>;
+
+export const ExitGroupSchema = ConditionGroupSchema.extend({
+  stopLossPct: z.number().positive().optional(),
+  takeProfitPct: z.number().positive().optional(),
+  trailingStop: TrailingStopSchema.optional(),
+});
+export type ExitGroup = z.infer<typeof ExitGroupSchema>;
 
 export const PositionSizingSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('percent_equity'), valuePct: z.number().min(1).max(100) }),
   z.object({ type: z.literal('fixed_amount'), valueUsd: z.number().positive() }),
+  /** Size so that hitting the nearest stop loses riskPct of equity */
+  z.object({ type: z.literal('risk_percent'), riskPct: z.number().positive().max(100) }),
+  /** Size so that a one-ATR move is riskPct of equity */
+  z.object({
+    type: z.literal('atr_volatility'),
+    riskPct: z.number().positive().max(100),
+    period: z.number().int().min(1).max(500).optional(),
+  }),
+  /** Fraction of the Kelly bet estimated from the last lookbackTrades round trips */
+  z.object({
+    type: z.literal('kelly_fraction'),
+    fraction: z.number().positive().max(1),
+    lookbackTrades: z.number().int().min(2).max(500).optional(),
+    fallbackPct: z.number().min(1).max(100).optional(),
+  }),
 ]);
 export type PositionSizing = z.infer<typeof PositionSizingSchema>;
 
+export const EntryOrderSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('market') }),
+  /** Rest offsetPct below the signal close (above it for shorts) */
+  z.object({
+    type: z.literal('limit'),
+    offsetPct: z.number().positive().max(50),
+    timeInForceBars: z.number().int().min(1).max(100).optional(),
+  }),
+  /** Trigger on a breakout offsetPct above the signal close (below it for shorts) */
+  z.object({
+    type: z.literal('stop'),
+    offsetPct: z.number().nonnegative().max(50),
+    timeInForceBars: z.number().int().min(1).max(100).optional(),
+  }),
+]);
+export type EntryOrder = z.infer<typeof EntryOrderSchema>;
+
+export const ReentryRulesSchema = z.object({
+  cooldownBars: z.number().int().min(1).max(500).optional(), // entry signals skipped on this many bars from the exit fill
+  cooldownAfterLossOnly: z.boolean().optional(),             // only start a cooldown when the position lost money
+  maxTrades: z
+    .object({
+      count: z.number().int().positive(),
+      periodDays: z.number().int().positive(),
+    })
+    .optional(), // at most `count` entries in any rolling `periodDays` window
+});
+export type ReentryRules = z.infer<typeof ReentryRulesSchema>;
+
+export const RebalanceTargetSchema = z.object({
+  asset: AssetSymbolSchema,
+  weightPct: z.number().positive().max(100),
+});
+export type RebalanceTarget = z.infer<typeof RebalanceTargetSchema>;
+
+export const RebalanceTriggerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('calendar'), intervalDays: z.number().int().positive() }),
+  z.object({ type: z.literal('drift'), thresholdPct: z.number().positive().max(100) }),
+]);
+export type RebalanceTrigger = z.infer<typeof RebalanceTriggerSchema>;
+
 export const StrategyModeSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('standard') }),
   z.object({
@@ -75,9 +234,46 @@ export const StrategyModeSchema = z.discriminatedUnion('type', [
     intervalDays: z.number().int().positive(),
     amountUsd: z.number().positive(),
   }),
+  z.object({
+    type: z.literal('rebalance'),
+    targets: z.array(RebalanceTargetSchema).min(2),
+    trigger: RebalanceTriggerSchema,
+  }),
 ]);
 export type StrategyMode = z.infer<typeof StrategyModeSchema>;
 
+export const ScaleInSchema = z.object({
+  trigger: ConditionGroupSchema, // adds one lot each time it turns true, until maxLots
+  sizePct: z.number().min(1).max(100), // % of current equity added per lot
+  maxLots: z.number().int().min(2).max(20), // including the initial entry
+});
+export type ScaleIn = z.infer<typeof ScaleInSchema>;
+
+export const ScaleOutStepSchema = z.object({
+  id: z.string(),
+  trigger: ConditionGroupSchema,
+  fractionPct: z.number().min(1).max(100), // % of the units still open
+});
+export type ScaleOutStep = z.infer<typeof ScaleOutStepSchema>;
+
+export const PortfolioAllocationSchema = z.enum(['equal_split', 'rule_sizing']);
+export type PortfolioAllocation = z.infer<typeof PortfolioAllocationSchema>;
+
+export const AssetRulesSchema = z.object({
+  asset: AssetSymbolSchema,
+  entry: ConditionGroupSchema,
+  exit: ExitGroupSchema,
+});
+export type AssetRules = z.infer<typeof AssetRulesSchema>;
+
+export const PortfolioSchema = z.object({
+  assets: z.array(AssetSymbolSchema).min(2),
+  maxOpenPositions: z.number().int().positive(),
+  allocation: PortfolioAllocationSchema,
+  overrides: z.array(AssetRulesSchema).optional(), // per-asset entry/exit in place of the shared ones
+});
+export type Portfolio = z.infer<typeof PortfolioSchema>;
+
 export const StrategyMetadataSchema = z.object({
   originalPrompt: z.string().optional(),
   parserConfidence: z.enum(['low', 'medium', 'high']).optional(),
@@ -91,9 +287,15 @@ export const StrategyRuleSetSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   mode: StrategyModeSchema,
+  side: PositionSideSchema.optional(),
   entry: ConditionGroupSchema,
-  exit: ConditionGroupSchema,
+  exit: ExitGroupSchema,
   sizing: PositionSizingSchema.default({ type: 'percent_equity', valuePct: 100 }),
+  entryOrder: EntryOrderSchema.optional(),
+  reentry: ReentryRulesSchema.optional(),
+  scaleIn: ScaleInSchema.optional(),
+  scaleOut: z.array(ScaleOutStepSchema).optional(),
+  portfolio: PortfolioSchema.optional(),
   metadata: StrategyMetadataSchema.optional(),
 });
 export type StrategyRuleSet = z.infer<typeof StrategyRuleSetSchema>;
@@ -108,13 +310,29 @@ const CROSS_OPS: ReadonlySet<ComparisonOp> = new Set([
   'crosses_above', 'crosses_below',
 ]);
 
+/** Whether the exit group carries any resting stop / target orders */
+function hasExitOrders(exit: ExitGroup): boolean {
+  return (
+    exit.stopLossPct !== undefined ||
+    exit.takeProfitPct !== undefined ||
+    exit.trailingStop !== undefined
+  );
+}
+
+/** Sizing types that size each entry from market data or trade history */
+function isDynamicSizing(sizing: PositionSizing): boolean {
+  return sizing.type === 'risk_percent'
+    || sizing.type === 'atr_volatility'
+    || sizing.type === 'kelly_fraction';
+}
+
 export interface InvariantResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
 }
 
-export function validateRuleSetInvariants(rules: StrategyRuleSet): InvariantResult {
+export function validateRuleSetInvariants(rules: StrategyRuleSet, timeframe?: Timeframe): InvariantResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -122,7 +340,7 @@ export function validateRuleSetInvariants(rules: StrategyRuleSet): InvariantResu
     if (rules.entry.conditions.length === 0) {
       errors.push('Standard mode must have at least 1 entry condition.');
     }
-    if (rules.exit.conditions.length === 0) {
+    if (rules.exit.conditions.length === 0 && !hasExitOrders(rules.exit)) {
       warnings.push('No exit conditions — positions will be held until the end of the data range.');
     }
   }
@@ -134,14 +352,125 @@ export function validateRuleSetInvariants(rules: StrategyRuleSet): InvariantResu
     if (rules.exit.conditions.length > 0) {
       errors.push('DCA mode must have empty exit conditions.');
     }
+    if (hasExitOrders(rules.exit)) {
+      errors.push('DCA mode does not support stop-loss, take-profit or trailing stop orders.');
+    }
+    if (rules.scaleIn || (rules.scaleOut && rules.scaleOut.length > 0)) {
+      errors.push('DCA mode does not support scale-in or scale-out rules.');
+    }
+  }
+
+  if (rules.mode.type === 'rebalance') {
+    const { targets } = rules.mode;
+    if (rules.entry.conditions.length > 0 || rules.exit.conditions.length > 0) {
+      errors.push('Rebalance mode must have empty entry and exit conditions.');
+    }
+    if (hasExitOrders(rules.exit)) {
+      errors.push('Rebalance mode does not support stop-loss, take-profit or trailing stop orders.');
+    }
+    if (rules.scaleIn || (rules.scaleOut && rules.scaleOut.length > 0)) {
+      errors.push('Rebalance mode does not support scale-in or scale-out rules.');
+    }
+    if (new Set(targets.map((t) => t.asset)).size !== targets.length) {
+      errors.push('Rebalance target assets must not repeat.');
+    }
+    const totalWeight = targets.reduce((sum, t) => sum + t.weightPct, 0);
+    if (Math.abs(totalWeight - 100) > 0.01) {
+      errors.push(`Rebalance target weights must sum to 100% (got ${totalWeight}%).`);
+    }
+  }
+
+  if (rules.mode.type !== 'standard' && isDynamicSizing(rules.sizing)) {
+    const modeName = rules.mode.type === 'dca' ? 'DCA' : 'rebalance';
+    warnings.push(`${rules.sizing.type} sizing is ignored in ${modeName} mode.`);
+  }
+  if (rules.mode.type === 'standard' && rules.sizing.type === 'risk_percent') {
+    const exits = [rules.exit, ...(rules.portfolio?.overrides ?? []).map((o) => o.exit)];
+    if (exits.some((exit) => exit.stopLossPct === undefined && !exit.trailingStop)) {
+      errors.push('risk_percent sizing needs a stop-loss or trailing stop to measure risk against.');
+    }
+  }
+  if (rules.entryOrder && rules.entryOrder.type !== 'market' && rules.mode.type !== 'standard') {
+    const modeName = rules.mode.type === 'dca' ? 'DCA' : 'rebalance';
+    warnings.push(`${rules.entryOrder.type} entry orders are ignored in ${modeName} mode.`);
+  }
+  if (rules.reentry) {
+    if (rules.reentry.cooldownAfterLossOnly && rules.reentry.cooldownBars === undefined) {
+      errors.push('cooldownAfterLossOnly needs cooldownBars.');
+    }
+    if (rules.mode.type !== 'standard') {
+      const modeName = rules.mode.type === 'dca' ? 'DCA' : 'rebalance';
+      warnings.push(`Re-entry rules are ignored in ${modeName} mode.`);
+    }
+  }
+  if (rules.portfolio?.allocation === 'equal_split' && isDynamicSizing(rules.sizing)) {
+    warnings.push(`${rules.sizing.type} sizing is ignored with equal_split portfolio allocation.`);
   }
 
-  const allConditions = [...rules.entry.conditions, ...rules.exit.conditions];
+  if (rules.scaleIn && rules.scaleIn.trigger.conditions.length === 0) {
+    errors.push('Scale-in must have at least 1 trigger condition.');
+  }
+  for (const step of rules.scaleOut ?? []) {
+    if (step.trigger.conditions.length === 0) {
+      errors.push(`Scale-out "${step.id}" must have at least 1 trigger condition.`);
+    }
+  }
+
+  if (rules.portfolio) {
+    const { assets, maxOpenPositions, overrides } = rules.portfolio;
+    if (rules.mode.type !== 'standard') {
+      errors.push('Portfolio backtesting is only supported in standard mode.');
+    }
+    if (new Set(assets).size !== assets.length) {
+      errors.push('Portfolio assets must not repeat.');
+    }
+    if (maxOpenPositions > assets.length) {
+      warnings.push(
+        `maxOpenPositions (${maxOpenPositions}) exceeds the number of assets — at most ${assets.length} positions can be open.`
+      );
+    }
+    if (rules.scaleIn || (rules.scaleOut && rules.scaleOut.length > 0)) {
+      errors.push('Portfolio backtesting does not support scale-in or scale-out rules.');
+    }
+    if (rules.entryOrder && rules.entryOrder.type !== 'market') {
+      errors.push(`Portfolio backtesting does not support ${rules.entryOrder.type} entry orders; use market entries.`);
+    }
+    if (rules.reentry) {
+      errors.push('Portfolio backtesting does not support re-entry rules.');
+    }
+    for (const override of overrides ?? []) {
+      if (!assets.includes(override.asset)) {
+        errors.push(`Portfolio override for ${override.asset} is not one of the portfolio assets.`);
+      }
+    }
+  }
+
+  const allGroups = [
+    rules.entry,
+    rules.exit,
+    ...(rules.portfolio?.overrides ?? []).flatMap((o) => [o.entry, o.exit]),
+    ...(rules.scaleIn ? [rules.scaleIn.trigger] : []),
+    ...(rules.scaleOut ?? []).map((step) => step.trigger),
+  ];
+  const allConditions = allGroups.flatMap(flattenConditions);
+
+  for (const group of allGroups) {
+    for (const nested of flattenGroups(group).slice(1)) {
+      if (nested.conditions.length === 0) {
+        errors.push('Nested condition groups must not be empty.');
+      }
+    }
+    for (const notGroup of flattenGroups(group).filter((g) => g.op === 'NOT')) {
+      if (notGroup.conditions.length !== 1) {
+        errors.push('NOT groups must contain exactly 1 condition or group.');
+      }
+    }
+  }
 
   for (const cond of allConditions) {
     // Cross operators require indicator operands on both sides
     if (CROSS_OPS.has(cond.op)) {
-      if (cond.left.kind !== 'indicator' || cond.right.kind !== 'indicator') {
+      if (operandIndicators(cond.left).length === 0 || operandIndicators(cond.right).length === 0) {
         errors.push(
           `Condition "${cond.id}": ${cond.op} requires indicator operands on both sides.`
         );
@@ -150,12 +479,11 @@ export function validateRuleSetInvariants(rules: StrategyRuleSet): InvariantResu
 
     // Position-scope only valid with pnl_pct or bars_in_trade
     if (cond.scope === 'position') {
-      const leftIsPositionScope =
-        cond.left.kind === 'indicator' && POSITION_SCOPE_TYPES.has(cond.left.indicator.type);
-      const rightIsPositionScope =
-        cond.right.kind === 'indicator' && POSITION_SCOPE_TYPES.has(cond.right.indicator.type);
+      const isPositionScope = [cond.left, cond.right]
+        .flatMap(operandIndicators)
+        .some((spec) => POSITION_SCOPE_TYPES.has(spec.type));
 
-      if (!leftIsPositionScope && !rightIsPositionScope) {
+      if (!isPositionScope) {
         errors.push(
           `Condition "${cond.id}": scope "position" is only valid with pnl_pct or bars_in_trade indicator types.`
         );
@@ -163,5 +491,20 @@ export function validateRuleSetInvariants(rules: StrategyRuleSet): InvariantResu
     }
   }
 
+  // A timeframe at or below the backtest's would silently read the backtest bars
+  if (timeframe) {
+    const rank = TimeframeSchema.options.indexOf(timeframe);
+    const notHigher = new Set(
+      allConditions
+        .flatMap((cond) => [...operandIndicators(cond.left), ...operandIndicators(cond.right)])
+        .flatMap((spec) =>
+          spec.timeframe && TimeframeSchema.options.indexOf(spec.timeframe) <= rank ? [spec.timeframe] : [],
+        ),
+    );
+    for (const tf of notHigher) {
+      errors.push(`Indicators on the ${tf} timeframe must use longer bars than the ${timeframe} backtest.`);
+    }
+  }
+
   return { valid: errors.length === 0, errors, warnings };
 }